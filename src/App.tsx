@@ -1,7 +1,6 @@
-import { useState, useEffect } from 'react';
-import { AppData, Recipe, CookingSession } from './types';
-import { loadData, saveData, generateId } from './lib/storage';
-import { deductFromInventory } from './lib/conversions';
+import { useState, useEffect, useRef, useReducer } from 'react';
+import { AppData, CookingSession, Ingredient, InventoryItem, Measurement, RecipePhoto, UserRole } from './types';
+import { saveData, generateId, getLastMigrationReport, getLastRepairReport, watchExternalChanges } from './lib/storage';
 import { AuthPage } from './components/AuthPage';
 import { Dashboard } from './components/Dashboard';
 import { RecipesList } from './components/RecipesList';
@@ -11,9 +10,60 @@ import { CookMode } from './components/CookMode';
 import { IngredientsManager } from './components/IngredientsManager';
 import { MeasurementsManager } from './components/MeasurementsManager';
 import { InventoryManager } from './components/InventoryManager';
+import { BackupManager } from './components/BackupManager';
+import { DataRepairDialog } from './components/DataRepairDialog';
+import { AccountSettings } from './components/AccountSettings';
+import { UserRolesManager } from './components/UserRolesManager';
+import { HouseholdManager } from './components/HouseholdManager';
+import { createBackup, getBackupFileName, restoreBackup, BackupFile, BackupScope, RestoreMode } from './lib/backup';
+import { downloadFile } from './lib/files';
+import { hashPassword, verifyPassword } from './lib/passwords';
+import { AccountError, requireCurrentPassword, validateUsername } from './lib/account';
+import { validatePassword } from './lib/passwordPolicy';
+import { countTags } from './lib/tags';
+import { getLineIngredientIds } from './lib/ingredientLines';
+import { SubRecipeError, requireNoSubRecipeCycle } from './lib/subRecipes';
+import { ParsedRecipe, RecipeDraft, findImageFiles, resolveParsedRecipe } from './lib/recipeImport';
+import { parseRecipeText } from './lib/recipeText';
+import { CollectionImportSummary, planCollectionImport } from './lib/recipeCollections';
+import { getPhotoIds, processPhoto, prunePhotos, savePhotoBlobs } from './lib/photos';
+import { LoginResult, getLoginBlock, recordFailedLogin, clearFailedLogins } from './lib/loginThrottle';
+import { HouseholdError, createInviteCode, findHouseholdByCode, getHouseholdMembers } from './lib/households';
+import {
+  PermissionError,
+  isAdmin,
+  canEditCatalogItem,
+  getNewCatalogOwner,
+  requireCatalogPermission,
+} from './lib/permissions';
+import {
+  ACTIVITY_WRITE_INTERVAL,
+  IDLE_TIMEOUT,
+  SessionStatus,
+  createAuthSession,
+  findAuthSession,
+  getSessionStatus,
+  readSessionToken,
+  storeSessionToken,
+  clearSessionToken,
+  resumeSession,
+} from './lib/auth';
+import {
+  storeReducer,
+  createStoreState,
+  selectCurrentUser,
+  selectCurrentHousehold,
+  selectUserRecipes,
+  selectUserInventory,
+  selectVisibleIngredients,
+  selectVisibleMeasurements,
+  selectActiveSession,
+  RecipeFields,
+} from './lib/store';
 import { Button } from './components/ui/button';
-import { ChefHat, Home, BookOpen, ShoppingBasket, Layers, Ruler, LogOut, Menu, X } from 'lucide-react';
+import { ChefHat, Home, BookOpen, ShoppingBasket, Layers, Ruler, Database, Users, UserCog, LogOut, Menu, X } from 'lucide-react';
 import { Toaster } from './components/ui/sonner';
+import { toast } from 'sonner@2.0.3';
 
 // Defines all possible application views
 type View =
@@ -24,67 +74,298 @@ type View =
   | 'cook-mode'
   | 'ingredients'
   | 'measurements'
-  | 'inventory';
+  | 'inventory'
+  | 'backup'
+  | 'household'
+  | 'account';
+
+// Undo/redo toasts share one id so each replaces the last instead of stacking
+const HISTORY_TOAST_ID = 'history';
+
+// Why a login ended, shown once when it happens
+const SESSION_END_MESSAGES: Record<Exclude<SessionStatus, 'valid'>, string> = {
+  expired: 'Your session expired. Please log in again.',
+  idle: `You were logged out after ${IDLE_TIMEOUT / 60000} minutes without activity`,
+  missing: 'You were logged out',
+};
+
+interface AppProps {
+  // Data loaded from storage before the first render (see main.tsx)
+  initialData: AppData;
+}
 
-export default function App() {
-  // Main application state, loaded from storage on startup
-  const [data, setData] = useState<AppData>(loadData());
+export default function App({ initialData }: AppProps) {
+  // Token of this tab's login, kept in browser storage (see lib/auth.ts)
+  const [sessionToken, setSessionToken] = useState(readSessionToken);
+  // Main application state, loaded from storage on startup. All changes go through `dispatch`.
+  // The stored login is only resumed if the token's session is still valid.
+  const [store, dispatch] = useReducer(storeReducer, initialData, (loaded) =>
+    createStoreState(resumeSession(loaded, sessionToken))
+  );
+  const { data } = store;
   // Controls the main content display area
   const [currentView, setCurrentView] = useState<View>('dashboard');
   // Stores the ID of the recipe currently being viewed in detail/cook mode
   const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
   // Stores the ID of the recipe currently being edited
   const [editingRecipeId, setEditingRecipeId] = useState<string | null>(null);
+  // An imported recipe waiting for review in the creation form
+  const [recipeDraft, setRecipeDraft] = useState<RecipeDraft | null>(null);
   // Controls the visibility and size of the navigation sidebar
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  // Repairs made to stored data on load, shown once until dismissed
+  const [repairReport, setRepairReport] = useState(() => getLastRepairReport());
+
+  // Effect to tell the user once if their stored data was upgraded on load
+  useEffect(() => {
+    const report = getLastMigrationReport();
+    if (report && report.steps.length > 0) {
+      toast.success(`Your data was upgraded to version ${report.toVersion}`, {
+        description: report.steps.map((step) => step.description).join('; '),
+      });
+    }
+  }, []);
+
+  // Effect to free the space of photos removed from every recipe (including other users')
+  useEffect(() => {
+    prunePhotos(getPhotoIds(data.recipes)).catch(() => {
+      // Photos are optional; a failed clean-up is retried on the next start
+    });
+  }, []);
 
   // Effect to persist data whenever the 'data' state changes
   useEffect(() => {
     saveData(data);
   }, [data]);
 
+  // Latest state for the cross-tab listener, which is subscribed only once
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // Effect to pull in changes saved by other open tabs
+  useEffect(() => {
+    return watchExternalChanges(
+      () => dataRef.current,
+      (merged, conflicts) => {
+        dispatch({ type: 'sync/merged', data: merged });
+        if (conflicts.length > 0) {
+          toast.warning('Changes from another tab were applied', {
+            description: `Both tabs edited ${conflicts.join(', ')}; the most recent save was kept.`,
+          });
+        }
+      }
+    );
+  }, []);
+
+  // Effect to confirm each recorded, undone or redone change with a toast offering the reverse
+  useEffect(() => {
+    const { notice } = store;
+    if (!notice) return;
+    const undoAction = { label: 'Undo', onClick: () => dispatch({ type: 'history/undone' }) };
+    const redoAction = { label: 'Redo', onClick: () => dispatch({ type: 'history/redone' }) };
+    switch (notice.kind) {
+      case 'done':
+        toast.success(notice.label, { id: HISTORY_TOAST_ID, description: notice.description, action: undoAction });
+        break;
+      case 'undone':
+        toast(`Undone: ${notice.label}`, { id: HISTORY_TOAST_ID, action: redoAction });
+        break;
+      case 'redone':
+        toast(`Redone: ${notice.label}`, { id: HISTORY_TOAST_ID, action: undoAction });
+        break;
+      default:
+        toast(notice.label, { id: HISTORY_TOAST_ID });
+    }
+  }, [store.notice]);
+
+  // Effect to bind Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl+Y to redo.
+  // Text fields keep their own native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'history/undone' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatch({ type: 'history/redone' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Derived state: current user and their scoped data
-  const currentUser = data.users.find((u) => u.id === data.currentUserId);
-  const userRecipes = data.recipes.filter((r) => r.userId === data.currentUserId);
-  // Inventory is filtered to show only items owned by the current user
-  const userInventory = data.inventory.filter((i) => i.userId === data.currentUserId);
-
-
-   // Handles user login attempt. Sets `currentUserId` on success.
-  const handleLogin = (username: string, password: string): boolean => {
-    const user = data.users.find((u) => u.username === username && u.password === password);
-    if (user) {
-      setData({ ...data, currentUserId: user.id });
-      return true;
+  const currentUser = selectCurrentUser(data);
+  const userRecipes = selectUserRecipes(data);
+  const userInventory = selectUserInventory(data);
+  const currentHousehold = selectCurrentHousehold(data);
+  const visibleIngredients = selectVisibleIngredients(data);
+  const visibleMeasurements = selectVisibleMeasurements(data);
+
+  // --- Session Validation ---
+
+  // Clock for session checks, advanced every 30 seconds so expiry and idle timeouts are noticed
+  const [now, setNow] = useState(Date.now);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sessionStatus = getSessionStatus(findAuthSession(data, sessionToken), now);
+
+  // Effect to end this tab's login once its session is no longer valid: expired, idle,
+  // or removed elsewhere (logout in another tab sharing a remembered login, or a password change)
+  useEffect(() => {
+    if (!sessionToken || sessionStatus === 'valid') return;
+    const wasLoggedIn = data.currentUserId !== null;
+    endSession();
+    if (wasLoggedIn) toast(SESSION_END_MESSAGES[sessionStatus]);
+  }, [sessionToken, sessionStatus]);
+
+  // Effect to record activity on the session, throttled, so idle sessions time out
+  useEffect(() => {
+    if (!sessionToken) return;
+    let lastWrite = 0;
+    const handleActivity = () => {
+      const at = Date.now();
+      if (at - lastWrite < ACTIVITY_WRITE_INTERVAL) return;
+      lastWrite = at;
+      dispatch({ type: 'auth/sessionTouched', token: sessionToken, at });
+    };
+    const events = ['pointerdown', 'keydown', 'scroll'];
+    events.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => events.forEach((event) => window.removeEventListener(event, handleActivity));
+  }, [sessionToken]);
+
+
+   // Handles user login attempt, subject to throttling. Sets `currentUserId` on success and upgrades a plaintext or outdated password hash.
+  const handleLogin = async (username: string, password: string, rememberMe: boolean): Promise<LoginResult> => {
+    // Throttled usernames are refused before the password is even checked
+    const block = getLoginBlock(username);
+    if (block) return { status: 'throttled', ...block };
+
+    const user = data.users.find((u) => u.username === username);
+    const { valid, needsRehash } = user ? await verifyPassword(password, user.password) : { valid: false, needsRehash: false };
+    if (!user || !valid) {
+      const retry = recordFailedLogin(username);
+      return { status: 'invalid', retryAt: retry?.retryAt ?? null, locked: retry?.locked ?? false };
     }
-    return false;
+    clearFailedLogins(username);
+
+    if (needsRehash) {
+      dispatch({ type: 'user/passwordChanged', userId: user.id, password: await hashPassword(password) });
+    }
+    const session = createAuthSession(user.id, rememberMe);
+    storeSessionToken(session.token, rememberMe);
+    setSessionToken(session.token);
+    dispatch({ type: 'auth/loggedIn', session });
+    return { status: 'success' };
   };
 
 
-   // Handles new user registration. Adds user if username is unique.
-  const handleSignup = (username: string, password: string): boolean => {
-    const exists = data.users.find((u) => u.username === username);
-    if (exists) return false;
+   // Handles new user registration; only a hash of the password is stored.
+   // Throws AccountError if the username is taken or the password breaks the password policy.
+  const handleSignup = async (username: string, password: string) => {
+    validateUsername(username, data.users, null);
+    validatePassword(password, username);
 
-    const newUser = { id: generateId(), username, password };
-    setData({ ...data, users: [...data.users, newUser] });
-    return true;
+    // The first account on a device (or after the last admin left) looks after the shared catalog
+    const role: UserRole = data.users.some((u) => u.role === 'admin') ? 'member' : 'admin';
+    dispatch({
+      type: 'user/registered',
+      user: { id: generateId(), username, password: await hashPassword(password), role },
+    });
   };
 
 
-   // Clears the current user session.
-  const handleLogout = () => {
-    setData({ ...data, currentUserId: null });
+   // Ends this tab's login session and forgets its token.
+  const endSession = () => {
+    dispatch({ type: 'auth/loggedOut', token: sessionToken });
+    clearSessionToken();
+    setSessionToken(null);
     setCurrentView('dashboard');
   };
 
+  const handleLogout = () => {
+    endSession();
+  };
+
 
    // Navigates to the recipe creation form.
   const handleAddRecipe = () => {
     setEditingRecipeId(null);
+    setRecipeDraft(null);
+    setCurrentView('recipe-form');
+  };
+
+   // Opens an imported recipe in the creation form for review; the ingredients and units it needs are added when it is saved.
+  const handleImportRecipe = (parsed: ParsedRecipe, photos: RecipePhoto[] = []) => {
+    const ownerId = getNewCatalogOwner(currentUser!);
+    const { draft, newIngredients, newMeasurements } = resolveParsedRecipe(parsed, {
+      ingredients: visibleIngredients,
+      measurements: visibleMeasurements,
+      newId: generateId,
+      ...(ownerId && { ownerId }),
+    });
+    const flagged = draft.lineIssues.filter(Boolean).length;
+    if (flagged > 0) toast(flagged === 1 ? '1 ingredient line needs checking' : `${flagged} ingredient lines need checking`);
+    setEditingRecipeId(null);
+    setRecipeDraft({ ...draft, photos, newIngredients, newMeasurements });
     setCurrentView('recipe-form');
   };
 
+  const handleImportRecipeText = (text: string) => {
+    handleImportRecipe(parseRecipeText(text, visibleMeasurements));
+  };
+
+   // Adds a collection of recipes in one undoable step, without review; returns what was added and skipped.
+  const handleImportCollection = async (parsed: ParsedRecipe[]): Promise<CollectionImportSummary> => {
+    const ownerId = getNewCatalogOwner(currentUser!);
+    const plan = planCollectionImport(parsed, userRecipes, {
+      ingredients: visibleIngredients,
+      measurements: visibleMeasurements,
+      newId: generateId,
+      recipes: userRecipes,
+      ...(ownerId && { ownerId }),
+    });
+    const recipes: { id: string; fields: RecipeFields; revisionId: string }[] = [];
+    for (const { parsed: recipe, draft } of plan.recipes) {
+      // Photos carried in the file; one that cannot be used is left out rather than stopping the import
+      const photos: RecipePhoto[] = [];
+      for (const file of findImageFiles(recipe.images ?? [], []).found) {
+        try {
+          const { photo, full, thumb } = await processPhoto(file);
+          await savePhotoBlobs(photo.id, full, thumb);
+          photos.push(photo);
+        } catch {
+          // Skipped
+        }
+      }
+      recipes.push({ id: generateId(), fields: { ...draft.content, photos }, revisionId: generateId() });
+    }
+    dispatch({
+      type: 'recipes/imported',
+      userId: data.currentUserId!,
+      importedAt: Date.now(),
+      recipes,
+      ingredients: plan.newIngredients,
+      measurements: plan.newMeasurements,
+    });
+    return {
+      imported: plan.recipes.map(({ parsed: recipe, issues }, index) => ({
+        id: recipes[index].id,
+        name: recipe.name,
+        issues,
+      })),
+      skipped: plan.skipped,
+    };
+  };
+
 
    // Sets recipe ID for editing and navigates to the form.
   const handleEditRecipe = (recipeId: string) => {
@@ -94,47 +375,75 @@ export default function App() {
 
    // Increments recipe view count and navigates to the detail view.
   const handleViewRecipe = (recipeId: string) => {
-    const recipe = data.recipes.find((r) => r.id === recipeId);
-    if (recipe) {
-      // Increment view counter before navigating
-      const updatedRecipes = data.recipes.map((r) =>
-        r.id === recipeId ? { ...r, viewCount: r.viewCount + 1 } : r
-      );
-      setData({ ...data, recipes: updatedRecipes });
+    if (data.recipes.some((r) => r.id === recipeId)) {
+      dispatch({ type: 'recipe/viewed', recipeId });
       setSelectedRecipeId(recipeId);
       setCurrentView('recipe-detail');
     }
   };
 
 
-   // Saves or updates a recipe based on whether `editingRecipeId` is set.
-  const handleSaveRecipe = (recipeData: Omit<Recipe, 'id' | 'userId' | 'viewCount' | 'cookCount' | 'createdAt'>) => {
-    if (editingRecipeId) {
-      // Update existing recipe
-      const updatedRecipes = data.recipes.map((r) =>
-        r.id === editingRecipeId ? { ...r, ...recipeData } : r
-      );
-      setData({ ...data, recipes: updatedRecipes });
-    } else {
-      // Create new recipe
-      const newRecipe: Recipe = {
-        ...recipeData,
-        id: generateId(),
-        userId: data.currentUserId!,
-        viewCount: 0,
-        cookCount: 0,
-        createdAt: Date.now(),
-      };
-      setData({ ...data, recipes: [...data.recipes, newRecipe] });
+   // Saves or updates a recipe based on whether `editingRecipeId` is set. An imported draft's new
+   // catalog entries are added with it, those the saved recipe still uses.
+  const handleSaveRecipe = (recipeData: RecipeFields) => {
+    const id = editingRecipeId ?? generateId();
+    try {
+      requireNoSubRecipeCycle(data.recipes, id, recipeData.ingredients);
+    } catch (err) {
+      if (!(err instanceof SubRecipeError)) throw err;
+      toast.error(err.message);
+      return;
     }
+    const draft = editingRecipeId ? null : recipeDraft;
+    const usedIds = new Set([
+      ...recipeData.ingredients.flatMap((line) => [...getLineIngredientIds(line), line.measurementId]),
+      ...(recipeData.yield ? [recipeData.yield.measurementId, recipeData.yield.ingredientId] : []),
+    ]);
+    dispatch({
+      type: 'recipe/saved',
+      id,
+      userId: data.currentUserId!,
+      fields: recipeData,
+      savedAt: Date.now(),
+      revisionId: generateId(),
+      ingredients: draft?.newIngredients?.filter((i) => usedIds.has(i.id)) ?? [],
+      measurements: draft?.newMeasurements?.filter((m) => usedIds.has(m.id)) ?? [],
+    });
+    setRecipeDraft(null);
     setCurrentView('recipes');
   };
 
-   // Deletes a recipe and any associated active cooking sessions.
+   // Makes an older revision of a recipe its current version, keeping the history.
+  const handleRestoreRevision = (recipeId: string, revisionId: string) => {
+    dispatch({
+      type: 'recipe/revisionRestored',
+      recipeId,
+      revisionId,
+      userId: data.currentUserId!,
+      restoredAt: Date.now(),
+      newRevisionId: generateId(),
+    });
+  };
+
+   // Duplicates a recipe as a named variation and opens the copy for editing.
+  const handleForkRecipe = (recipeId: string, name: string) => {
+    const id = generateId();
+    dispatch({
+      type: 'recipe/forked',
+      recipeId,
+      id,
+      name,
+      userId: data.currentUserId!,
+      forkedAt: Date.now(),
+      revisionId: generateId(),
+    });
+    setEditingRecipeId(id);
+    setCurrentView('recipe-form');
+  };
+
+   // Deletes a recipe and any associated cooking sessions.
   const handleDeleteRecipe = (recipeId: string) => {
-    const updatedRecipes = data.recipes.filter((r) => r.id !== recipeId);
-    const updatedSessions = data.cookingSessions.filter((s) => s.recipeId !== recipeId);
-    setData({ ...data, recipes: updatedRecipes, cookingSessions: updatedSessions });
+    dispatch({ type: 'recipe/deleted', recipeId });
   };
 
 
@@ -143,14 +452,10 @@ export default function App() {
     const recipe = data.recipes.find((r) => r.id === recipeId);
     if (!recipe) return;
 
-    // Check for existing active session to resume it
-    const existingSession = data.cookingSessions.find(
-      (s) => s.recipeId === recipeId && s.userId === data.currentUserId && s.status === 'active'
-    );
-
-    if (!existingSession) {
-      // Create a new session if none exists
-      const newSession: CookingSession = {
+    // The reducer keeps an existing active session instead of adding this one
+    dispatch({
+      type: 'session/started',
+      session: {
         id: generateId(),
         recipeId,
         userId: data.currentUserId!,
@@ -158,9 +463,8 @@ export default function App() {
         stepsChecked: [],
         servingSize: recipe.servings,
         status: 'active',
-      };
-      setData({ ...data, cookingSessions: [...data.cookingSessions, newSession] });
-    }
+      },
+    });
 
     setSelectedRecipeId(recipeId);
     setCurrentView('cook-mode');
@@ -169,274 +473,226 @@ export default function App() {
 
    // Persists the current session state (progress, serving size) from the CookMode component.
   const handleUpdateCookingSession = (session: CookingSession) => {
-    const updatedSessions = data.cookingSessions.map((s) =>
-      s.id === session.id ? session : s
-    );
-    setData({ ...data, cookingSessions: updatedSessions });
+    dispatch({ type: 'session/updated', session });
   };
 
-  /**
-   * Handles final completion:
-   * 1. Calculates scaled ingredient requirements.
-   * 2. Deducts required ingredients from the user's inventory using unit conversion utility.
-   * 3. Increments the recipe's cook counter.
-   * 4. Marks the session as 'completed'.
-   */
+   // Completes the active session: deducts the scaled ingredients from inventory and counts the recipe as cooked.
   const handleCompleteCooking = () => {
-    const session = data.cookingSessions.find(
-      (s) => s.recipeId === selectedRecipeId && s.userId === data.currentUserId && s.status === 'active'
-    );
-    
-    if (session) {
-      const recipe = data.recipes.find((r) => r.id === selectedRecipeId);
-      
-      if (recipe && data.currentUserId) {
-        // Calculate scaling factor based on session serving size
-        const scalingFactor = session.servingSize / recipe.servings;
-        
-        let updatedInventory = [...data.inventory];
-        
-        // Loop through recipe ingredients to deduct from inventory
-        recipe.ingredients.forEach((ing) => {
-          const requiredAmount = ing.quantity * scalingFactor;
-          
-          // Use the conversion utility to deduct from inventory
-          const result = deductFromInventory(
-            ing.ingredientId,
-            ing.measurementId,
-            requiredAmount,
-            updatedInventory,
-            data.measurements,
-            data.currentUserId!
-          );
-          
-          updatedInventory = result.updatedInventory;
-        });
-        
-        // Mark session as completed
-        const updatedSessions = data.cookingSessions.map((s) =>
-          s.id === session.id ? { ...s, status: 'completed' as const } : s
-        );
-        // Increment cook count
-        const updatedRecipes = data.recipes.map((r) =>
-          r.id === selectedRecipeId ? { ...r, cookCount: r.cookCount + 1 } : r
-        );
-        
-        setData({ 
-          ...data, 
-          cookingSessions: updatedSessions, 
-          recipes: updatedRecipes,
-          inventory: updatedInventory 
-        });
-      }
+    if (selectedRecipeId && data.currentUserId) {
+      dispatch({ type: 'session/completed', recipeId: selectedRecipeId, userId: data.currentUserId });
     }
-    
     setCurrentView('recipes');
   };
 
 
    // Marks the current active session as 'cancelled'. No inventory deduction occurs.
   const handleCancelCooking = () => {
-    const session = data.cookingSessions.find(
-      (s) => s.recipeId === selectedRecipeId && s.userId === data.currentUserId && s.status === 'active'
-    );
-    
-    if (session) {
-      const updatedSessions = data.cookingSessions.map((s) =>
-        s.id === session.id ? { ...s, status: 'cancelled' as const } : s
-      );
-      setData({ ...data, cookingSessions: updatedSessions });
+    if (selectedRecipeId && data.currentUserId) {
+      dispatch({ type: 'session/cancelled', recipeId: selectedRecipeId, userId: data.currentUserId });
     }
-    
     setCurrentView('recipes');
   };
 
+   // Runs a change to a catalog entry if the signed-in user may make it, otherwise says why not.
+  const withCatalogPermission = (item: Ingredient | Measurement | undefined, change: () => void) => {
+    if (!item) return;
+    try {
+      requireCatalogPermission(currentUser!, item);
+    } catch (err) {
+      if (!(err instanceof PermissionError)) throw err;
+      toast.error(err.message);
+      return;
+    }
+    change();
+  };
+
   // --- Ingredient Management Handlers ---
 
+   // Members add private ingredients; an admin's additions are shared with everyone.
   const handleAddIngredient = (name: string) => {
-    const newIngredient = { id: generateId(), name, isCustom: true };
-    setData({ ...data, ingredients: [...data.ingredients, newIngredient] });
+    const ownerId = getNewCatalogOwner(currentUser!);
+    dispatch({ type: 'ingredient/added', ingredient: { id: generateId(), name, isCustom: true, ...(ownerId && { ownerId }) } });
   };
 
   const handleEditIngredient = (id: string, name: string) => {
-    const updatedIngredients = data.ingredients.map((i) =>
-      i.id === id ? { ...i, name } : i
+    withCatalogPermission(data.ingredients.find((i) => i.id === id), () =>
+      dispatch({ type: 'ingredient/renamed', id, name })
     );
-    setData({ ...data, ingredients: updatedIngredients });
   };
 
   const handleDeleteIngredient = (id: string) => {
-    // Note: Does not currently cascade delete/cleanup recipe or inventory linkages
-    const updatedIngredients = data.ingredients.filter((i) => i.id !== id);
-    setData({ ...data, ingredients: updatedIngredients });
+    withCatalogPermission(data.ingredients.find((i) => i.id === id), () => dispatch({ type: 'ingredient/deleted', id }));
   };
 
   // --- Measurement Management Handlers ---
 
   const handleAddMeasurement = (name: string) => {
-    const newMeasurement = { id: generateId(), name, conversions: [] };
-    setData({ ...data, measurements: [...data.measurements, newMeasurement] });
+    const ownerId = getNewCatalogOwner(currentUser!);
+    dispatch({
+      type: 'measurement/added',
+      measurement: { id: generateId(), name, conversions: [], isCustom: true, ...(ownerId && { ownerId }) },
+    });
   };
 
   const handleEditMeasurement = (id: string, name: string) => {
-    const updatedMeasurements = data.measurements.map((m) =>
-      m.id === id ? { ...m, name } : m
+    withCatalogPermission(data.measurements.find((m) => m.id === id), () =>
+      dispatch({ type: 'measurement/renamed', id, name })
     );
-    setData({ ...data, measurements: updatedMeasurements });
   };
 
   const handleDeleteMeasurement = (id: string) => {
-    // Note: Does not currently cascade delete/cleanup recipe or inventory linkages
-    const updatedMeasurements = data.measurements.filter((m) => m.id !== id);
-    setData({ ...data, measurements: updatedMeasurements });
+    withCatalogPermission(data.measurements.find((m) => m.id === id), () =>
+      dispatch({ type: 'measurement/deleted', id })
+    );
   };
 
-   // Adds or updates a conversion factor between two measurements.
+   // Adds or updates a conversion factor between two measurements. Conversions belong to the source unit.
   const handleAddConversion = (fromId: string, toId: string, factor: number) => {
-    const updatedMeasurements = data.measurements.map((m) => {
-      if (m.id === fromId) {
-        const existingConversion = m.conversions.find((c) => c.toMeasurementId === toId);
-        
-        // Logic to either update existing conversion or add a new one
-        if (existingConversion) {
-          return {
-            ...m,
-            conversions: m.conversions.map((c) =>
-              c.toMeasurementId === toId ? { ...c, factor } : c
-            ),
-          };
-        } else {
-          return {
-            ...m,
-            conversions: [...m.conversions, { toMeasurementId: toId, factor }],
-          };
-        }
-      }
-      return m;
-    });
-    setData({ ...data, measurements: updatedMeasurements });
+    withCatalogPermission(data.measurements.find((m) => m.id === fromId), () =>
+      dispatch({ type: 'conversion/set', fromId, toId, factor })
+    );
   };
 
    // Removes a specific conversion entry from a source measurement.
   const handleRemoveConversion = (fromId: string, toId: string) => {
-    const updatedMeasurements = data.measurements.map((m) => {
-      if (m.id === fromId) {
-        return {
-          ...m,
-          conversions: m.conversions.filter((c) => c.toMeasurementId !== toId),
-        };
-      }
-      return m;
-    });
-    setData({ ...data, measurements: updatedMeasurements });
+    withCatalogPermission(data.measurements.find((m) => m.id === fromId), () =>
+      dispatch({ type: 'conversion/removed', fromId, toId })
+    );
   };
 
   // --- Inventory Management Handlers ---
 
    // Adds a new inventory item or increments quantity if an item with the same ID and unit already exists.
-  const handleAddInventoryItem = (item: Omit<typeof data.inventory[0], 'userId'>) => {
-    const existingIndex = data.inventory.findIndex(
-      (i) =>
-        i.userId === data.currentUserId &&
-        i.ingredientId === item.ingredientId &&
-        i.measurementId === item.measurementId
-    );
-
-    if (existingIndex >= 0) {
-      // If item exists in the same unit, increment quantity
-      const updatedInventory = [...data.inventory];
-      updatedInventory[existingIndex] = {
-        ...updatedInventory[existingIndex],
-        quantity: updatedInventory[existingIndex].quantity + item.quantity,
-      };
-      setData({ ...data, inventory: updatedInventory });
-    } else {
-      // Add as a new item
-      const newItem = { ...item, userId: data.currentUserId! };
-      setData({ ...data, inventory: [...data.inventory, newItem] });
-    }
+  const handleAddInventoryItem = (item: Omit<InventoryItem, 'userId'>) => {
+    dispatch({ type: 'inventory/added', item: { ...item, userId: data.currentUserId! } });
   };
 
-  /**
-   * Edits an inventory item's quantity or measurement unit.
-   * Complex logic handles unit changes by removing the old entry and merging/adding a new entry.
-   */
+   // Edits an inventory item's quantity or measurement unit; a unit change merges into any entry already in that unit.
   const handleEditInventoryItem = (
     ingredientId: string, 
     oldMeasurementId: string, 
     newMeasurementId: string, 
     quantity: number
   ) => {
-    // Check if the measurement unit was changed during the edit
-    if (oldMeasurementId !== newMeasurementId) {
-      // 1. Remove the old entry (which is keyed by oldMeasurementId)
-      const withoutOld = data.inventory.filter(
-        (i) =>
-          !(
-            i.userId === data.currentUserId &&
-            i.ingredientId === ingredientId &&
-            i.measurementId === oldMeasurementId
-          )
-      );
-      
-      // 2. Check if an inventory item with the *new* unit already exists
-      const existingIndex = withoutOld.findIndex(
-        (i) =>
-          i.userId === data.currentUserId &&
-          i.ingredientId === ingredientId &&
-          i.measurementId === newMeasurementId
-      );
-      
-      if (existingIndex >= 0) {
-        // 3a. If the new item exists, merge/add the quantity to the existing entry
-        withoutOld[existingIndex] = {
-          ...withoutOld[existingIndex],
-          quantity: withoutOld[existingIndex].quantity + quantity,
-        };
-        setData({ ...data, inventory: withoutOld });
-      } else {
-        // 3b. If the new item doesn't exist, create a completely new entry with the new unit
-        const newItem = {
-          userId: data.currentUserId!,
-          ingredientId,
-          measurementId: newMeasurementId,
-          quantity,
-        };
-        setData({ ...data, inventory: [...withoutOld, newItem] });
-      }
-    } else {
-      // Simply update the quantity of the existing item
-      const updatedInventory = data.inventory.map((i) =>
-        i.userId === data.currentUserId &&
-        i.ingredientId === ingredientId &&
-        i.measurementId === oldMeasurementId
-          ? { ...i, quantity }
-          : i
-      );
-      setData({ ...data, inventory: updatedInventory });
-    }
+    dispatch({
+      type: 'inventory/edited',
+      userId: data.currentUserId!,
+      ingredientId,
+      oldMeasurementId,
+      newMeasurementId,
+      quantity,
+    });
   };
 
    // Deletes a specific inventory item (identified by both ingredient and measurement ID).
   const handleDeleteInventoryItem = (ingredientId: string, measurementId: string) => {
-    const updatedInventory = data.inventory.filter(
-      (i) =>
-        !(
-          i.userId === data.currentUserId &&
-          i.ingredientId === ingredientId &&
-          i.measurementId === measurementId
-        )
-    );
-    setData({ ...data, inventory: updatedInventory });
+    dispatch({ type: 'inventory/removed', userId: data.currentUserId!, ingredientId, measurementId });
+  };
+
+  // --- Backup Handlers ---
+
+   // Builds a backup of the requested scope and downloads it as a JSON file. Only an admin may back up everyone.
+  const handleExportBackup = (scope: BackupScope) => {
+    if (scope === 'all' && !isAdmin(currentUser)) {
+      throw new PermissionError('Only an admin can back up everyone on this device');
+    }
+    const backup = createBackup(data, scope, data.currentUserId);
+    downloadFile(getBackupFileName(backup), JSON.stringify(backup, null, 2));
+  };
+
+   // Restores a validated backup, either replacing or merging with the current data. Throws BackupError when it cannot,
+   // and PermissionError when a non-admin restores a full backup.
+  const handleRestoreBackup = (backup: BackupFile, mode: RestoreMode) => {
+    if (backup.scope === 'all' && !isAdmin(currentUser)) {
+      throw new PermissionError('Only an admin can restore a full backup');
+    }
+    const { data: restored, summary } = restoreBackup(data, backup, mode);
+    dispatch({ type: 'backup/restored', data: restored, mode, summary });
+  };
+
+  // --- Household Handlers ---
+
+   // Starts a household with the signed-in user as its first member.
+  const handleCreateHousehold = (name: string) => {
+    dispatch({
+      type: 'household/created',
+      household: { id: generateId(), name, inviteCode: createInviteCode(), createdBy: currentUser!.id, createdAt: Date.now() },
+      userId: currentUser!.id,
+    });
+  };
+
+   // Joins the household with the given invite code. Throws HouseholdError when there is none.
+  const handleJoinHousehold = (inviteCode: string) => {
+    const household = findHouseholdByCode(data, inviteCode);
+    if (!household) {
+      throw new HouseholdError('No household has that invite code');
+    }
+    if (household.id === currentUser!.householdId) {
+      throw new HouseholdError(`You are already in ${household.name}`);
+    }
+    dispatch({ type: 'household/joined', householdId: household.id, userId: currentUser!.id });
+  };
+
+  const handleLeaveHousehold = () => {
+    dispatch({ type: 'household/left', userId: currentUser!.id });
+  };
+
+  // --- Account Handlers ---
+
+   // Renames the signed-in account after re-checking its password. Throws AccountError on failure.
+  const handleChangeUsername = async (newUsername: string, currentPassword: string) => {
+    validateUsername(newUsername, data.users, data.currentUserId);
+    await requireCurrentPassword(currentUser!, currentPassword);
+    dispatch({ type: 'user/renamed', userId: currentUser!.id, username: newUsername });
+  };
+
+   // Sets a new password after re-checking the current one. Throws AccountError on failure.
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    validatePassword(newPassword, currentUser!.username);
+    await requireCurrentPassword(currentUser!, currentPassword);
+    // Other logins of this account end; this one stays
+    dispatch({
+      type: 'user/passwordChanged',
+      userId: currentUser!.id,
+      password: await hashPassword(newPassword),
+      keepToken: sessionToken ?? undefined,
+    });
+  };
+
+   // Deletes the signed-in account with its recipes, inventory and sessions, optionally downloading them first.
+  const handleDeleteAccount = async (currentPassword: string, exportFirst: boolean) => {
+    const otherAdmins = data.users.filter((u) => u.role === 'admin' && u.id !== currentUser!.id);
+    if (isAdmin(currentUser) && otherAdmins.length === 0 && data.users.length > 1) {
+      throw new AccountError('Make another user an admin before deleting the only admin account');
+    }
+    await requireCurrentPassword(currentUser!, currentPassword);
+    if (exportFirst) handleExportBackup('user');
+    dispatch({ type: 'user/deleted', userId: currentUser!.id });
+    clearSessionToken();
+    setSessionToken(null);
+    setCurrentView('dashboard');
+  };
+
+   // Changes another user's role. Throws PermissionError unless the signed-in user is an admin.
+  const handleChangeRole = (userId: string, role: UserRole) => {
+    if (!isAdmin(currentUser)) {
+      throw new PermissionError('Only an admin can change roles');
+    }
+    if (role === 'member' && !data.users.some((u) => u.role === 'admin' && u.id !== userId)) {
+      throw new PermissionError('There must always be at least one admin');
+    }
+    dispatch({ type: 'user/roleChanged', userId, role });
   };
 
   // --- Rendering Logic ---
 
-  if (!currentUser) {
+  // User-scoped views need both a user and a valid session
+  if (!currentUser || sessionStatus !== 'valid') {
     return (
       <>
         {/* Shows AuthPage if no user is logged in */}
         <AuthPage onLogin={handleLogin} onSignup={handleSignup} />
+        <DataRepairDialog report={repairReport} onClose={() => setRepairReport(null)} />
         <Toaster />
       </>
     );
@@ -446,9 +702,7 @@ export default function App() {
   const selectedRecipe = data.recipes.find((r) => r.id === selectedRecipeId);
   const editingRecipe = data.recipes.find((r) => r.id === editingRecipeId);
   // Finds the active session for the selected recipe/user combination
-  const cookingSession = data.cookingSessions.find(
-    (s) => s.recipeId === selectedRecipeId && s.userId === data.currentUserId && s.status === 'active'
-  );
+  const cookingSession = selectActiveSession(data, selectedRecipeId);
 
   return (
     <div className="min-h-screen relative" style={{
@@ -537,6 +791,15 @@ export default function App() {
                 <Ruler className="w-4 h-4" />
                 {!sidebarCollapsed && <span className="ml-2">Measurements</span>}
               </Button>
+              <Button
+                variant={currentView === 'backup' ? 'default' : 'ghost'}
+                className={`w-full ${sidebarCollapsed ? 'justify-center' : 'justify-start'}`}
+                onClick={() => setCurrentView('backup')}
+                title="Backup"
+              >
+                <Database className="w-4 h-4" />
+                {!sidebarCollapsed && <span className="ml-2">Backup</span>}
+              </Button>
             </nav>
 
             <div className="mt-8 pt-8 border-t">
@@ -546,6 +809,24 @@ export default function App() {
                   <p className="text-sm text-muted-foreground truncate">{currentUser.username}</p>
                 </div>
               )}
+              <Button
+                variant={currentView === 'household' ? 'default' : 'ghost'}
+                className={`w-full mb-2 ${sidebarCollapsed ? 'justify-center px-2' : 'justify-start'}`}
+                onClick={() => setCurrentView('household')}
+                title="Household"
+              >
+                <Users className="w-4 h-4" />
+                {!sidebarCollapsed && <span className="ml-2">Household</span>}
+              </Button>
+              <Button
+                variant={currentView === 'account' ? 'default' : 'ghost'}
+                className={`w-full mb-2 ${sidebarCollapsed ? 'justify-center px-2' : 'justify-start'}`}
+                onClick={() => setCurrentView('account')}
+                title="Account"
+              >
+                <UserCog className="w-4 h-4" />
+                {!sidebarCollapsed && <span className="ml-2">Account</span>}
+              </Button>
               {/* Logout Button */}
               <Button 
                 variant="outline" 
@@ -581,7 +862,11 @@ export default function App() {
               onViewRecipe={handleViewRecipe}
               onEditRecipe={handleEditRecipe}
               onDeleteRecipe={handleDeleteRecipe}
+              onForkRecipe={handleForkRecipe}
               onAddRecipe={handleAddRecipe}
+              onImportText={handleImportRecipeText}
+              onImportRecipe={handleImportRecipe}
+              onImportCollection={handleImportCollection}
               onCookRecipe={handleStartCooking}
             />
           )}
@@ -591,6 +876,11 @@ export default function App() {
               recipe={selectedRecipe}
               ingredients={data.ingredients}
               measurements={data.measurements}
+              recipes={userRecipes}
+              users={data.users}
+              onViewRecipe={handleViewRecipe}
+              onRestoreRevision={(revisionId) => handleRestoreRevision(selectedRecipe.id, revisionId)}
+              onFork={(name) => handleForkRecipe(selectedRecipe.id, name)}
               onBack={() => setCurrentView('recipes')}
               onEdit={() => handleEditRecipe(selectedRecipe.id)}
               onCook={() => handleStartCooking(selectedRecipe.id)}
@@ -600,8 +890,13 @@ export default function App() {
           {currentView === 'recipe-form' && (
             <RecipeForm
               recipe={editingRecipe}
-              ingredients={data.ingredients}
-              measurements={data.measurements}
+              draft={editingRecipe ? undefined : recipeDraft ?? undefined}
+              ingredients={editingRecipe ? visibleIngredients : [...visibleIngredients, ...(recipeDraft?.newIngredients ?? [])]}
+              measurements={
+                editingRecipe ? visibleMeasurements : [...visibleMeasurements, ...(recipeDraft?.newMeasurements ?? [])]
+              }
+              knownTags={countTags(userRecipes).map(({ tag }) => tag)}
+              recipes={userRecipes}
               onSave={handleSaveRecipe}
               onCancel={() => setCurrentView('recipes')}
             />
@@ -613,6 +908,7 @@ export default function App() {
               ingredients={data.ingredients}
               measurements={data.measurements}
               inventory={userInventory}
+              recipes={userRecipes}
               session={cookingSession || null}
               onUpdateSession={handleUpdateCookingSession}
               onComplete={handleCompleteCooking}
@@ -623,7 +919,9 @@ export default function App() {
 
           {currentView === 'ingredients' && (
             <IngredientsManager
-              ingredients={data.ingredients}
+              ingredients={visibleIngredients}
+              canAddShared={isAdmin(currentUser)}
+              canEdit={(ingredient) => canEditCatalogItem(currentUser, ingredient)}
               onAdd={handleAddIngredient}
               onEdit={handleEditIngredient}
               onDelete={handleDeleteIngredient}
@@ -632,7 +930,9 @@ export default function App() {
 
           {currentView === 'measurements' && (
             <MeasurementsManager
-              measurements={data.measurements}
+              measurements={visibleMeasurements}
+              canAddShared={isAdmin(currentUser)}
+              canEdit={(measurement) => canEditCatalogItem(currentUser, measurement)}
               onAdd={handleAddMeasurement}
               onEdit={handleEditMeasurement}
               onDelete={handleDeleteMeasurement}
@@ -644,15 +944,50 @@ export default function App() {
           {currentView === 'inventory' && (
             <InventoryManager
               inventory={userInventory}
-              ingredients={data.ingredients}
-              measurements={data.measurements}
+              ingredients={visibleIngredients}
+              measurements={visibleMeasurements}
               onAdd={handleAddInventoryItem}
               onEdit={handleEditInventoryItem}
               onDelete={handleDeleteInventoryItem}
             />
           )}
+
+          {currentView === 'backup' && (
+            <BackupManager
+              canBackUpAll={isAdmin(currentUser)}
+              onExport={handleExportBackup}
+              onRestore={handleRestoreBackup}
+            />
+          )}
+
+          {currentView === 'household' && (
+            <HouseholdManager
+              household={currentHousehold}
+              members={currentHousehold ? getHouseholdMembers(data, currentHousehold.id) : []}
+              currentUserId={currentUser.id}
+              onCreate={handleCreateHousehold}
+              onJoin={handleJoinHousehold}
+              onLeave={handleLeaveHousehold}
+            />
+          )}
+
+          {currentView === 'account' && (
+            <AccountSettings
+              username={currentUser.username}
+              onChangeUsername={handleChangeUsername}
+              onChangePassword={handleChangePassword}
+              onDeleteAccount={handleDeleteAccount}
+            />
+          )}
+
+          {currentView === 'account' && isAdmin(currentUser) && (
+            <div className="mt-6">
+              <UserRolesManager users={data.users} currentUserId={currentUser.id} onChangeRole={handleChangeRole} />
+            </div>
+          )}
         </main>
       </div>
+      <DataRepairDialog report={repairReport} onClose={() => setRepairReport(null)} />
       <Toaster />
     </div>
   );
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { AccountError } from '../lib/account';
+import { PasswordStrength } from './PasswordStrength';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { UserPen, KeyRound, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+
+/**
+ * @interface AccountSettingsProps
+ * @description Defines the signed-in user's name and the callbacks that change or delete the account.
+ * Each callback re-verifies the current password and rejects with an AccountError when the change is not allowed.
+ */
+interface AccountSettingsProps {
+  /** The signed-in user's current username. */
+  username: string;
+  /** Callback to rename the account. */
+  onChangeUsername: (newUsername: string, currentPassword: string) => Promise<void>;
+  /** Callback to set a new password; it must meet the password policy. */
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /**
+   * Callback to delete the account and everything it owns, logging the user out.
+   * With `exportFirst`, a personal backup is downloaded once the password is confirmed.
+   */
+  onDeleteAccount: (currentPassword: string, exportFirst: boolean) => Promise<void>;
+}
+
+/**
+ * @component
+ * @name AccountSettings
+ * @description Lets the signed-in user change their username or password and delete their account,
+ * optionally downloading their data first. Every change asks for the current password again.
+ * @param {AccountSettingsProps} props - The component properties.
+ * @returns {JSX.Element} The account settings UI.
+ */
+export function AccountSettings({
+  username,
+  onChangeUsername,
+  onChangePassword,
+  onDeleteAccount,
+}: AccountSettingsProps) {
+  // --- Username State ---
+  const [newUsername, setNewUsername] = useState('');
+  const [usernamePassword, setUsernamePassword] = useState('');
+
+  // --- Password State ---
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // --- Delete State ---
+  const [deletePassword, setDeletePassword] = useState('');
+  // Whether to download a personal backup before the account is deleted
+  const [exportFirst, setExportFirst] = useState(true);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // True while a password is being checked or hashed
+  const [submitting, setSubmitting] = useState(false);
+
+  /**
+   * @function runChange
+   * @description Runs an account change, reporting AccountErrors as toasts.
+   * @param {() => Promise<void>} change - The change to run.
+   * @returns {Promise<boolean>} True if the change succeeded.
+   */
+  const runChange = async (change: () => Promise<void>): Promise<boolean> => {
+    setSubmitting(true);
+    try {
+      await change();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof AccountError ? err.message : 'Something went wrong');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * @function handleChangeUsername
+   * @description Validates and submits the username form.
+   * @param {React.FormEvent} e - The form submission event.
+   * @returns {Promise<void>}
+   */
+  const handleChangeUsername = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUsername.trim() || !usernamePassword) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+    if (await runChange(() => onChangeUsername(newUsername.trim(), usernamePassword))) {
+      toast.success('Username changed');
+      setNewUsername('');
+      setUsernamePassword('');
+    }
+  };
+
+  /**
+   * @function handleChangePassword
+   * @description Validates and submits the password form.
+   * @param {React.FormEvent} e - The form submission event.
+   * @returns {Promise<void>}
+   */
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+    if (await runChange(() => onChangePassword(currentPassword, newPassword))) {
+      toast.success('Password changed');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  };
+
+  /**
+   * @function confirmDelete
+   * @description Deletes the account, downloading the user's data first if requested.
+   * @returns {Promise<void>}
+   */
+  const confirmDelete = async () => {
+    setShowDeleteConfirm(false);
+    if (await runChange(() => onDeleteAccount(deletePassword, exportFirst))) {
+      toast.success('Account deleted');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Account</h2>
+        <p className="text-muted-foreground">Signed in as {username}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPen className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+            Change Username
+          </CardTitle>
+          <CardDescription>Your recipes and inventory stay with your account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangeUsername} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">New Username</Label>
+              <Input
+                id="new-username"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                placeholder={username}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="username-password">Current Password</Label>
+              <Input
+                id="username-password"
+                type="password"
+                value={usernamePassword}
+                onChange={(e) => setUsernamePassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={submitting}>
+              Change Username
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+            Change Password
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+              <PasswordStrength password={newPassword} username={username} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={submitting}>
+              Change Password
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-destructive/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <Trash2 className="w-5 h-5" />
+            Delete Account
+          </CardTitle>
+          <CardDescription>
+            Permanently removes your account with all your recipes, inventory and cooking sessions
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-first"
+              checked={exportFirst}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setExportFirst(checked === true)}
+            />
+            <Label htmlFor="export-first">Download a backup of my data first</Label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delete-password">Current Password</Label>
+            <Input
+              id="delete-password"
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="destructive"
+            disabled={submitting || !deletePassword}
+            onClick={() => setShowDeleteConfirm(true)}
+          >
+            Delete Account
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Confirmation Dialog for Account Deletion */}
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. Your account, recipes, inventory and cooking sessions will be deleted
+              {exportFirst ? ' after your backup is downloaded.' : '.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { IDLE_TIMEOUT } from '../lib/auth';
+import { AccountError } from '../lib/account';
+import { LoginResult } from '../lib/loginThrottle';
+import { PasswordStrength } from './PasswordStrength';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
-import { ChefHat } from 'lucide-react';
+import { Alert, AlertDescription } from './ui/alert';
+import { ChefHat, Timer } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
 /**
@@ -15,15 +21,28 @@ interface AuthPageProps {
   /**
    * @param {string} username - The username provided for login.
    * @param {string} password - The password provided for login.
-   * @returns {boolean} True if login is successful, false otherwise.
+   * @param {boolean} rememberMe - Keep the login across browser restarts instead of ending it with the browser or after inactivity.
+   * @returns {Promise<LoginResult>} Resolves with the outcome, including when the next attempt is allowed after failures.
    */
-  onLogin: (username: string, password: string) => boolean;
+  onLogin: (username: string, password: string, rememberMe: boolean) => Promise<LoginResult>;
   /**
    * @param {string} username - The desired username for sign up.
    * @param {string} password - The desired password for sign up.
-   * @returns {boolean} True if the account is created successfully (username is unique), false otherwise.
+   * @returns {Promise<void>} Resolves once the account is created; rejects with an AccountError if the username
+   * is taken or the password breaks the password policy.
    */
-  onSignup: (username: string, password: string) => boolean;
+  onSignup: (username: string, password: string) => Promise<void>;
+}
+
+/**
+ * @function formatCountdown
+ * @description Formats a remaining wait as m:ss.
+ * @param {number} ms - Milliseconds left.
+ * @returns {string} The formatted countdown.
+ */
+function formatCountdown(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 }
 
 /**
@@ -40,32 +59,67 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
   // --- Login State ---
   const [loginUsername, setLoginUsername] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
+  const [rememberMe, setRememberMe] = useState(false);
+  // Set after failed attempts: the username may not try again before `retryAt`
+  const [block, setBlock] = useState<{ username: string; retryAt: number; locked: boolean } | null>(null);
+  // Clock for the countdown, ticking only while a block is shown
+  const [now, setNow] = useState(Date.now());
   
   // --- Signup State ---
   const [signupUsername, setSignupUsername] = useState('');
   const [signupPassword, setSignupPassword] = useState('');
   const [signupConfirm, setSignupConfirm] = useState('');
 
+  // True while a password is being hashed or checked, which takes a moment by design
+  const [submitting, setSubmitting] = useState(false);
+
+  // The block applies to the username it was reported for; it clears once the wait is over
+  const activeBlock = block && block.username === loginUsername && now < block.retryAt ? block : null;
+
+  useEffect(() => {
+    if (!block) return;
+    const interval = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time >= block.retryAt) setBlock(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [block]);
+
   /**
    * @function handleLogin
    * @description Handles the submission of the Login form.
    * Prevents default form submission, validates fields, and calls the parent's onLogin prop.
-   * Displays a success or error toast based on the result.
+   * Displays a success or error toast based on the result, and starts the countdown when further attempts must wait.
+   * An error from onLogin is shown as a toast and leaves the form usable.
    * @param {React.FormEvent} e - The form submission event.
-   * @returns {void}
+   * @returns {Promise<void>}
    */
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!loginUsername || !loginPassword) {
       toast.error('Please fill in all fields');
       return;
     }
-    const success = onLogin(loginUsername, loginPassword);
-    if (success) {
-      toast.success('Welcome back!');
-    } else {
-      toast.error('Invalid username or password');
-      // NOTE: For security, the error message does not distinguish between invalid username or password.
+    setSubmitting(true);
+    try {
+      const result = await onLogin(loginUsername, loginPassword, rememberMe);
+      if (result.status === 'success') {
+        toast.success('Welcome back!');
+        return;
+      }
+      if (result.status === 'invalid') {
+        toast.error('Invalid username or password');
+        // NOTE: For security, the error message does not distinguish between invalid username or password.
+      }
+      if (result.retryAt !== null) {
+        setNow(Date.now());
+        setBlock({ username: loginUsername, retryAt: result.retryAt, locked: result.locked });
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -75,9 +129,9 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
    * Prevents default form submission, validates fields, checks password confirmation, and calls the parent's onSignup prop.
    * On success, clears form fields and displays a toast.
    * @param {React.FormEvent} e - The form submission event.
-   * @returns {void}
+   * @returns {Promise<void>}
    */
-  const handleSignup = (e: React.FormEvent) => {
+  const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!signupUsername || !signupPassword || !signupConfirm) {
       toast.error('Please fill in all fields');
@@ -87,16 +141,18 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
       toast.error('Passwords do not match');
       return;
     }
-    const success = onSignup(signupUsername, signupPassword);
-    if (success) {
+    setSubmitting(true);
+    try {
+      await onSignup(signupUsername, signupPassword);
       toast.success('Account created! You can now log in.');
       // Reset state on successful signup for a clean form
       setSignupUsername('');
       setSignupPassword('');
       setSignupConfirm('');
-    } else {
-      toast.error('Username already exists');
-      // NOTE: Assuming onSignup returning false means the username is taken.
+    } catch (err) {
+      toast.error(err instanceof AccountError ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -146,8 +202,31 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
                       placeholder="Enter your password"
                     />
                   </div>
-                  <Button type="submit" className="w-full">
-                    Log In
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="remember-me"
+                      checked={rememberMe}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => setRememberMe(checked === true)}
+                    />
+                    <Label htmlFor="remember-me">Remember me</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Leave this off on shared devices: you will be logged out when the browser closes or after{' '}
+                    {IDLE_TIMEOUT / 60000} minutes without activity.
+                  </p>
+                  {activeBlock && (
+                    <Alert variant={activeBlock.locked ? 'destructive' : 'default'}>
+                      <Timer className="w-4 h-4" />
+                      <AlertDescription>
+                        {activeBlock.locked
+                          ? 'Too many failed attempts. This username is locked for '
+                          : 'Too many failed attempts. You can try again in '}
+                        {formatCountdown(activeBlock.retryAt - now)}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <Button type="submit" className="w-full" disabled={submitting || activeBlock !== null}>
+                    {submitting ? 'Logging In...' : 'Log In'}
                   </Button>
                 </form>
                 <div className="mt-4 p-3 bg-amber-50 rounded-md">
@@ -186,6 +265,7 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
                       onChange={(e) => setSignupPassword(e.target.value)}
                       placeholder="Choose a password"
                     />
+                    <PasswordStrength password={signupPassword} username={signupUsername} />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="signup-confirm">Confirm Password</Label>
@@ -197,8 +277,8 @@ export function AuthPage({ onLogin, onSignup }: AuthPageProps) {
                       placeholder="Confirm your password"
                     />
                   </div>
-                  <Button type="submit" className="w-full">
-                    Sign Up
+                  <Button type="submit" className="w-full" disabled={submitting}>
+                    {submitting ? 'Creating Account...' : 'Sign Up'}
                   </Button>
                 </form>
               </CardContent>
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { BackupFile, BackupScope, RestoreMode, BackupError, parseBackup } from '../lib/backup';
+import { MigrationReport } from '../lib/migrations';
+import { PermissionError } from '../lib/permissions';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Download, Upload, AlertCircle, FileJson } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+
+/**
+ * @interface BackupManagerProps
+ * @description Defines the callbacks used to export and restore AppData backups.
+ */
+interface BackupManagerProps {
+  /** Whether the user may export and restore full backups of everyone on the device (admins only). */
+  canBackUpAll: boolean;
+  /** Callback to build and download a backup of the given scope. */
+  onExport: (scope: BackupScope) => void;
+  /**
+   * @function onRestore
+   * @description Restores a parsed backup into the app's data.
+   * @param {BackupFile} backup - The validated and migrated backup.
+   * @param {RestoreMode} mode - Whether to replace or merge with existing data.
+   * @returns {void}
+   * @throws {BackupError|PermissionError} When the backup cannot be restored by this user.
+   */
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+}
+
+/**
+ * @component
+ * @name BackupManager
+ * @description Lets the user download a versioned JSON backup of their data (or everyone's)
+ * and restore a backup file, previewing its contents and choosing between replace and merge.
+ * Full backups, which hold every user's account, can only be made and restored by an admin.
+ * @param {BackupManagerProps} props - The component properties.
+ * @returns {JSX.Element} The backup and restore UI.
+ */
+export function BackupManager({ canBackUpAll, onExport, onRestore }: BackupManagerProps) {
+  // Scope selected for the next export
+  const [exportScope, setExportScope] = useState<BackupScope>('user');
+
+  // --- Restore State ---
+  const [fileName, setFileName] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [migration, setMigration] = useState<MigrationReport | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  // Records the schema had to repair or drop while reading the file
+  const [repairIssues, setRepairIssues] = useState<string[]>([]);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  // Controls the confirmation dialog shown before a restore
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  /**
+   * @function handleFileSelected
+   * @description Reads the chosen file and validates it as a backup, storing either the
+   * parsed backup for preview or a readable error.
+   * @param {React.ChangeEvent<HTMLInputElement>} e - The file input change event.
+   * @returns {Promise<void>}
+   */
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPendingBackup(null);
+    setMigration(null);
+    setParseError(null);
+    setRepairIssues([]);
+    setFileName(file?.name || '');
+    if (!file) return;
+
+    try {
+      const result = parseBackup(await file.text());
+      if (result.backup.scope === 'all' && !canBackUpAll) {
+        setParseError('This is a full backup of everyone on a device; only an admin can restore it');
+        return;
+      }
+      setPendingBackup(result.backup);
+      setMigration(result.migration);
+      setRepairIssues(result.issues);
+    } catch (err) {
+      setParseError(err instanceof BackupError ? err.message : 'The file could not be read');
+    }
+  };
+
+  /**
+   * @function confirmRestore
+   * @description Restores the pending backup; the app reports what changed.
+   * @returns {void}
+   */
+  const confirmRestore = () => {
+    if (!pendingBackup) return;
+    setShowConfirm(false);
+    try {
+      onRestore(pendingBackup, restoreMode);
+      setPendingBackup(null);
+      setMigration(null);
+      setRepairIssues([]);
+      setFileName('');
+    } catch (err) {
+      toast.error(err instanceof BackupError || err instanceof PermissionError ? err.message : 'Restore failed');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Backup & Restore</h2>
+        <p className="text-muted-foreground">Move your data between browsers and machines</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+          <CardDescription>Download a backup file you can restore anywhere</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RadioGroup value={exportScope} onValueChange={(value: string) => setExportScope(value as BackupScope)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="user" id="scope-user" />
+              <Label htmlFor="scope-user">My recipes, inventory and cooking sessions</Label>
+            </div>
+            {canBackUpAll && (
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="scope-all" />
+                <Label htmlFor="scope-all">Everything, including all users on this device</Label>
+              </div>
+            )}
+          </RadioGroup>
+          <Button onClick={() => onExport(canBackUpAll ? exportScope : 'user')}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Backup
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Restore</CardTitle>
+          <CardDescription>Load a Cucina backup file (.json)</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input type="file" accept=".json,application/json" onChange={handleFileSelected} />
+
+          {parseError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Cannot restore {fileName}</AlertTitle>
+              <AlertDescription>{parseError}</AlertDescription>
+            </Alert>
+          )}
+
+          {pendingBackup && (
+            <>
+              {/* Preview of the backup contents */}
+              <div className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <FileJson className="w-4 h-4" style={{ color: '#6b8e6f' }} />
+                  <span className="flex-1 truncate">{fileName}</span>
+                  <Badge variant="outline">
+                    {pendingBackup.scope === 'user' ? `Personal (${pendingBackup.exportedBy})` : 'Full'}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Exported {pendingBackup.exportedAt ? new Date(pendingBackup.exportedAt).toLocaleString() : 'at an unknown time'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{pendingBackup.data.recipes.length} recipes</Badge>
+                  <Badge variant="secondary">{pendingBackup.data.inventory.length} inventory items</Badge>
+                  <Badge variant="secondary">{pendingBackup.data.cookingSessions.length} cooking sessions</Badge>
+                  {pendingBackup.scope === 'all' && (
+                    <Badge variant="secondary">{pendingBackup.data.users.length} users</Badge>
+                  )}
+                </div>
+                {migration && (
+                  <p className="text-sm text-muted-foreground">
+                    Upgraded from data version {migration.fromVersion} to {migration.toVersion}.
+                  </p>
+                )}
+              </div>
+
+              {repairIssues.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Some records needed repair</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc list-inside max-h-32 overflow-y-auto">
+                      {repairIssues.map((issue, i) => (
+                        <li key={i}>{issue}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <RadioGroup value={restoreMode} onValueChange={(value: string) => setRestoreMode(value as RestoreMode)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="mode-merge" className="mt-1" />
+                  <Label htmlFor="mode-merge" className="flex-col items-start gap-1">
+                    <span>Merge</span>
+                    <span className="text-sm text-muted-foreground">
+                      Keep existing data; add new records and update ones that are in the backup.
+                      Ingredients and measurements with the same name are reused.
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="mode-replace" className="mt-1" />
+                  <Label htmlFor="mode-replace" className="flex-col items-start gap-1">
+                    <span>Replace</span>
+                    <span className="text-sm text-muted-foreground">
+                      {pendingBackup.scope === 'user'
+                        ? 'Remove your current recipes, inventory and sessions, then restore the backup.'
+                        : 'Discard all data on this device and use the backup instead.'}
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <Button onClick={() => setShowConfirm(true)}>
+                <Upload className="w-4 h-4 mr-2" />
+                Restore Backup
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirmation Dialog for Restore */}
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{restoreMode === 'replace' ? 'Replace Data?' : 'Merge Backup?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreMode === 'replace'
+                ? 'Existing data will be replaced by the backup. You can undo this right after restoring.'
+                : 'Records from the backup will be added to your data, updating any that already exist.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
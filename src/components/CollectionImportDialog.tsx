@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { Measurement } from '../types';
+import { ParsedRecipe, RecipeImportError } from '../lib/recipeImport';
+import { COLLECTION_FILE_TYPES, CollectionImportSummary, readRecipeFile } from '../lib/recipeCollections';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { AlertCircle, CheckCircle2, Edit, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+/** A picked file and what could be read from it. */
+interface ReadFile {
+  fileName: string;
+  recipes: ParsedRecipe[];
+  // Recipes in it that could not be read
+  skipped: CollectionImportSummary['skipped'];
+  error?: string;
+}
+
+/**
+ * @interface CollectionImportDialogProps
+ * @description Props for the dialog that imports recipe collections exported from other apps.
+ */
+interface CollectionImportDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Units the user can see, so ingredient lines are read with their custom units too. */
+  measurements: Measurement[];
+  /** Callback that adds the recipes read and reports what was imported and skipped. */
+  onImport: (recipes: ParsedRecipe[]) => Promise<CollectionImportSummary>;
+  /** Callback to open an imported recipe in the form. */
+  onEditRecipe: (recipeId: string) => void;
+  /** Callback to close the dialog. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name CollectionImportDialog
+ * @description Reads Cooklang (.cook), MealMaster (.mmf) and Paprika (.paprikarecipes) files and
+ * imports every recipe in them at once. Files that cannot be read are listed with the reason;
+ * damaged recipes inside an archive are counted with their file and skipped. After the import, a
+ * summary lists the recipes skipped and those with ingredient lines to check, each of which can be
+ * opened for editing.
+ * @param {CollectionImportDialogProps} props - The component properties.
+ * @returns {JSX.Element} The import dialog.
+ */
+export function CollectionImportDialog({ open, measurements, onImport, onEditRecipe, onClose }: CollectionImportDialogProps) {
+  const [files, setFiles] = useState<ReadFile[]>([]);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Set once the import has run
+  const [summary, setSummary] = useState<CollectionImportSummary | null>(null);
+
+  /**
+   * @effect Reset on Open
+   * @description Starts each import with no files chosen.
+   */
+  useEffect(() => {
+    if (!open) return;
+    setFiles([]);
+    setSummary(null);
+  }, [open]);
+
+  /**
+   * @function readFiles
+   * @description Reads the recipes in each picked file, noting the files that cannot be read.
+   * @param {File[]} picked - The picked files.
+   * @returns {Promise<void>}
+   */
+  const readFiles = async (picked: File[]) => {
+    setReading(true);
+    const read: ReadFile[] = [];
+    for (const file of picked) {
+      try {
+        read.push({ fileName: file.name, ...(await readRecipeFile(file, measurements)) });
+      } catch (err) {
+        read.push({
+          fileName: file.name,
+          recipes: [],
+          skipped: [],
+          error: err instanceof RecipeImportError ? err.message : 'The file could not be read',
+        });
+      }
+    }
+    setFiles(read);
+    setReading(false);
+  };
+
+  const recipes = files.flatMap((file) => file.recipes);
+  const unread = files.flatMap((file) => file.skipped);
+  const unreadable = files.filter((file) => file.error);
+  const needsReview = summary?.imported.filter((recipe) => recipe.issues.length > 0) ?? [];
+
+  /**
+   * @function importRecipes
+   * @description Adds the recipes read and shows the summary in place of the file list, with the
+   * recipes that could not be read among the skipped.
+   * @returns {Promise<void>}
+   */
+  const importRecipes = async () => {
+    setImporting(true);
+    try {
+      const result = await onImport(recipes);
+      setSummary({ ...result, skipped: [...unread, ...result.skipped] });
+      if (result.imported.length > 0) {
+        toast.success(
+          result.imported.length === 1 ? 'Imported 1 recipe' : `Imported ${result.imported.length} recipes`
+        );
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen: boolean) => !isOpen && !importing && onClose()}>
+      <AlertDialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{summary ? 'Import Finished' : 'Import a Recipe Collection'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {summary
+              ? `${summary.imported.length} imported, ${summary.skipped.length} skipped, ${needsReview.length} to check.`
+              : 'Choose Cooklang (.cook), MealMaster (.mmf) or Paprika (.paprikarecipes) files. Every recipe in them is added; recipes with the name of one you already have, or without ingredients or steps, are skipped.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {!summary && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="collection-files">Files</Label>
+              <Input
+                id="collection-files"
+                type="file"
+                multiple
+                accept={COLLECTION_FILE_TYPES}
+                disabled={reading || importing}
+                onChange={(e) => {
+                  const picked = Array.from(e.target.files ?? []);
+                  e.target.value = '';
+                  if (picked.length > 0) readFiles(picked);
+                }}
+              />
+            </div>
+
+            {reading && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading files…
+              </p>
+            )}
+
+            {files.length > 0 && !reading && (
+              <ul className="space-y-1 text-sm">
+                {files
+                  .filter((file) => !file.error)
+                  .map((file) => (
+                    <li key={file.fileName} className="flex justify-between gap-4">
+                      <span className="truncate">{file.fileName}</span>
+                      <span className="text-muted-foreground shrink-0">
+                        {file.recipes.length === 1 ? '1 recipe' : `${file.recipes.length} recipes`}
+                        {file.skipped.length > 0 && `, ${file.skipped.length} damaged`}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+
+            {unreadable.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>
+                  {unreadable.length === 1 ? '1 file could not be read' : `${unreadable.length} files could not be read`}
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {unreadable.map((file) => (
+                      <li key={file.fileName}>{file.error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {summary && (
+          <div className="space-y-4 text-sm">
+            {summary.imported.length > 0 && needsReview.length === 0 && (
+              <p className="flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                Every imported recipe matched your ingredients and units.
+              </p>
+            )}
+
+            {needsReview.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Needs Review</h4>
+                <ul className="space-y-3">
+                  {needsReview.map((recipe) => (
+                    <li key={recipe.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                      <div className="min-w-0">
+                        <p className="font-medium">{recipe.name}</p>
+                        <ul className="list-disc pl-4 text-muted-foreground">
+                          {recipe.issues.map((issue, index) => (
+                            <li key={index}>{issue}</li>
+                          ))}
+                        </ul>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => onEditRecipe(recipe.id)}>
+                        <Edit className="w-4 h-4 mr-2" />
+                        Open
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {summary.skipped.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Skipped</h4>
+                <ul className="space-y-1">
+                  {summary.skipped.map((recipe, index) => (
+                    <li key={index} className="flex justify-between gap-4">
+                      <span className="truncate">{recipe.name || 'Untitled recipe'}</span>
+                      <span className="text-muted-foreground shrink-0">{recipe.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          {summary ? (
+            <AlertDialogAction onClick={onClose}>Done</AlertDialogAction>
+          ) : (
+            <>
+              <AlertDialogCancel disabled={importing}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={recipes.length === 0 || reading || importing}
+                onClick={(e: React.MouseEvent) => {
+                  // Stay open to show the summary
+                  e.preventDefault();
+                  importRecipes();
+                }}
+              >
+                {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {recipes.length === 1 ? 'Import 1 Recipe' : `Import ${recipes.length} Recipes`}
+              </AlertDialogAction>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Recipe, Ingredient, Measurement, CookingSession, InventoryItem } from '../types';
+import { Recipe, RecipeIngredient, Ingredient, Measurement, CookingSession, InventoryItem } from '../types';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Checkbox } from './ui/checkbox';
@@ -22,7 +22,10 @@ import {
 import { toast } from 'sonner@2.0.3';
 // NOTE: hasEnoughInventory handles complex unit conversions (e.g., cups to grams) 
 // to accurately compare recipe needs vs. inventory stock.
-import { hasEnoughInventory } from '../lib/conversions';
+import { LineStock, planRecipeLines } from '../lib/conversions';
+import { describeIngredientLine, formatLineIngredients } from '../lib/ingredientLines';
+import { groupIngredients, hasSections } from '../lib/ingredientSections';
+import { isSubRecipeLine } from '../lib/subRecipes';
 
 /**
  * @interface CookModeProps
@@ -37,6 +40,8 @@ interface CookModeProps {
   measurements: Measurement[];
   /** The user's current inventory stock. */
   inventory: InventoryItem[];
+  /** The user's recipes, for expanding sub-recipe lines. */
+  recipes: Recipe[];
   /** The current state of the cooking session, or null if starting new. Used for resuming. */
   session: CookingSession | null;
   /** Callback to persist updated session data (progress, serving size) back to Firestore. */
@@ -49,12 +54,25 @@ interface CookModeProps {
   onBack: () => void;
 }
 
+/**
+ * @interface InventoryDeduction
+ * @description One row of the completion dialog: an ingredient to be drawn from the inventory.
+ */
+interface InventoryDeduction {
+  name: string;
+  amount: string;
+  inInventory: boolean;
+  optional: boolean;
+  available: string;
+}
+
 /**
  * @component
  * @name CookMode
  * @description Provides an interactive, session-tracking interface for cooking a recipe.
  * Key features include: serving size scaling, ingredient/step checklist, progress tracking,
- * and pre-flight inventory checks using unit conversions.
+ * and pre-flight inventory checks using unit conversions. Sub-recipe lines are expanded into the
+ * sub-recipe's own ingredients, scaled, unless a prepared batch is in the pantry.
  * @param {CookModeProps} props - The component properties.
  * @returns {JSX.Element} The Cook Mode UI.
  */
@@ -63,6 +81,7 @@ export function CookMode({
   ingredients,
   measurements,
   inventory,
+  recipes,
   session,
   onUpdateSession,
   onComplete,
@@ -100,38 +119,96 @@ export function CookMode({
     return measurements.find((m) => m.id === id)?.name || '';
   };
 
+  /**
+   * @function getRecipeName
+   * @description Finds the display name for a sub-recipe's recipe ID.
+   * @param {string} id - The unique ID of the recipe.
+   * @returns {string} The recipe's name, or 'Unknown recipe'.
+   */
+  const getRecipeName = (id: string) => {
+    return recipes.find((r) => r.id === id)?.name || 'Unknown recipe';
+  };
+
+  /**
+   * @function getLineUnit
+   * @description Names the unit of a line; a sub-recipe line without a unit is measured in servings.
+   * @param {RecipeIngredient} line - The recipe line.
+   * @returns {string} The unit name.
+   */
+  const getLineUnit = (line: RecipeIngredient) => {
+    return isSubRecipeLine(line) && !line.measurementId ? 'servings' : getMeasurementName(line.measurementId);
+  };
+
+  /**
+   * @function getLineStock
+   * @description Checks each recipe line against the inventory in order, setting aside what earlier lines
+   * use, so an ingredient needed in several sections (butter for the dough and for the glaze) is only
+   * counted once. A line is covered by its own ingredient or any alternate in stock, and a sub-recipe
+   * line by a prepared batch or else by the sub-recipe's own lines.
+   * Handles automatic unit conversion and scaling based on the current `servingSize`.
+   * @returns {LineStock[]} Stock per line, by index.
+   */
+  const getLineStock = () => {
+    return planRecipeLines(
+      recipe.ingredients,
+      scalingFactor,
+      inventory,
+      measurements,
+      () => true,
+      recipes,
+      recipe.id
+    ).lines;
+  };
+
+  /**
+   * @function collectMissing
+   * @description Adds what `lines` are short of to `missing`, looking inside sub-recipes that are made
+   * from scratch. Optional lines are never reported missing.
+   * @param {RecipeIngredient[]} lines - The lines checked.
+   * @param {LineStock[]} stock - Their stock, by index.
+   * @param {string[]} missing - Descriptions of what is missing, added to in place.
+   * @param {string} [forRecipe] - Name of the sub-recipe the lines belong to, if any.
+   * @returns {void}
+   */
+  const collectMissing = (lines: RecipeIngredient[], stock: LineStock[], missing: string[], forRecipe?: string) => {
+    const suffix = forRecipe ? ` for ${forRecipe}` : '';
+    lines.forEach((ing, index) => {
+      const { requiredAmount, hasEnough, available, subLines } = stock[index];
+      if (hasEnough || ing.optional) return;
+
+      if (isSubRecipeLine(ing)) {
+        const subRecipe = recipes.find((r) => r.id === ing.recipeId);
+        if (subRecipe && subLines) {
+          collectMissing(subRecipe.ingredients, subLines, missing, subRecipe.name);
+        } else {
+          // The recipe is gone, or its amount is in a unit its yield cannot be converted to
+          missing.push(`${getRecipeName(ing.recipeId)}${suffix} (cannot work out how much to make)`);
+        }
+        return;
+      }
+
+      // If we don't have enough (after conversions), record the missing details
+      missing.push(
+        `${formatLineIngredients(ing, getIngredientName)}${suffix} (need ${requiredAmount.toFixed(1)} ${getMeasurementName(ing.measurementId)}${available > 0 ? `, have ${available.toFixed(1)}` : ''})`
+      );
+    });
+  };
+
   /**
    * @function checkInventory
-   * @description Performs a comprehensive check against the user's inventory for all required recipe ingredients.
-   * Crucially handles automatic unit conversion and scaling based on the current `servingSize`.
+   * @description Performs a comprehensive check against the user's inventory for all required recipe ingredients,
+   * including those of sub-recipes that have to be made.
    * @returns {string[]} An array of strings describing missing ingredients and the required shortfall.
    */
   const checkInventory = () => {
     const missing: string[] = [];
-    recipe.ingredients.forEach((ing) => {
-      // Calculate scaled quantity required for the current serving size
-      const requiredAmount = ing.quantity * scalingFactor;
-      
-      // Use the utility function which encapsulates the complex conversion logic
-      const { hasEnough, available } = hasEnoughInventory(
-        ing.ingredientId,
-        ing.measurementId,
-        requiredAmount,
-        inventory,
-        measurements
-      );
-      
-      // If we don't have enough (after conversions), record the missing details
-      if (!hasEnough) {
-        const shortfall = requiredAmount - available;
-        missing.push(
-          `${getIngredientName(ing.ingredientId)} (need ${requiredAmount.toFixed(1)} ${getMeasurementName(ing.measurementId)}${available > 0 ? `, have ${available.toFixed(1)}` : ''})`
-        );
-      }
-    });
+    collectMissing(recipe.ingredients, getLineStock(), missing);
     return missing;
   };
 
+  // Stock of each line for the checklist, which says when an alternate is being used
+  const lineStock = getLineStock();
+
   // Run the inventory check once on render to display the warning
   const missingIngredients = checkInventory();
 
@@ -166,7 +243,11 @@ export function CookMode({
   const stepProgress = (stepsChecked.length / recipe.instructions.length) * 100;
   const totalProgress = ((ingredientsChecked.length + stepsChecked.length) /
     (recipe.ingredients.length + recipe.instructions.length)) * 100;
-  const isComplete = totalProgress === 100;
+  // Optional lines may be left unchecked
+  const requiredIngredientsChecked = recipe.ingredients.every(
+    (ing, index) => ing.optional || ingredientsChecked.includes(index)
+  );
+  const isComplete = requiredIngredientsChecked && stepsChecked.length === recipe.instructions.length;
 
   /**
    * @effect Persist Session State
@@ -193,8 +274,8 @@ export function CookMode({
    * @returns {void}
    */
   const handleComplete = () => {
-    // Check if all ingredients are checked
-    if (ingredientsChecked.length < recipe.ingredients.length) {
+    // Check if all required ingredients are checked
+    if (!requiredIngredientsChecked) {
       toast.error('Please check off all ingredients before completing!');
       return;
     }
@@ -219,45 +300,94 @@ export function CookMode({
   const confirmComplete = () => {
     setShowCompleteDialog(false);
     onComplete();
-    toast.success('Cooking session completed! 🎉\nIngredients deducted from inventory');
   };
 
   /**
-   * @function getInventoryDeductions
-   * @description Calculates the detailed list of ingredients, scaled amounts, and inventory status
-   * to be displayed in the confirmation dialog. This runs the same core logic as `checkInventory`
-   * but formats the results for display.
-   * @returns {Array<Object>} Details for each ingredient's deduction status.
+   * @function collectDeductions
+   * @description Lists the deduction status of each of `lines`, with the lines of sub-recipes that are
+   * made from scratch in their place.
+   * @param {RecipeIngredient[]} lines - The lines listed.
+   * @param {LineStock[]} stock - Their stock, by index.
+   * @param {InventoryDeduction[]} deductions - The list, added to in place.
+   * @param {string} [forRecipe] - Name of the sub-recipe the lines belong to, if any.
+   * @returns {void}
    */
-  const getInventoryDeductions = () => {
-    const deductions: Array<{ name: string; amount: string; inInventory: boolean; available: string }> = [];
-    
-    recipe.ingredients.forEach((ing) => {
-      const requiredAmount = ing.quantity * scalingFactor;
-      
-      // Re-run inventory check logic for precise deduction display
-      const { hasEnough, available } = hasEnoughInventory(
-        ing.ingredientId,
-        ing.measurementId,
-        requiredAmount,
-        inventory,
-        measurements
-      );
-      
-      const ingredientName = getIngredientName(ing.ingredientId);
-      const measurementName = getMeasurementName(ing.measurementId);
-      
+  const collectDeductions = (
+    lines: RecipeIngredient[],
+    stock: LineStock[],
+    deductions: InventoryDeduction[],
+    forRecipe?: string
+  ) => {
+    lines.forEach((ing, index) => {
+      const { ingredientId, measurementId, requiredAmount, hasEnough, available, subLines } = stock[index];
+      const subRecipe = isSubRecipeLine(ing) ? recipes.find((r) => r.id === ing.recipeId) : undefined;
+      if (subRecipe && subLines) {
+        collectDeductions(subRecipe.ingredients, subLines, deductions, subRecipe.name);
+        return;
+      }
+
+      // The ingredient actually drawn on, which may be an alternate or a prepared batch;
+      // a sub-recipe whose amount cannot be worked out draws on nothing
+      const ingredientName = ingredientId ? getIngredientName(ingredientId) : getRecipeName(ing.recipeId!);
+      const measurementName = ingredientId ? getMeasurementName(measurementId) : getLineUnit(ing);
+
+      const availability = available > 0 ? `${available.toFixed(2)} ${measurementName} available` : 'Not in inventory';
       deductions.push({
-        name: ingredientName,
+        name: forRecipe ? `${ingredientName} (for ${forRecipe})` : ingredientName,
         amount: `${requiredAmount.toFixed(2)} ${measurementName}`,
         inInventory: hasEnough,
-        available: available > 0 ? `${available.toFixed(2)} ${measurementName} available` : 'Not in inventory',
+        optional: !!ing.optional,
+        available: availability,
       });
     });
-    
+  };
+
+  /**
+   * @function getInventoryDeductions
+   * @description Calculates the detailed list of ingredients, scaled amounts, and inventory status
+   * to be displayed in the confirmation dialog. This runs the same core logic as `checkInventory`
+   * but formats the results for display.
+   * @returns {InventoryDeduction[]} Details for each ingredient's deduction status.
+   */
+  const getInventoryDeductions = () => {
+    const deductions: InventoryDeduction[] = [];
+    // Re-run inventory check logic for precise deduction display
+    collectDeductions(recipe.ingredients, getLineStock(), deductions);
     return deductions;
   };
 
+  /**
+   * @function renderSubRecipe
+   * @description Renders how a sub-recipe line is covered: a prepared batch from the pantry, or the
+   * sub-recipe's own lines scaled to the batches needed, nested as deep as sub-recipes go.
+   * @param {RecipeIngredient} ing - The sub-recipe line.
+   * @param {LineStock} stock - Its stock.
+   * @returns {JSX.Element | null} The breakdown, or null when there is nothing to show.
+   */
+  const renderSubRecipe = (ing: RecipeIngredient, stock: LineStock): JSX.Element | null => {
+    const subRecipe = recipes.find((r) => r.id === ing.recipeId);
+    if (!subRecipe || !stock.batches) return null;
+    if (!stock.subLines) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Using prepared {getIngredientName(stock.ingredientId)} from the pantry
+        </p>
+      );
+    }
+    return (
+      <ul className="ml-4 space-y-1 border-l pl-3 text-sm text-muted-foreground">
+        {subRecipe.ingredients.map((sub, index) => (
+          <li key={index}>
+            {stock.subLines![index].requiredAmount.toFixed(2)} {getLineUnit(sub)}{' '}
+            {isSubRecipeLine(sub) ? getRecipeName(sub.recipeId) : describeIngredientLine(sub, getIngredientName)}
+            {sub.optional && ' (optional)'}
+            {isSubRecipeLine(sub) && renderSubRecipe(sub, stock.subLines![index])}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   /**
    * @function handleCancel
    * @description Calls the parent `onCancel` handler to terminate the session without deduction.
@@ -265,7 +395,6 @@ export function CookMode({
    */
   const handleCancel = () => {
     onCancel();
-    toast('Cooking session cancelled');
   };
 
   return (
@@ -369,28 +498,57 @@ export function CookMode({
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-3">
-              {recipe.ingredients.map((ing, index) => {
-                // Display the scaled quantity
-                const scaledQuantity = (ing.quantity * scalingFactor).toFixed(2);
-                const isChecked = ingredientsChecked.includes(index);
-                return (
-                  <div
-                    key={index}
-                    className="flex items-center gap-3 p-2 rounded hover:bg-accent transition-colors cursor-pointer"
-                    onClick={() => toggleIngredient(index)}
-                  >
-                    <Checkbox
-                      checked={isChecked}
-                      onCheckedChange={() => toggleIngredient(index)}
-                    />
-                    <span className={isChecked ? 'line-through text-muted-foreground' : ''}>
-                      {scaledQuantity} {getMeasurementName(ing.measurementId)}{' '}
-                      {getIngredientName(ing.ingredientId)}
-                    </span>
-                  </div>
-                );
-              })}
+            <div className="space-y-4">
+              {groupIngredients(recipe.ingredients).map((group) => (
+                <div key={group.section ?? ''} className="space-y-3">
+                  {hasSections(recipe.ingredients) && (
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {group.section ?? 'Ingredients'}
+                      <span className="ml-2">
+                        ({group.lines.filter(({ index }) => ingredientsChecked.includes(index)).length}/{group.lines.length})
+                      </span>
+                    </p>
+                  )}
+                  {group.lines.map(({ ingredient: ing, index }) => {
+                    // Display the scaled quantity
+                    const scaledQuantity = (ing.quantity * scalingFactor).toFixed(2);
+                    const isChecked = ingredientsChecked.includes(index);
+                    return (
+                      <div
+                        key={index}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-accent transition-colors cursor-pointer"
+                        onClick={() => toggleIngredient(index)}
+                      >
+                        <Checkbox
+                          checked={isChecked}
+                          onCheckedChange={() => toggleIngredient(index)}
+                        />
+                        {isSubRecipeLine(ing) ? (
+                          <div className="space-y-1">
+                            <span className={isChecked ? 'line-through text-muted-foreground' : ''}>
+                              {scaledQuantity} {getLineUnit(ing)} {getRecipeName(ing.recipeId)}
+                              {ing.note && `, ${ing.note}`}
+                            </span>
+                            {renderSubRecipe(ing, lineStock[index])}
+                          </div>
+                        ) : (
+                          <span className={isChecked ? 'line-through text-muted-foreground' : ''}>
+                            {scaledQuantity} {getMeasurementName(ing.measurementId)}{' '}
+                            {describeIngredientLine(ing, getIngredientName)}
+                            {lineStock[index].ingredientId !== ing.ingredientId && (
+                              <span className="text-sm text-muted-foreground">
+                                {' '}
+                                (using {getIngredientName(lineStock[index].ingredientId)})
+                              </span>
+                            )}
+                          </span>
+                        )}
+                        {ing.optional && <Badge variant="outline">optional</Badge>}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
             </div>
             <div className="mt-4">
               <Progress value={ingredientProgress} />
@@ -467,6 +625,8 @@ export function CookMode({
                       </div>
                       {item.inInventory ? (
                         <Badge variant="secondary" className="text-xs flex-shrink-0">In stock</Badge>
+                      ) : item.optional ? (
+                        <Badge variant="outline" className="text-xs flex-shrink-0">Skipped</Badge>
                       ) : (
                         <Badge variant="outline" className="text-xs flex-shrink-0">Insufficient</Badge>
                       )}
@@ -1,4 +1,5 @@
 import { Recipe, Ingredient, Measurement } from '../types';
+import { RecipePhotoImage } from './RecipePhotoImage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { ChefHat, Eye, Plus, TrendingUp } from 'lucide-react';
@@ -122,6 +123,14 @@ export function Dashboard({
                     className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent cursor-pointer transition-colors"
                     onClick={() => onViewRecipe(recipe.id)}
                   >
+                    {recipe.photos[0] && (
+                      <RecipePhotoImage
+                        photo={recipe.photos[0]}
+                        size="thumb"
+                        alt={recipe.name}
+                        className="w-12 h-12 mr-3 rounded-md flex-shrink-0"
+                      />
+                    )}
                     <div className="flex-1 min-w-0">
                       <p className="truncate">{recipe.name}</p>
                       <p className="text-sm text-muted-foreground">
@@ -161,6 +170,14 @@ export function Dashboard({
                     className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent cursor-pointer transition-colors"
                     onClick={() => onViewRecipe(recipe.id)}
                   >
+                    {recipe.photos[0] && (
+                      <RecipePhotoImage
+                        photo={recipe.photos[0]}
+                        size="thumb"
+                        alt={recipe.name}
+                        className="w-12 h-12 mr-3 rounded-md flex-shrink-0"
+                      />
+                    )}
                     <div className="flex-1 min-w-0">
                       <p className="truncate">{recipe.name}</p>
                       <p className="text-sm text-muted-foreground">
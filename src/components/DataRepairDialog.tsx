@@ -0,0 +1,63 @@
+import { RepairReport } from '../lib/storage';
+import { AlertTriangle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+/**
+ * @interface DataRepairDialogProps
+ * @description Props for the dialog that reports repairs made to stored data on startup.
+ */
+interface DataRepairDialogProps {
+  /** The repair report from loading, or null when nothing needed fixing (dialog hidden). */
+  report: RepairReport | null;
+  /** Callback to dismiss the dialog. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name DataRepairDialog
+ * @description Tells the user that their saved data was damaged, lists each repair,
+ * and names the storage key where the untouched original was kept.
+ * @param {DataRepairDialogProps} props - The component properties.
+ * @returns {JSX.Element} The repair report dialog.
+ */
+export function DataRepairDialog({ report, onClose }: DataRepairDialogProps) {
+  return (
+    <AlertDialog open={report !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" style={{ color: '#d4a574' }} />
+            Saved Data Was Repaired
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-4">
+              <p>Some of your saved data was damaged. Cucina fixed what it could:</p>
+              <ul className="border rounded-lg p-4 space-y-1 max-h-60 overflow-y-auto bg-accent/30 text-sm list-disc list-inside">
+                {report?.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+              {report?.quarantineKey && (
+                <p className="text-sm text-muted-foreground">
+                  The original data was kept in browser storage under <code>{report.quarantineKey}</code>.
+                </p>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogAction onClick={onClose}>OK</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Household, User } from '../types';
+import { HouseholdError } from '../lib/households';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Users, UserPlus, Home, Copy, LogOut } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+
+/**
+ * @interface HouseholdManagerProps
+ * @description Defines the signed-in user's household, if any, and the callbacks that create, join or leave one.
+ * `onCreate` and `onJoin` throw a HouseholdError when the request is not allowed.
+ */
+interface HouseholdManagerProps {
+  /** The household the user belongs to, or undefined when they cook on their own. */
+  household?: Household;
+  /** Every member of `household`, including the signed-in user. */
+  members: User[];
+  /** The signed-in user's ID, to mark them in the member list. */
+  currentUserId: string;
+  /** Callback to create a household and move the user's recipes and inventory into it. */
+  onCreate: (name: string) => void;
+  /** Callback to join the household with the given invite code. */
+  onJoin: (inviteCode: string) => void;
+  /** Callback to leave the current household. */
+  onLeave: () => void;
+}
+
+/**
+ * @component
+ * @name HouseholdManager
+ * @description Lets a user start a household or join one with an invite code, so its members share
+ * recipes and one pantry. Members see the invite code and who else is in the household, and can leave it.
+ * @param {HouseholdManagerProps} props - The component properties.
+ * @returns {JSX.Element} The household management UI.
+ */
+export function HouseholdManager({
+  household,
+  members,
+  currentUserId,
+  onCreate,
+  onJoin,
+  onLeave,
+}: HouseholdManagerProps) {
+  // --- Form State ---
+  const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
+
+  /**
+   * @function runChange
+   * @description Runs a household change, reporting HouseholdErrors as toasts.
+   * @param {() => void} change - The change to run.
+   * @returns {boolean} True if the change succeeded.
+   */
+  const runChange = (change: () => void): boolean => {
+    try {
+      change();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof HouseholdError ? err.message : 'Something went wrong');
+      return false;
+    }
+  };
+
+  /**
+   * @function handleCreate
+   * @description Validates and submits the create form.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please enter a household name');
+      return;
+    }
+    if (runChange(() => onCreate(name.trim()))) {
+      setName('');
+    }
+  };
+
+  /**
+   * @function handleJoin
+   * @description Validates and submits the join form.
+   * @param {React.FormEvent} e - The form submission event.
+   */
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteCode.trim()) {
+      toast.error('Please enter an invite code');
+      return;
+    }
+    if (runChange(() => onJoin(inviteCode))) {
+      setInviteCode('');
+    }
+  };
+
+  /**
+   * @function copyInviteCode
+   * @description Copies the household's invite code to the clipboard.
+   * @returns {Promise<void>}
+   */
+  const copyInviteCode = async () => {
+    try {
+      await navigator.clipboard.writeText(household!.inviteCode);
+      toast.success('Invite code copied');
+    } catch {
+      toast.error('Could not copy the invite code');
+    }
+  };
+
+  // The last member leaving takes the shared recipes and pantry back with them
+  const isLastMember = members.length <= 1;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2>Household</h2>
+        <p className="text-muted-foreground">Share recipes and one pantry with the people you cook with</p>
+      </div>
+
+      {household ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Home className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+              {household.name}
+            </CardTitle>
+            <CardDescription>Every member sees and edits the same recipes and inventory</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Invite Code</Label>
+              <div className="flex items-center gap-2">
+                <code className="px-3 py-2 rounded-md bg-muted tracking-widest">{household.inviteCode}</code>
+                <Button variant="outline" size="sm" onClick={copyInviteCode}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">Share this code with anyone you want to join</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Members ({members.length})</Label>
+              <ul className="space-y-1">
+                {members.map((member) => (
+                  <li key={member.id} className="flex items-center gap-2">
+                    {member.username}
+                    {member.id === currentUserId && <Badge variant="secondary">You</Badge>}
+                    {member.id === household.createdBy && <Badge variant="outline">Creator</Badge>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <Button variant="outline" onClick={() => setShowLeaveConfirm(true)}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave Household
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+                Create a Household
+              </CardTitle>
+              <CardDescription>Your recipes and inventory move into the new household</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="household-name">Household Name</Label>
+                  <Input
+                    id="household-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g., The Rossi Kitchen"
+                  />
+                </div>
+                <Button type="submit">Create Household</Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+                Join a Household
+              </CardTitle>
+              <CardDescription>
+                Your recipes join the household's and your inventory is added to its pantry
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleJoin} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-code">Invite Code</Label>
+                  <Input
+                    id="invite-code"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                    placeholder="e.g., K7QM2X"
+                    className="tracking-widest"
+                  />
+                </div>
+                <Button type="submit">Join Household</Button>
+              </form>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Confirmation Dialog for Leaving */}
+      <AlertDialog open={showLeaveConfirm} onOpenChange={setShowLeaveConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave Household?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isLastMember
+                ? 'You are the last member, so the household is removed and its recipes and inventory become yours again.'
+                : 'The shared recipes and inventory stay with the household. You start again with an empty pantry and no recipes.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onLeave}>Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
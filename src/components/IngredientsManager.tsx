@@ -23,8 +23,12 @@ import { toast } from 'sonner@2.0.3';
  * @description Defines the props required for the IngredientsManager component.
  */
 interface IngredientsManagerProps {
-  /** The full list of ingredient objects to be managed. */
+  /** The ingredients the user can see: the shared catalog plus private entries. */
   ingredients: Ingredient[];
+  /** Whether new ingredients join the shared catalog (admins) rather than staying private. */
+  canAddShared: boolean;
+  /** Whether the user may rename or delete an ingredient. */
+  canEdit: (ingredient: Ingredient) => boolean;
   /** Callback to add a new ingredient by name. */
   onAdd: (name: string) => void;
   /** Callback to edit an existing ingredient by ID and new name. */
@@ -41,7 +45,14 @@ interface IngredientsManagerProps {
  * @param {IngredientsManagerProps} props - The component properties.
  * @returns {JSX.Element} The ingredient management UI.
  */
-export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: IngredientsManagerProps) {
+export function IngredientsManager({
+  ingredients,
+  canAddShared,
+  canEdit,
+  onAdd,
+  onEdit,
+  onDelete,
+}: IngredientsManagerProps) {
   // State for filtering the ingredient list
   const [searchQuery, setSearchQuery] = useState('');
   
@@ -69,7 +80,7 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
   /**
    * @function handleAdd
    * @description Handles the addition of a new ingredient.
-   * Validates the input, calls the parent `onAdd` callback, clears the input, and shows a toast.
+   * Validates the input, calls the parent `onAdd` callback and clears the input.
    * @returns {void}
    */
   const handleAdd = () => {
@@ -79,13 +90,12 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
     }
     onAdd(newIngredientName.trim());
     setNewIngredientName('');
-    toast.success('Ingredient added');
   };
 
   /**
    * @function handleEdit
    * @description Handles the submission of an inline edit.
-   * Validates the input, calls the parent `onEdit` callback, clears the editing state, and shows a toast.
+   * Validates the input, calls the parent `onEdit` callback and clears the editing state.
    * @param {string} id - The ID of the ingredient being edited.
    * @returns {void}
    */
@@ -97,7 +107,6 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
     onEdit(id, editName.trim());
     setEditingId(null);
     setEditName('');
-    toast.success('Ingredient updated');
   };
 
   /**
@@ -131,6 +140,11 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
       <Card>
         <CardHeader>
           <CardTitle>Add New Ingredient</CardTitle>
+          <CardDescription>
+            {canAddShared
+              ? 'New ingredients are shared with every user'
+              : 'New ingredients are private to you and your household'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex gap-2">
@@ -197,22 +211,30 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
                   // Display default view with action buttons
                   <>
                     <span className="flex-1">{ingredient.name}</span>
-                    {/* NOTE: Assuming 'isCustom' flag exists in the Ingredient type */}
-                    {ingredient.isCustom && <Badge variant="secondary">Custom</Badge>}
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => startEdit(ingredient)}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => setDeleteId(ingredient.id)}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {ingredient.ownerId ? (
+                      <Badge variant="outline">Private</Badge>
+                    ) : (
+                      ingredient.isCustom && <Badge variant="secondary">Custom</Badge>
+                    )}
+                    {/* Shared entries are read-only for members */}
+                    {canEdit(ingredient) && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEdit(ingredient)}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDeleteId(ingredient.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
                   </>
                 )}
               </div>
@@ -243,7 +265,6 @@ export function IngredientsManager({ ingredients, onAdd, onEdit, onDelete }: Ing
                   // Final deletion logic
                   onDelete(deleteId);
                   setDeleteId(null);
-                  toast.success('Ingredient deleted');
                 }
               }}
             >
@@ -220,7 +220,6 @@ export function InventoryManager({
     setIngredientSearch('');
     setMeasurementSearch('');
     setShowAddForm(false);
-    toast.success('Item added to inventory');
   };
 
   /**
@@ -249,7 +248,6 @@ export function InventoryManager({
     setEditingKey(null);
     setEditQuantity('');
     setEditMeasurementId('');
-    toast.success('Inventory updated');
   };
 
   /**
@@ -596,7 +594,6 @@ export function InventoryManager({
                   // Final deletion logic requires both IDs to identify the unique item record
                   onDelete(deleteItem.ingredientId, deleteItem.measurementId);
                   setDeleteItem(null);
-                  toast.success('Item removed from inventory');
                 }
               }}
             >
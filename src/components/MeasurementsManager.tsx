@@ -4,6 +4,7 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
 import { Plus, Search, Edit, Trash2, Save, X } from 'lucide-react';
 import {
   AlertDialog,
@@ -24,8 +25,12 @@ import { toast } from 'sonner@2.0.3';
  * all CRUD operations for both measurements and their nested unit conversions.
  */
 interface MeasurementsManagerProps {
-  /** The full list of measurement unit objects, including conversion definitions. */
+  /** The measurement units the user can see (shared plus private), including conversion definitions. */
   measurements: Measurement[];
+  /** Whether new units join the shared catalog (admins) rather than staying private. */
+  canAddShared: boolean;
+  /** Whether the user may rename or delete a unit and change its conversions. */
+  canEdit: (measurement: Measurement) => boolean;
   /** Callback to add a new measurement unit by name. */
   onAdd: (name: string) => void;
   /** Callback to edit an existing measurement unit's name. */
@@ -57,6 +62,8 @@ interface MeasurementsManagerProps {
  */
 export function MeasurementsManager({
   measurements,
+  canAddShared,
+  canEdit,
   onAdd,
   onEdit,
   onDelete,
@@ -92,7 +99,7 @@ export function MeasurementsManager({
   /**
    * @function handleAdd
    * @description Handles the addition of a new measurement unit.
-   * Performs input validation, calls the parent callback, resets the input, and shows a toast.
+   * Performs input validation, calls the parent callback and resets the input.
    * @returns {void}
    */
   const handleAdd = () => {
@@ -102,7 +109,6 @@ export function MeasurementsManager({
     }
     onAdd(newMeasurementName.trim());
     setNewMeasurementName('');
-    toast.success('Measurement added');
   };
 
   /**
@@ -120,7 +126,6 @@ export function MeasurementsManager({
     onEdit(id, editName.trim());
     setEditingId(null);
     setEditName('');
-    toast.success('Measurement updated');
   };
 
   /**
@@ -167,7 +172,6 @@ export function MeasurementsManager({
     // Reset conversion form states
     setConversionToId('');
     setConversionFactor('');
-    toast.success('Conversion added');
   };
 
   return (
@@ -180,6 +184,11 @@ export function MeasurementsManager({
       <Card>
         <CardHeader>
           <CardTitle>Add New Measurement</CardTitle>
+          <CardDescription>
+            {canAddShared
+              ? 'New measurements are shared with every user'
+              : 'New measurements are private to you and your household'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex gap-2">
@@ -243,6 +252,11 @@ export function MeasurementsManager({
                     // Default view with action buttons
                     <>
                       <span className="flex-1">{measurement.name}</span>
+                      {measurement.ownerId ? (
+                        <Badge variant="outline">Private</Badge>
+                      ) : (
+                        measurement.isCustom && <Badge variant="secondary">Custom</Badge>
+                      )}
                       <Button
                         size="sm"
                         variant="ghost"
@@ -255,20 +269,25 @@ export function MeasurementsManager({
                       >
                         Conversions ({measurement.conversions.length})
                       </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => startEdit(measurement)}
-                      >
-                        <Edit className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => setDeleteId(measurement.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {/* Shared units are read-only for members */}
+                      {canEdit(measurement) && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEdit(measurement)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDeleteId(measurement.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
                     </>
                   )}
                 </div>
@@ -293,15 +312,17 @@ export function MeasurementsManager({
                                   {/* Displays the conversion ratio: 1 [from unit] = [factor] [to unit] */}
                                   1 {measurement.name} = {conv.factor} {toMeasurement?.name}
                                 </span>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() =>
-                                    onRemoveConversion(measurement.id, conv.toMeasurementId)
-                                  }
-                                >
-                                  <X className="w-3 h-3" />
-                                </Button>
+                                {canEdit(measurement) && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() =>
+                                      onRemoveConversion(measurement.id, conv.toMeasurementId)
+                                    }
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </Button>
+                                )}
                               </div>
                             );
                           })}
@@ -309,44 +330,46 @@ export function MeasurementsManager({
                       )}
                     </div>
 
-                    <div className="space-y-2">
-                      <Label>Add Conversion</Label>
-                      <div className="flex gap-2">
-                        {/* Target Measurement Selector */}
-                        <Select value={conversionToId} onValueChange={setConversionToId}>
-                          <SelectTrigger className="flex-1">
-                            <SelectValue placeholder="To measurement..." />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {measurements
-                              // Prevent selecting the unit itself as a target conversion
-                              .filter((m) => m.id !== measurement.id)
-                              .map((m) => (
-                                <SelectItem key={m.id} value={m.id}>
-                                  {m.name}
-                                </SelectItem>
-                              ))}
-                          </SelectContent>
-                        </Select>
-                        {/* Conversion Factor Input */}
-                        <Input
-                          type="number"
-                          placeholder="Factor"
-                          value={conversionFactor}
-                          onChange={(e) => setConversionFactor(e.target.value)}
-                          className="w-24"
-                        />
-                        <Button
-                          size="sm"
-                          onClick={() => handleAddConversion(measurement.id)}
-                        >
-                          Add
-                        </Button>
+                    {canEdit(measurement) && (
+                      <div className="space-y-2">
+                        <Label>Add Conversion</Label>
+                        <div className="flex gap-2">
+                          {/* Target Measurement Selector */}
+                          <Select value={conversionToId} onValueChange={setConversionToId}>
+                            <SelectTrigger className="flex-1">
+                              <SelectValue placeholder="To measurement..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {measurements
+                                // Prevent selecting the unit itself as a target conversion
+                                .filter((m) => m.id !== measurement.id)
+                                .map((m) => (
+                                  <SelectItem key={m.id} value={m.id}>
+                                    {m.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          {/* Conversion Factor Input */}
+                          <Input
+                            type="number"
+                            placeholder="Factor"
+                            value={conversionFactor}
+                            onChange={(e) => setConversionFactor(e.target.value)}
+                            className="w-24"
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => handleAddConversion(measurement.id)}
+                          >
+                            Add
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Example: 1 {measurement.name} = [factor] [to measurement]
+                        </p>
                       </div>
-                      <p className="text-xs text-muted-foreground">
-                        Example: 1 {measurement.name} = [factor] [to measurement]
-                      </p>
-                    </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -376,7 +399,6 @@ export function MeasurementsManager({
                 if (deleteId) {
                   onDelete(deleteId);
                   setDeleteId(null);
-                  toast.success('Measurement deleted');
                 }
               }}
             >
@@ -0,0 +1,47 @@
+import { checkPasswordRules, scorePasswordStrength, STRENGTH_LABELS } from '../lib/passwordPolicy';
+import { Progress } from './ui/progress';
+import { Check, X } from 'lucide-react';
+
+/**
+ * @interface PasswordStrengthProps
+ * @description Defines the password being typed and the username it must not contain.
+ */
+interface PasswordStrengthProps {
+  /** The new password as currently typed. */
+  password: string;
+  /** The account's username, checked by the "does not contain your username" rule. */
+  username: string;
+}
+
+/**
+ * @component
+ * @name PasswordStrength
+ * @description Live feedback for a new password: a strength meter and the password policy's rules,
+ * each ticked off as it is met. The same rules are enforced when the password is submitted.
+ * @param {PasswordStrengthProps} props - The component properties.
+ * @returns {JSX.Element} The strength meter and rule list.
+ */
+export function PasswordStrength({ password, username }: PasswordStrengthProps) {
+  const score = scorePasswordStrength(password);
+  const rules = checkPasswordRules(password, username);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Progress value={password ? ((score + 1) / STRENGTH_LABELS.length) * 100 : 0} className="flex-1" />
+        <span className="text-xs text-muted-foreground w-16 text-right">{password ? STRENGTH_LABELS[score] : ''}</span>
+      </div>
+      <ul className="space-y-1">
+        {rules.map((rule) => (
+          <li
+            key={rule.label}
+            className={`flex items-center gap-1 text-xs ${rule.met ? 'text-green-700' : 'text-muted-foreground'}`}
+          >
+            {rule.met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+            {rule.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,9 +1,21 @@
-import { Recipe, Ingredient, Measurement } from '../types';
+import { useState } from 'react';
+import { Recipe, RecipeIngredient, Ingredient, Measurement, User } from '../types';
+import { RECIPE_TIME_FIELDS, TIME_LABELS, formatMinutes, getTotalMinutes } from '../lib/times';
+import { groupIngredients } from '../lib/ingredientSections';
+import { describeIngredientLine } from '../lib/ingredientLines';
+import { isSubRecipeLine } from '../lib/subRecipes';
+import { getIngredientDifferences, getVariationStats, getVariations } from '../lib/variations';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
-import { ChefHat, Edit, ArrowLeft, Eye } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { RecipeTagBadges } from './RecipeTagBadges';
+import { RecipePhotoImage } from './RecipePhotoImage';
+import { RecipeHistory } from './RecipeHistory';
+import { VariationDialog } from './VariationDialog';
+import { RecipeExportDialog } from './RecipeExportDialog';
+import { ChefHat, Edit, ArrowLeft, Eye, Clock, Copy, GitBranch, Download } from 'lucide-react';
 
 /**
  * @interface RecipeDetailProps
@@ -16,6 +28,16 @@ interface RecipeDetailProps {
   ingredients: Ingredient[];
   /** List of all available measurement definitions (used for name lookups). */
   measurements: Measurement[];
+  /** The user's recipes, for the names of the sub-recipes this one uses and its variations. */
+  recipes: Recipe[];
+  /** All users, for the names in the revision history. */
+  users: User[];
+  /** Callback to open another recipe, used by sub-recipe links. */
+  onViewRecipe: (recipeId: string) => void;
+  /** Callback to make an older revision of this recipe its current version. */
+  onRestoreRevision: (revisionId: string) => void;
+  /** Callback to duplicate this recipe as a variation with the given name. */
+  onFork: (name: string) => void;
   /** Callback to navigate back to the recipe list or previous view. */
   onBack: () => void;
   /** Callback to switch to the recipe editing interface. */
@@ -28,8 +50,11 @@ interface RecipeDetailProps {
  * @component
  * @name RecipeDetail
  * @description Displays the full details of a single recipe, including metadata (counts),
- * ingredients with quantities, and step-by-step instructions. Provides actions for
- * editing, cooking, and navigation.
+ * ingredients with quantities, and step-by-step instructions. Sub-recipe lines link to the
+ * recipe they use, and the revision history below allows comparing and restoring earlier versions.
+ * A variation links to its original and lists the ingredients that differ from it; a recipe with
+ * variations lists them and can count views and cooks across all of them.
+ * Provides actions for editing, cooking, duplicating as a variation, and navigation.
  * @param {RecipeDetailProps} props - The component properties.
  * @returns {JSX.Element} The recipe detail view UI.
  */
@@ -37,10 +62,27 @@ export function RecipeDetail({
   recipe,
   ingredients,
   measurements,
+  recipes,
+  users,
+  onViewRecipe,
+  onRestoreRevision,
+  onFork,
   onBack,
   onEdit,
   onCook,
 }: RecipeDetailProps) {
+  // Photo shown large; falls back to the cover when unset or no longer on the recipe
+  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+  const selectedPhoto = recipe.photos.find((p) => p.id === selectedPhotoId) ?? recipe.photos[0];
+  const totalMinutes = getTotalMinutes(recipe);
+  const [showFork, setShowFork] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Whether the view and cook counts include those of the recipe's variations
+  const [includeVariations, setIncludeVariations] = useState(false);
+  const parent = recipe.parentId ? recipes.find((r) => r.id === recipe.parentId) : undefined;
+  const variations = getVariations(recipes, recipe.id);
+  const stats = getVariationStats(recipes, recipe);
+  const counts = includeVariations ? stats : recipe;
   
   /**
    * @function getIngredientName
@@ -62,6 +104,29 @@ export function RecipeDetail({
     return measurements.find((m) => m.id === id)?.name || '';
   };
 
+  /**
+   * @function getSubRecipeUnit
+   * @description Names the unit of a sub-recipe line: servings, or the unit of the recipe's yield.
+   * @param {RecipeIngredient} line - The sub-recipe line.
+   * @returns {string} The unit name.
+   */
+  const getSubRecipeUnit = (line: RecipeIngredient) => {
+    return line.measurementId ? getMeasurementName(line.measurementId) : 'servings';
+  };
+
+  /**
+   * @function describeLine
+   * @description Writes out a recipe line as text: amount, unit and what it uses.
+   * @param {RecipeIngredient} line - The line.
+   * @returns {string} The line as text.
+   */
+  const describeLine = (line: RecipeIngredient) => {
+    const text = isSubRecipeLine(line)
+      ? `${line.quantity} ${getSubRecipeUnit(line)} ${recipes.find((r) => r.id === line.recipeId)?.name ?? 'Unknown recipe'}`
+      : `${line.quantity} ${getMeasurementName(line.measurementId)} ${describeIngredientLine(line, getIngredientName)}`;
+    return line.optional ? `${text} (optional)` : text;
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -70,8 +135,31 @@ export function RecipeDetail({
         </Button>
         <div className="flex-1">
           <h2>{recipe.name}</h2>
+          {parent && (
+            <p className="text-sm text-muted-foreground">
+              Variation of{' '}
+              <button
+                type="button"
+                className="underline underline-offset-2 hover:text-primary"
+                onClick={() => onViewRecipe(parent.id)}
+              >
+                {parent.name}
+              </button>
+            </p>
+          )}
           <p className="text-muted-foreground">{recipe.description}</p>
+          <div className="mt-2">
+            <RecipeTagBadges recipe={recipe} />
+          </div>
         </div>
+        <Button variant="outline" onClick={() => setShowExport(true)}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+        <Button variant="outline" onClick={() => setShowFork(true)}>
+          <Copy className="w-4 h-4 mr-2" />
+          Duplicate
+        </Button>
         <Button variant="outline" onClick={onEdit}>
           <Edit className="w-4 h-4 mr-2" />
           Edit
@@ -82,17 +170,74 @@ export function RecipeDetail({
         </Button>
       </div>
 
+      {/* Photo Gallery */}
+      {selectedPhoto && (
+        <div className="space-y-2">
+          <RecipePhotoImage
+            photo={selectedPhoto}
+            size="full"
+            alt={recipe.name}
+            className="w-full max-h-96 rounded-lg"
+          />
+          {recipe.photos.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {recipe.photos.map((photo) => (
+                <button
+                  key={photo.id}
+                  type="button"
+                  aria-label="Show photo"
+                  className={`flex-shrink-0 rounded-md border-2 ${
+                    photo.id === selectedPhoto.id ? 'border-primary' : 'border-transparent'
+                  }`}
+                  onClick={() => setSelectedPhotoId(photo.id)}
+                >
+                  <RecipePhotoImage photo={photo} size="thumb" alt={recipe.name} className="w-16 h-16 rounded" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Recipe Statistics */}
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
         <Badge variant="secondary">Serves {recipe.servings}</Badge>
+        {recipe.yield && (
+          <Badge variant="secondary">
+            Makes {recipe.yield.quantity} {getMeasurementName(recipe.yield.measurementId)}
+          </Badge>
+        )}
+        {totalMinutes !== undefined && (
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            {/* Breakdown of the times that are set, then the total */}
+            {RECIPE_TIME_FIELDS.filter((field) => recipe[field] !== undefined)
+              .map((field) => `${TIME_LABELS[field]} ${formatMinutes(recipe[field]!)}`)
+              .join(' · ')}
+            {' · '}
+            <span className="text-foreground">Total {formatMinutes(totalMinutes)}</span>
+          </div>
+        )}
         <div className="flex items-center gap-1 text-sm text-muted-foreground">
           <Eye className="w-4 h-4" />
-          Viewed {recipe.viewCount} times
+          Viewed {counts.viewCount} times
         </div>
         <div className="flex items-center gap-1 text-sm text-muted-foreground">
           <ChefHat className="w-4 h-4" />
-          Cooked {recipe.cookCount} times
+          Cooked {counts.cookCount} times
         </div>
+        {stats.variationCount > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch
+              id="include-variations"
+              checked={includeVariations}
+              onCheckedChange={(checked: boolean) => setIncludeVariations(checked)}
+            />
+            <label htmlFor="include-variations">
+              Include {stats.variationCount} {stats.variationCount === 1 ? 'variation' : 'variations'}
+            </label>
+          </div>
+        )}
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -102,18 +247,41 @@ export function RecipeDetail({
             <CardDescription>What you'll need</CardDescription>
           </CardHeader>
           <CardContent>
-            <ul className="space-y-2">
-              {recipe.ingredients.map((ing, index) => (
-                <li key={index} className="flex items-center gap-2">
-                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: '#6b8e6f' }} />
-                  <span>
-                    {/* Display ingredient quantity, unit name, and ingredient name using lookups */}
-                    {ing.quantity} {getMeasurementName(ing.measurementId)}{' '}
-                    {getIngredientName(ing.ingredientId)}
-                  </span>
-                </li>
+            <div className="space-y-4">
+              {/* Lines outside any section come first, under no heading */}
+              {groupIngredients(recipe.ingredients).map((group) => (
+                <div key={group.section ?? ''} className="space-y-2">
+                  {group.section && <h4 className="text-sm font-medium">{group.section}</h4>}
+                  <ul className="space-y-2">
+                    {group.lines.map(({ ingredient: ing, index }) => (
+                      <li key={index} className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: '#6b8e6f' }} />
+                        {isSubRecipeLine(ing) ? (
+                          <span>
+                            {ing.quantity} {getSubRecipeUnit(ing)}{' '}
+                            <button
+                              type="button"
+                              className="underline underline-offset-2 hover:text-primary"
+                              onClick={() => onViewRecipe(ing.recipeId)}
+                            >
+                              {recipes.find((r) => r.id === ing.recipeId)?.name ?? 'Unknown recipe'}
+                            </button>
+                            {ing.note && `, ${ing.note}`}
+                          </span>
+                        ) : (
+                          <span>
+                            {/* Display ingredient quantity, unit name, and ingredient name using lookups */}
+                            {ing.quantity} {getMeasurementName(ing.measurementId)}{' '}
+                            {describeIngredientLine(ing, getIngredientName)}
+                          </span>
+                        )}
+                        {ing.optional && <Badge variant="outline">optional</Badge>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </div>
           </CardContent>
         </Card>
 
@@ -136,6 +304,93 @@ export function RecipeDetail({
           </CardContent>
         </Card>
       </div>
+
+      {(parent || variations.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="w-5 h-5" />
+              Variations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {parent && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Ingredients that differ from {parent.name}</h4>
+                {getIngredientDifferences(parent, recipe).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Same ingredients as the original.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {getIngredientDifferences(parent, recipe).map((difference, index) => (
+                      <li key={index} className="flex items-center gap-2">
+                        <Badge variant="outline">{difference.kind}</Badge>
+                        {difference.kind === 'added' && describeLine(difference.variation!)}
+                        {difference.kind === 'removed' && (
+                          <span className="line-through text-muted-foreground">{describeLine(difference.parent!)}</span>
+                        )}
+                        {difference.kind === 'changed' && (
+                          <span>
+                            <span className="text-muted-foreground">{describeLine(difference.parent!)}</span>
+                            {' → '}
+                            {describeLine(difference.variation!)}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            {variations.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Variations of this recipe</h4>
+                <ul className="space-y-1 text-sm">
+                  {variations.map((variation) => (
+                    <li key={variation.id} className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="underline underline-offset-2 hover:text-primary"
+                        onClick={() => onViewRecipe(variation.id)}
+                      >
+                        {variation.name}
+                      </button>
+                      <span className="text-muted-foreground">
+                        viewed {variation.viewCount}, cooked {variation.cookCount} times
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <RecipeHistory
+        recipe={recipe}
+        users={users}
+        ingredients={ingredients}
+        measurements={measurements}
+        recipes={recipes}
+        onRestore={onRestoreRevision}
+      />
+
+      <VariationDialog
+        recipe={showFork ? recipe : null}
+        onCreate={(name) => {
+          setShowFork(false);
+          onFork(name);
+        }}
+        onClose={() => setShowFork(false)}
+      />
+
+      <RecipeExportDialog
+        recipes={showExport ? [recipe] : null}
+        ingredients={ingredients}
+        measurements={measurements}
+        allRecipes={recipes}
+        onClose={() => setShowExport(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
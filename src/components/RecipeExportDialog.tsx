@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Ingredient, Measurement, Recipe } from '../types';
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, ExportFormat, exportRecipes } from '../lib/recipeExport';
+import { downloadFile } from '../lib/files';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { toast } from 'sonner@2.0.3';
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  'json-ld': 'The format recipe sites use; other recipe apps can import it.',
+  markdown: 'Readable text for printing, notes or sharing.',
+  cooklang:
+    'Plain-text recipes with the ingredients marked in the steps; one .cook file per recipe, saved together in a single .zip archive when you export several.',
+};
+
+/**
+ * @interface RecipeExportDialogProps
+ * @description Props for the dialog that exports recipes to a file.
+ */
+interface RecipeExportDialogProps {
+  /** The recipes to export, or null when the dialog is closed. */
+  recipes: Recipe[] | null;
+  /** List of all ingredient definitions, to write out ingredient names. */
+  ingredients: Ingredient[];
+  /** List of all measurement definitions, to write out unit names. */
+  measurements: Measurement[];
+  /** All recipes, to write out the names of sub-recipes. */
+  allRecipes: Recipe[];
+  /** Callback to close the dialog. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name RecipeExportDialog
+ * @description Downloads one or more recipes as JSON-LD, Markdown or Cooklang, optionally scaled to
+ * a number of servings.
+ * @param {RecipeExportDialogProps} props - The component properties.
+ * @returns {JSX.Element} The export dialog.
+ */
+export function RecipeExportDialog({ recipes, ingredients, measurements, allRecipes, onClose }: RecipeExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('json-ld');
+  // Servings to scale to, as typed; blank exports the recipes as written
+  const [servings, setServings] = useState('');
+
+  // Which recipes are exported; callers may pass a new list on every render
+  const selectionKey = recipes?.map((r) => r.id).join(',') ?? null;
+
+  /**
+   * @effect Default Servings
+   * @description A single recipe starts at its own servings; a selection starts unscaled.
+   */
+  useEffect(() => {
+    if (recipes) setServings(recipes.length === 1 ? String(recipes[0].servings) : '');
+  }, [selectionKey]);
+
+  const count = recipes?.length ?? 0;
+  const scaleTo = parseFloat(servings);
+
+  /**
+   * @function handleExport
+   * @description Builds the file and offers it as a download.
+   * @returns {void}
+   */
+  const handleExport = () => {
+    if (!recipes) return;
+    const file = exportRecipes(
+      recipes,
+      format,
+      { ingredients, measurements, recipes: allRecipes },
+      scaleTo > 0 ? scaleTo : undefined
+    );
+    downloadFile(file.fileName, file.content, file.type);
+    toast.success(count === 1 ? `Exported ${recipes[0].name}` : `Exported ${count} recipes`);
+    onClose();
+  };
+
+  return (
+    <AlertDialog open={recipes !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{count === 1 ? `Export ${recipes![0].name}` : `Export ${count} Recipes`}</AlertDialogTitle>
+          <AlertDialogDescription>Choose a format. The file is saved to your device.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={format} onValueChange={(value: string) => setFormat(value as ExportFormat)}>
+          {EXPORT_FORMATS.map((option) => (
+            <div key={option} className="flex items-start gap-3">
+              <RadioGroupItem value={option} id={`export-${option}`} className="mt-1" />
+              <Label htmlFor={`export-${option}`} className="flex flex-col items-start gap-1 font-normal">
+                <span className="font-medium">{EXPORT_FORMAT_LABELS[option]}</span>
+                <span className="text-sm text-muted-foreground">{FORMAT_DESCRIPTIONS[option]}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <div className="space-y-2">
+          <Label htmlFor="export-servings">Servings</Label>
+          <Input
+            id="export-servings"
+            type="number"
+            min="1"
+            value={servings}
+            placeholder="As written"
+            onChange={(e) => setServings(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            {count === 1 ? 'Amounts are scaled to this many servings.' : 'Each recipe is scaled to this many servings.'}
+          </p>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleExport}>Download</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
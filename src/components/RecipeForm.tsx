@@ -1,11 +1,22 @@
-import { useState, useEffect } from 'react';
-import { Recipe, RecipeIngredient, Ingredient, Measurement } from '../types';
+import { useState, useEffect, useRef } from 'react';
+import { Recipe, RecipeIngredient, RecipePhoto, Ingredient, Measurement, RecipeCourse, RecipeCuisine } from '../types';
+import { COURSE_LABELS, CUISINE_LABELS, RECIPE_COURSES, RECIPE_CUISINES, normalizeTag } from '../lib/tags';
+import { PhotoError, processPhoto, savePhotoBlobs } from '../lib/photos';
+import { RECIPE_TIME_FIELDS, RecipeTimeField, TIME_LABELS, formatMinutes, getTotalMinutes, parseMinutes } from '../lib/times';
+import { groupIngredients, normalizeSectionName } from '../lib/ingredientSections';
+import { isCompleteLine, normalizeAlternateIds, normalizeNote } from '../lib/ingredientLines';
+import { getSubRecipeCandidates } from '../lib/subRecipes';
+import { RecipeDraft } from '../lib/recipeImport';
+import { RecipePhotoImage } from './RecipePhotoImage';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { Plus, X, ArrowLeft, Search } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, X, ArrowLeft, Search, ImagePlus, Star, Loader2, BookOpen, AlertTriangle } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
 /**
@@ -15,39 +26,126 @@ import { toast } from 'sonner@2.0.3';
 interface RecipeFormProps {
   /** Optional. The recipe object if we are in Edit Mode. Undefined if in Create Mode. */
   recipe?: Recipe;
+  /** Optional. In Create Mode, an imported recipe to start from, with the lines that need checking. */
+  draft?: RecipeDraft;
   /** List of all available ingredient definitions for lookup and selection. */
   ingredients: Ingredient[];
   /** List of all available measurement definitions for lookup and selection. */
   measurements: Measurement[];
+  /** Tags already used on the user's recipes, offered as suggestions. */
+  knownTags: string[];
+  /** The user's recipes, offered as sub-recipes (except any that would make this recipe use itself). */
+  recipes: Recipe[];
   /** * @function onSave 
    * @description Callback executed upon successful form submission.
    * @param {Omit<Recipe, '...'>} recipe - The new or updated recipe data, stripped of backend-managed fields.
    */
-  onSave: (recipe: Omit<Recipe, 'id' | 'userId' | 'viewCount' | 'cookCount' | 'createdAt'>) => void;
+  onSave: (recipe: Omit<Recipe, 'id' | 'userId' | 'parentId' | 'revisions' | 'viewCount' | 'cookCount' | 'createdAt'>) => void;
   /** Callback executed when the user cancels the form (returns to previous view). */
   onCancel: () => void;
 }
 
+/**
+ * @interface FormSection
+ * @description An ingredient section while it is edited. The key tells sections apart, so one can be
+ * renamed, even to another's name or to nothing, without its lines moving.
+ */
+interface FormSection {
+  key: number;
+  name: string;
+}
+
+/**
+ * An ingredient line while it is edited, pointing at its section by key rather than by name.
+ * `issue` says why an imported line needs checking; it is cleared once the line is edited.
+ */
+type FormIngredient = Omit<RecipeIngredient, 'section'> & { sectionKey?: number; issue?: string };
+
+/**
+ * @function toFormIngredients
+ * @description Splits a recipe's ingredient lines into the sections and keyed lines the form edits.
+ * @param {RecipeIngredient[]} ingredients - The recipe's stored ingredient lines.
+ * @param {(string | undefined)[]} [issues] - For an imported recipe, why each line needs checking, by index.
+ * @returns {{ sections: FormSection[]; lines: FormIngredient[] }} The editable sections and lines.
+ */
+function toFormIngredients(
+  ingredients: RecipeIngredient[],
+  issues: (string | undefined)[] = []
+): { sections: FormSection[]; lines: FormIngredient[] } {
+  const sections: FormSection[] = [];
+  const lines: FormIngredient[] = [];
+  groupIngredients(ingredients).forEach((group) => {
+    const key = group.section === undefined ? undefined : sections.length;
+    if (key !== undefined) sections.push({ key, name: group.section! });
+    group.lines.forEach(({ ingredient: { section, ...line }, index }) =>
+      lines.push({
+        ...line,
+        ...(key !== undefined && { sectionKey: key }),
+        ...(issues[index] && { issue: issues[index] }),
+      })
+    );
+  });
+  return { sections, lines };
+}
+
 /**
  * @component
  * @name RecipeForm
  * @description A comprehensive form component used for both creating new recipes and editing existing ones.
  * It handles the recipe's core fields (name, servings) and manages dynamic arrays for ingredients and instructions.
+ * Ingredients can be split into named sections; lines outside any section are listed first.
+ * A line can also be another recipe (a sub-recipe), measured in its servings or its yield unit.
  * Validation is performed on submission.
  * @param {RecipeFormProps} props - The component properties.
  * @returns {JSX.Element} The recipe form UI.
  */
-export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel }: RecipeFormProps) {
+export function RecipeForm({
+  recipe,
+  draft,
+  ingredients,
+  measurements,
+  knownTags,
+  recipes,
+  onSave,
+  onCancel,
+}: RecipeFormProps) {
+  // What the fields start from: the recipe being edited, or an imported draft of a new one
+  const initial: Partial<Recipe> | undefined = recipe ?? draft?.content;
+
   // --- Basic Fields State (initialized from props or defaults) ---
-  const [name, setName] = useState(recipe?.name || '');
-  const [description, setDescription] = useState(recipe?.description || '');
-  const [servings, setServings] = useState(recipe?.servings || 4);
+  const [name, setName] = useState(initial?.name || '');
+  const [description, setDescription] = useState(initial?.description || '');
+  const [servings, setServings] = useState(initial?.servings || 4);
+  const [times, setTimes] = useState<Pick<Recipe, RecipeTimeField>>({
+    prepMinutes: initial?.prepMinutes,
+    cookMinutes: initial?.cookMinutes,
+    restMinutes: initial?.restMinutes,
+  });
+  const totalMinutes = getTotalMinutes(times);
+  // What one batch makes, for when this recipe is used in others; blank quantity or unit means none
+  const [yieldQuantity, setYieldQuantity] = useState(initial?.yield?.quantity ?? 0);
+  const [yieldMeasurementId, setYieldMeasurementId] = useState(initial?.yield?.measurementId ?? '');
+  const [yieldIngredientId, setYieldIngredientId] = useState(initial?.yield?.ingredientId ?? '');
+
+  // --- Classification State ---
+  const [tags, setTags] = useState<string[]>(initial?.tags || []);
+  const [course, setCourse] = useState<RecipeCourse | undefined>(initial?.course);
+  const [cuisine, setCuisine] = useState<RecipeCuisine | undefined>(initial?.cuisine);
+
+  // --- Photos State ---
+  const [photos, setPhotos] = useState<RecipePhoto[]>((recipe ? recipe.photos : draft?.photos) || []);
+  const [processingPhotos, setProcessingPhotos] = useState(false);
   
   // --- Dynamic Array States ---
-  const [recipeIngredients, setRecipeIngredients] = useState<RecipeIngredient[]>(
-    recipe?.ingredients || []
+  const [initialIngredients] = useState(() =>
+    toFormIngredients(initial?.ingredients || [], recipe ? [] : draft?.lineIssues)
+  );
+  const [recipeIngredients, setRecipeIngredients] = useState<FormIngredient[]>(initialIngredients.lines);
+  const [sections, setSections] = useState<FormSection[]>(initialIngredients.sections);
+  const subRecipeCandidates = getSubRecipeCandidates(recipes, recipe?.id);
+  const [instructions, setInstructions] = useState<string[]>(
+    initial?.instructions?.length ? initial.instructions : ['']
   );
-  const [instructions, setInstructions] = useState<string[]>(recipe?.instructions || ['']);
   
   // States used for potential future custom ingredient/measurement creation (currently unused in UI)
   const [customIngredient, setCustomIngredient] = useState('');
@@ -55,19 +153,68 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
 
   /**
    * @function addIngredient
-   * @description Adds a new, empty RecipeIngredient object to the ingredient list array.
+   * @description Adds a new, empty ingredient line to the ingredient list array, optionally in a section.
+   * @param {number} [sectionKey] - Key of the section to add it to; omitted for the unsectioned lines.
+   * @returns {void}
+   */
+  const addIngredient = (sectionKey?: number) => {
+    setRecipeIngredients([
+      ...recipeIngredients,
+      { ingredientId: '', quantity: 0, measurementId: '', ...(sectionKey !== undefined && { sectionKey }) },
+    ]);
+  };
+
+  /**
+   * @function addSubRecipe
+   * @description Adds a new sub-recipe line, one serving of a recipe still to be picked, optionally in a section.
+   * @param {number} [sectionKey] - Key of the section to add it to; omitted for the unsectioned lines.
    * @returns {void}
    */
-  const addIngredient = () => {
+  const addSubRecipe = (sectionKey?: number) => {
     setRecipeIngredients([
       ...recipeIngredients,
-      { ingredientId: '', quantity: 0, measurementId: '' },
+      { ingredientId: '', quantity: 1, measurementId: '', recipeId: '', ...(sectionKey !== undefined && { sectionKey }) },
     ]);
   };
 
+  /**
+   * @function addSection
+   * @description Adds an empty, unnamed ingredient section after the existing ones.
+   * @returns {void}
+   */
+  const addSection = () => {
+    const key = Math.max(-1, ...sections.map((section) => section.key)) + 1;
+    setSections([...sections, { key, name: '' }]);
+  };
+
+  /**
+   * @function renameSection
+   * @description Updates the name of the section with the given key.
+   * @param {number} key - The section's key.
+   * @param {string} name - The new name, as typed.
+   * @returns {void}
+   */
+  const renameSection = (key: number, name: string) => {
+    setSections(sections.map((section) => (section.key === key ? { ...section, name } : section)));
+  };
+
+  /**
+   * @function removeSection
+   * @description Removes a section; its ingredient lines are kept and move to the unsectioned lines.
+   * @param {number} key - The section's key.
+   * @returns {void}
+   */
+  const removeSection = (key: number) => {
+    setSections(sections.filter((section) => section.key !== key));
+    setRecipeIngredients(
+      recipeIngredients.map(({ sectionKey, ...line }) => (sectionKey === key ? line : { ...line, sectionKey }))
+    );
+  };
+
   /**
    * @function updateIngredient
    * @description Updates a specific field (quantity, ingredientId, or measurementId) of an ingredient at a given index.
+   * Editing a line clears the note on why it needed checking.
    * @param {number} index - The index of the ingredient to update.
    * @param {keyof RecipeIngredient} field - The field name to update.
    * @param {any} value - The new value for the field.
@@ -75,7 +222,8 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
    */
   const updateIngredient = (index: number, field: keyof RecipeIngredient, value: any) => {
     const updated = [...recipeIngredients];
-    updated[index] = { ...updated[index], [field]: value };
+    const { issue: _issue, ...line } = updated[index];
+    updated[index] = { ...line, [field]: value };
     setRecipeIngredients(updated);
   };
 
@@ -121,6 +269,47 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
     setInstructions(instructions.filter((_, i) => i !== index));
   };
 
+  /**
+   * @function renderLine
+   * @description Renders the editing row for one line: a sub-recipe row or an ingredient row.
+   * @param {FormIngredient} ing - The line.
+   * @param {number} index - Its index in the ingredient list.
+   * @returns {JSX.Element} The row.
+   */
+  const renderLine = (ing: FormIngredient, index: number) => {
+    const row =
+      ing.recipeId !== undefined ? (
+        <SubRecipeRow
+          key={index}
+          line={ing}
+          recipes={subRecipeCandidates}
+          measurements={measurements}
+          onChange={(field, value) => updateIngredient(index, field, value)}
+          onRemove={() => removeIngredient(index)}
+        />
+      ) : (
+        <IngredientRow
+          key={index}
+          ingredient={ing}
+          ingredients={ingredients}
+          measurements={measurements}
+          onChange={(field, value) => updateIngredient(index, field, value)}
+          onRemove={() => removeIngredient(index)}
+        />
+      );
+    if (!ing.issue) return row;
+    // Imported lines that need checking stand out until edited
+    return (
+      <div key={index} className="space-y-2 rounded-md border border-amber-300 bg-amber-50/50 p-2">
+        <p className="flex items-center gap-2 text-sm" style={{ color: '#b7791f' }}>
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {ing.issue}
+        </p>
+        {row}
+      </div>
+    );
+  };
+
   /**
    * @function handleSubmit
    * @description Handles the form submission event.
@@ -142,10 +331,24 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
       return;
     }
 
-    // Filter out incomplete ingredient rows for submission validation
-    const validIngredients = recipeIngredients.filter(
-      (ing) => ing.ingredientId && ing.quantity > 0 && ing.measurementId
-    );
+    // Filter out incomplete ingredient rows for submission validation, then store them in display
+    // order with their section names; lines of a section left unnamed end up outside any section
+    const sectionNames = new Map(sections.map((section) => [section.key, normalizeSectionName(section.name)]));
+    const validIngredients = [undefined, ...sections.map((section) => section.key)]
+      .flatMap((key) => recipeIngredients.filter((ing) => ing.sectionKey === key))
+      .filter(isCompleteLine)
+      .map(({ sectionKey, issue: _issue, note, optional, alternateIds, ...line }): RecipeIngredient => {
+        const section = sectionKey === undefined ? undefined : sectionNames.get(sectionKey);
+        const cleanNote = normalizeNote(note);
+        const alternates = normalizeAlternateIds(line.ingredientId, alternateIds);
+        return {
+          ...line,
+          ...(section && { section }),
+          ...(cleanNote && { note: cleanNote }),
+          ...(optional && { optional: true }),
+          ...(alternates && { alternateIds: alternates }),
+        };
+      });
 
     if (validIngredients.length === 0) {
       toast.error('Please complete all ingredient fields');
@@ -165,6 +368,19 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
       name: name.trim(),
       description: description.trim(),
       servings,
+      yield:
+        yieldQuantity > 0 && yieldMeasurementId
+          ? {
+              quantity: yieldQuantity,
+              measurementId: yieldMeasurementId,
+              ...(yieldIngredientId && { ingredientId: yieldIngredientId }),
+            }
+          : undefined,
+      ...times,
+      tags,
+      course,
+      cuisine,
+      photos,
       ingredients: validIngredients,
       instructions: validInstructions,
     });
@@ -179,7 +395,11 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
         <div>
           <h2>{recipe ? 'Edit Recipe' : 'Add New Recipe'}</h2>
           <p className="text-muted-foreground">
-            {recipe ? 'Update your recipe details' : 'Create a new recipe'}
+            {recipe
+              ? 'Update your recipe details'
+              : draft
+                ? 'Check the imported recipe, especially the highlighted ingredients'
+                : 'Create a new recipe'}
           </p>
         </div>
       </div>
@@ -222,34 +442,214 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
                 onChange={(e) => setServings(parseFloat(e.target.value) || 1)}
               />
             </div>
+
+            <div className="space-y-2">
+              <div className="grid gap-4 sm:grid-cols-3">
+                {RECIPE_TIME_FIELDS.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={field}>{TIME_LABELS[field]} time (minutes)</Label>
+                    <Input
+                      id={field}
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={times[field] ?? ''}
+                      onChange={(e) => setTimes({ ...times, [field]: parseMinutes(e.target.value) })}
+                      placeholder="—"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {totalMinutes === undefined
+                  ? 'Leave blank if unknown'
+                  : `Ready in ${formatMinutes(totalMinutes)}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="yield-quantity">Batch yield</Label>
+              <div className="grid gap-2 sm:grid-cols-3">
+                <Input
+                  id="yield-quantity"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={yieldQuantity || ''}
+                  onChange={(e) => setYieldQuantity(parseFloat(e.target.value) || 0)}
+                  placeholder="e.g., 800"
+                />
+                {/* 'none' stands in for no unit or ingredient, as Select items cannot have an empty value */}
+                <Select
+                  value={yieldMeasurementId || 'none'}
+                  onValueChange={(value: string) => setYieldMeasurementId(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger aria-label="Yield unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No unit</SelectItem>
+                    {measurements.map((m) => (
+                      <SelectItem key={m.id} value={m.id}>
+                        {m.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={yieldIngredientId || 'none'}
+                  onValueChange={(value: string) => setYieldIngredientId(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger aria-label="Stocked in the pantry as">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not stocked</SelectItem>
+                    {ingredients.map((i) => (
+                      <SelectItem key={i.id} value={i.id}>
+                        Stocked as {i.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Optional. Lets other recipes use this one by amount, and use a prepared batch from the pantry.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories & Tags</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Course</Label>
+                {/* 'none' stands in for no course, as Select items cannot have an empty value */}
+                <Select
+                  value={course ?? 'none'}
+                  onValueChange={(value: string) => setCourse(value === 'none' ? undefined : (value as RecipeCourse))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No course</SelectItem>
+                    {RECIPE_COURSES.map((c) => (
+                      <SelectItem key={c} value={c}>
+                        {COURSE_LABELS[c]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Cuisine</Label>
+                <Select
+                  value={cuisine ?? 'none'}
+                  onValueChange={(value: string) => setCuisine(value === 'none' ? undefined : (value as RecipeCuisine))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No cuisine</SelectItem>
+                    {RECIPE_CUISINES.map((c) => (
+                      <SelectItem key={c} value={c}>
+                        {CUISINE_LABELS[c]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <TagEditor tags={tags} knownTags={knownTags} onChange={setTags} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Photos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PhotoEditor
+              photos={photos}
+              recipeName={name}
+              onChange={setPhotos}
+              onProcessingChange={setProcessingPhotos}
+            />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Ingredients</CardTitle>
-            <Button type="button" size="sm" onClick={addIngredient}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Ingredient
-            </Button>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={addSection}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Section
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => addSubRecipe()}>
+                <BookOpen className="w-4 h-4 mr-2" />
+                Add Recipe
+              </Button>
+              <Button type="button" size="sm" onClick={() => addIngredient()}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Ingredient
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             {/* NOTE: IngredientRow handles the complex search and selection logic for a single ingredient item */}
-            {recipeIngredients.map((ing, index) => (
-              <IngredientRow
-                key={index}
-                ingredient={ing}
-                ingredients={ingredients}
-                measurements={measurements}
-                onChange={(field, value) => updateIngredient(index, field, value)}
-                onRemove={() => removeIngredient(index)}
-              />
-            ))}
-            {recipeIngredients.length === 0 && (
+            {recipeIngredients.map((ing, index) => (ing.sectionKey === undefined ? renderLine(ing, index) : null))}
+            {recipeIngredients.length === 0 && sections.length === 0 && (
               <p className="text-sm text-muted-foreground text-center py-4">
                 No ingredients added yet. Click "Add Ingredient" to get started.
               </p>
             )}
+
+            {sections.map((section) => (
+              <div key={section.key} className="space-y-4 pt-4 border-t">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={section.name}
+                    onChange={(e) => renameSection(section.key, e.target.value)}
+                    placeholder="Section name, e.g. For the glaze"
+                    aria-label="Section name"
+                  />
+                  <Button type="button" size="sm" variant="outline" onClick={() => addIngredient(section.key)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    aria-label="Add sub-recipe to section"
+                    onClick={() => addSubRecipe(section.key)}
+                  >
+                    <BookOpen className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove section (its ingredients are kept)"
+                    onClick={() => removeSection(section.key)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {recipeIngredients.map((ing, index) => (ing.sectionKey === section.key ? renderLine(ing, index) : null))}
+                {!recipeIngredients.some((ing) => ing.sectionKey === section.key) && (
+                  <p className="text-sm text-muted-foreground">No ingredients in this section yet.</p>
+                )}
+              </div>
+            ))}
           </CardContent>
         </Card>
 
@@ -297,13 +697,400 @@ export function RecipeForm({ recipe, ingredients, measurements, onSave, onCancel
           <Button type="button" variant="outline" onClick={onCancel}>
             Cancel
           </Button>
-          <Button type="submit">{recipe ? 'Update Recipe' : 'Create Recipe'}</Button>
+          <Button type="submit" disabled={processingPhotos}>
+            {recipe ? 'Update Recipe' : 'Create Recipe'}
+          </Button>
         </div>
       </form>
     </div>
   );
 }
 
+/**
+ * @interface TagEditorProps
+ * @description Props for the helper component that edits a recipe's tags.
+ */
+interface TagEditorProps {
+  /** The recipe's current tags. */
+  tags: string[];
+  /** Tags used elsewhere, suggested while typing. */
+  knownTags: string[];
+  /** Callback with the updated tag list. */
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * @component
+ * @name TagEditor
+ * @description Shows a recipe's tags as removable badges and adds new ones typed into its input,
+ * on Enter or comma, with suggestions from tags already in use.
+ * @param {TagEditorProps} props - The component properties.
+ * @returns {JSX.Element} The tag editing UI.
+ */
+function TagEditor({ tags, knownTags, onChange }: TagEditorProps) {
+  const [tagInput, setTagInput] = useState('');
+
+  const query = normalizeTag(tagInput);
+  const suggestions = query
+    ? knownTags.filter((tag) => tag.includes(query) && !tags.includes(tag)).slice(0, 8)
+    : [];
+
+  /**
+   * @function addTag
+   * @description Normalizes and adds a tag unless it is empty or already present, then clears the input.
+   * @param {string} raw - The tag as typed.
+   * @returns {void}
+   */
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setTagInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="tag-input">Tags</Label>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove tag ${tag}`}
+                onClick={() => onChange(tags.filter((t) => t !== tag))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="tag-input"
+        value={tagInput}
+        onChange={(e) => {
+          // A typed comma finishes the tag before it
+          const value = e.target.value;
+          if (value.includes(',')) {
+            value.split(',').slice(0, -1).forEach(addTag);
+            setTagInput(value.slice(value.lastIndexOf(',') + 1));
+          } else {
+            setTagInput(value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            // Enter adds the tag instead of submitting the recipe
+            e.preventDefault();
+            addTag(tagInput);
+          } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        placeholder="e.g., vegetarian, weeknight"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map((tag) => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              onClick={() => addTag(tag)}
+            >
+              <Plus className="w-3 h-3" />
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * @interface PhotoEditorProps
+ * @description Props for the helper component that manages a recipe's photos.
+ */
+interface PhotoEditorProps {
+  /** The recipe's current photos; the first is the cover. */
+  photos: RecipePhoto[];
+  /** The recipe name, used as the photos' alternative text. */
+  recipeName: string;
+  /** Callback applying a change to the photo list; photos are added asynchronously, so it takes an updater. */
+  onChange: (update: (photos: RecipePhoto[]) => RecipePhoto[]) => void;
+  /** Callback told when image files start and finish processing, so saving can wait for them. */
+  onProcessingChange: (processing: boolean) => void;
+}
+
+/**
+ * @component
+ * @name PhotoEditor
+ * @description Adds photos picked or dropped as image files, downscaling and storing each one as it
+ * arrives, and shows them as thumbnails that can be removed or made the cover.
+ * @param {PhotoEditorProps} props - The component properties.
+ * @returns {JSX.Element} The photo editing UI.
+ */
+function PhotoEditor({ photos, recipeName, onChange, onProcessingChange }: PhotoEditorProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  /**
+   * @function addFiles
+   * @description Processes and stores each image file in turn, adding it to the list once stored.
+   * Files that cannot be used are reported and skipped.
+   * @param {File[]} files - The picked or dropped files.
+   * @returns {Promise<void>}
+   */
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setProcessing(true);
+    onProcessingChange(true);
+    for (const file of files) {
+      try {
+        const { photo, full, thumb } = await processPhoto(file);
+        await savePhotoBlobs(photo.id, full, thumb);
+        onChange((current) => [...current, photo]);
+      } catch (error) {
+        toast.error(error instanceof PhotoError ? error.message : `Could not add "${file.name}"`);
+      }
+    }
+    setProcessing(false);
+    onProcessingChange(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg text-center transition-colors ${
+          dragging ? 'border-primary bg-accent' : 'border-muted'
+        }`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {processing ? (
+          <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+        ) : (
+          <ImagePlus className="w-8 h-8 text-muted-foreground" />
+        )}
+        <p className="text-sm text-muted-foreground">
+          {processing ? 'Processing photos...' : 'Drop photos here, or'}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={processing}
+          onClick={() => fileInput.current?.click()}
+        >
+          Choose Photos
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="relative group">
+              <RecipePhotoImage
+                photo={photo}
+                size="thumb"
+                alt={recipeName || 'Recipe photo'}
+                className="w-full aspect-square rounded-md"
+              />
+              {index === 0 ? (
+                <Badge className="absolute left-1 top-1" style={{ backgroundColor: '#6b8e6f' }}>
+                  Cover
+                </Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute left-1 top-1 w-7 h-7"
+                  aria-label="Make cover photo"
+                  onClick={() => onChange((current) => [photo, ...current.filter((p) => p.id !== photo.id)])}
+                >
+                  <Star className="w-3 h-3" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute right-1 top-1 w-7 h-7"
+                aria-label="Remove photo"
+                onClick={() => onChange((current) => current.filter((p) => p.id !== photo.id))}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * @interface LineOptionsProps
+ * @description Props for the helper component that edits a line's preparation note and optional flag.
+ */
+interface LineOptionsProps {
+  /** The line being edited. */
+  line: RecipeIngredient;
+  /** Callback to update a specific field of the line. */
+  onChange: (field: keyof RecipeIngredient, value: any) => void;
+}
+
+/**
+ * @component
+ * @name LineOptions
+ * @description The preparation note input and optional checkbox shared by ingredient and sub-recipe rows.
+ * @param {LineOptionsProps} props - The component properties.
+ * @returns {JSX.Element} The note and optional inputs.
+ */
+function LineOptions({ line, onChange }: LineOptionsProps) {
+  return (
+    <>
+      <Input
+        className="flex-1 min-w-40"
+        value={line.note ?? ''}
+        onChange={(e) => onChange('note', e.target.value)}
+        placeholder="Preparation, e.g. minced"
+        aria-label="Preparation note"
+      />
+      <div className="flex items-center gap-2">
+        <Checkbox
+          checked={!!line.optional}
+          onCheckedChange={(checked: boolean | 'indeterminate') => onChange('optional', checked === true)}
+          aria-label="Optional ingredient"
+        />
+        <span className="text-sm">Optional</span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * @interface SubRecipeRowProps
+ * @description Props for the helper component that edits a line standing for another recipe.
+ */
+interface SubRecipeRowProps {
+  /** The sub-recipe line; an empty `recipeId` means no recipe is picked yet. */
+  line: RecipeIngredient;
+  /** Recipes that may be used here. */
+  recipes: Recipe[];
+  /** List of all available measurement definitions, for the yield unit's name. */
+  measurements: Measurement[];
+  /** Callback to update a specific field of the line. */
+  onChange: (field: keyof RecipeIngredient, value: any) => void;
+  /** Callback to remove this line. */
+  onRemove: () => void;
+}
+
+/**
+ * @component
+ * @name SubRecipeRow
+ * @description Edits a sub-recipe line: which recipe, and how much of it, in servings or in the
+ * recipe's yield unit when it has one.
+ * @param {SubRecipeRowProps} props - The component properties.
+ * @returns {JSX.Element} The sub-recipe row UI.
+ */
+function SubRecipeRow({ line, recipes, measurements, onChange, onRemove }: SubRecipeRowProps) {
+  const subRecipe = recipes.find((r) => r.id === line.recipeId);
+  const yieldUnit = subRecipe?.yield && measurements.find((m) => m.id === subRecipe.yield!.measurementId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-start">
+        <div className="flex-1 space-y-2">
+          <Label>Recipe</Label>
+          <Select
+            value={line.recipeId || undefined}
+            onValueChange={(value: string) => {
+              onChange('recipeId', value);
+              // A unit only makes sense for the recipe it was picked for
+              onChange('measurementId', '');
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a recipe..." />
+            </SelectTrigger>
+            <SelectContent>
+              {recipes.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="w-24 space-y-2">
+          <Label>Quantity</Label>
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            value={line.quantity || ''}
+            onChange={(e) => onChange('quantity', parseFloat(e.target.value) || 0)}
+            placeholder="0"
+          />
+        </div>
+
+        <div className="w-32 space-y-2">
+          <Label>Unit</Label>
+          {/* 'servings' stands in for the empty measurement id of a line measured in servings */}
+          <Select
+            value={line.measurementId || 'servings'}
+            onValueChange={(value: string) => onChange('measurementId', value === 'servings' ? '' : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="servings">servings</SelectItem>
+              {yieldUnit && <SelectItem value={yieldUnit.id}>{yieldUnit.name}</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button type="button" variant="ghost" size="icon" className="mt-8" onClick={onRemove}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center pr-12">
+        <LineOptions line={line} onChange={onChange} />
+      </div>
+    </div>
+  );
+}
+
 /**
  * @interface IngredientRowProps
  * @description Props for the helper component that manages the input fields for a single ingredient item.
@@ -326,6 +1113,7 @@ interface IngredientRowProps {
  * @name IngredientRow
  * @description A helper component managing the input fields (Ingredient Search, Quantity, Unit Search)
  * for a single recipe ingredient item. It implements complex auto-complete search functionality.
+ * A second line holds the preparation note, the optional flag and any alternate ingredients.
  * @param {IngredientRowProps} props - The component properties.
  * @returns {JSX.Element} The ingredient input row UI.
  */
@@ -339,8 +1127,10 @@ function IngredientRow({
   // --- Search/Selection States ---
   const [ingredientSearch, setIngredientSearch] = useState('');
   const [measurementSearch, setMeasurementSearch] = useState('');
+  const [alternateSearch, setAlternateSearch] = useState('');
   const [showIngredientSuggestions, setShowIngredientSuggestions] = useState(false);
   const [showMeasurementSuggestions, setShowMeasurementSuggestions] = useState(false);
+  const [showAlternateSuggestions, setShowAlternateSuggestions] = useState(false);
 
   // Derived state to get the currently selected item objects based on IDs
   const selectedIngredient = ingredients.find((i) => i.id === ingredient.ingredientId);
@@ -355,6 +1145,14 @@ function IngredientRow({
     meas.name.toLowerCase().includes(measurementSearch.toLowerCase())
   );
 
+  const alternateIds = ingredient.alternateIds ?? [];
+  const filteredAlternates = ingredients.filter(
+    (ing) =>
+      ing.id !== ingredient.ingredientId &&
+      !alternateIds.includes(ing.id) &&
+      ing.name.toLowerCase().includes(alternateSearch.toLowerCase())
+  );
+
   /**
    * @function handleSelectIngredient
    * @description Selects an ingredient from the dropdown. Updates the ingredientId 
@@ -383,6 +1181,18 @@ function IngredientRow({
     setShowMeasurementSuggestions(false);
   };
 
+  /**
+   * @function handleAddAlternate
+   * @description Adds an ingredient that can stand in for this line's one and clears the alternate search.
+   * @param {string} ingredientId - ID of the alternate ingredient.
+   * @returns {void}
+   */
+  const handleAddAlternate = (ingredientId: string) => {
+    onChange('alternateIds', [...alternateIds, ingredientId]);
+    setAlternateSearch('');
+    setShowAlternateSuggestions(false);
+  };
+
   /**
    * @effect Sync Ingredient Name
    * @description Ensures the text input displays the actual name when the ingredient ID changes (e.g., on load/edit).
@@ -404,111 +1214,158 @@ function IngredientRow({
   }, [selectedMeasurement]);
 
   return (
-    <div className="flex gap-2 items-start">
-      <div className="flex-1 space-y-2">
-        <Label>Ingredient</Label>
-        <div className="relative">
+    <div className="space-y-2">
+      <div className="flex gap-2 items-start">
+        <div className="flex-1 space-y-2">
+          <Label>Ingredient</Label>
+          <div className="relative">
+            <Input
+              placeholder="Search ingredients..."
+              value={ingredientSearch}
+              onChange={(e) => {
+                setIngredientSearch(e.target.value);
+                setShowIngredientSuggestions(true);
+                // Clear the underlying ID if the user starts typing again
+                if (!e.target.value) {
+                  onChange('ingredientId', '');
+                }
+              }}
+              onFocus={() => setShowIngredientSuggestions(true)}
+              // Delaying blur prevents closing suggestions before click handler runs
+              onBlur={() => setTimeout(() => setShowIngredientSuggestions(false), 200)}
+            />
+            {/* Ingredient Search Suggestions Dropdown */}
+            {showIngredientSuggestions && ingredientSearch && filteredIngredients.length > 0 && (
+              <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-md max-h-60 overflow-y-auto">
+                {filteredIngredients.slice(0, 10).map((ing) => (
+                  <button
+                    key={ing.id}
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-accent transition-colors cursor-pointer"
+                    onClick={() => handleSelectIngredient(ing.id, ing.name)}
+                  >
+                    {ing.name}
+                  </button>
+                ))}
+                {filteredIngredients.length > 10 && (
+                  <div className="px-3 py-2 text-sm text-muted-foreground">
+                    +{filteredIngredients.length - 10} more...
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="w-24 space-y-2">
+          <Label>Quantity</Label>
           <Input
-            placeholder="Search ingredients..."
-            value={ingredientSearch}
-            onChange={(e) => {
-              setIngredientSearch(e.target.value);
-              setShowIngredientSuggestions(true);
-              // Clear the underlying ID if the user starts typing again
-              if (!e.target.value) {
-                onChange('ingredientId', '');
-              }
-            }}
-            onFocus={() => setShowIngredientSuggestions(true)}
-            // Delaying blur prevents closing suggestions before click handler runs
-            onBlur={() => setTimeout(() => setShowIngredientSuggestions(false), 200)}
+            type="number"
+            min="0"
+            step="0.1"
+            value={ingredient.quantity || ''}
+            // Update parent state on change, defaulting to 0 for invalid input
+            onChange={(e) => onChange('quantity', parseFloat(e.target.value) || 0)}
+            placeholder="0"
           />
-          {/* Ingredient Search Suggestions Dropdown */}
-          {showIngredientSuggestions && ingredientSearch && filteredIngredients.length > 0 && (
-            <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-md max-h-60 overflow-y-auto">
-              {filteredIngredients.slice(0, 10).map((ing) => (
-                <button
-                  key={ing.id}
-                  type="button"
-                  className="w-full text-left px-3 py-2 hover:bg-accent transition-colors cursor-pointer"
-                  onClick={() => handleSelectIngredient(ing.id, ing.name)}
-                >
-                  {ing.name}
-                </button>
-              ))}
-              {filteredIngredients.length > 10 && (
-                <div className="px-3 py-2 text-sm text-muted-foreground">
-                  +{filteredIngredients.length - 10} more...
-                </div>
-              )}
-            </div>
-          )}
         </div>
-      </div>
 
-      <div className="w-24 space-y-2">
-        <Label>Quantity</Label>
-        <Input
-          type="number"
-          min="0"
-          step="0.1"
-          value={ingredient.quantity || ''}
-          // Update parent state on change, defaulting to 0 for invalid input
-          onChange={(e) => onChange('quantity', parseFloat(e.target.value) || 0)}
-          placeholder="0"
-        />
+        <div className="w-32 space-y-2">
+          <Label>Unit</Label>
+          <div className="relative">
+            <Input
+              placeholder="Search units..."
+              value={measurementSearch}
+              onChange={(e) => {
+                setMeasurementSearch(e.target.value);
+                setShowMeasurementSuggestions(true);
+                // Clear the underlying ID if the user starts typing again
+                if (!e.target.value) {
+                  onChange('measurementId', '');
+                }
+              }}
+              onFocus={() => setShowMeasurementSuggestions(true)}
+              onBlur={() => setTimeout(() => setShowMeasurementSuggestions(false), 200)}
+            />
+            {/* Measurement Search Suggestions Dropdown */}
+            {showMeasurementSuggestions && measurementSearch && filteredMeasurements.length > 0 && (
+              <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-md max-h-60 overflow-y-auto">
+                {filteredMeasurements.slice(0, 10).map((meas) => (
+                  <button
+                    key={meas.id}
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-accent transition-colors cursor-pointer"
+                    onClick={() => handleSelectMeasurement(meas.id, meas.name)}
+                  >
+                    {meas.name}
+                  </button>
+                ))}
+                {filteredMeasurements.length > 10 && (
+                  <div className="px-3 py-2 text-sm text-muted-foreground">
+                    +{filteredMeasurements.length - 10} more...
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Remove Button */}
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="mt-8"
+          onClick={onRemove}
+        >
+          <X className="w-4 h-4" />
+        </Button>
       </div>
 
-      <div className="w-32 space-y-2">
-        <Label>Unit</Label>
-        <div className="relative">
+      {/* Preparation note, optional flag and alternates */}
+      <div className="flex flex-wrap gap-2 items-center pr-12">
+        <LineOptions line={ingredient} onChange={onChange} />
+        {alternateIds.map((id) => (
+          <Badge key={id} variant="secondary" className="gap-1">
+            or {ingredients.find((i) => i.id === id)?.name ?? 'Unknown'}
+            <button
+              type="button"
+              aria-label="Remove alternate"
+              onClick={() => onChange('alternateIds', alternateIds.filter((a) => a !== id))}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <div className="relative w-40">
           <Input
-            placeholder="Search units..."
-            value={measurementSearch}
+            placeholder="Or instead..."
+            aria-label="Add alternate ingredient"
+            value={alternateSearch}
             onChange={(e) => {
-              setMeasurementSearch(e.target.value);
-              setShowMeasurementSuggestions(true);
-              // Clear the underlying ID if the user starts typing again
-              if (!e.target.value) {
-                onChange('measurementId', '');
-              }
+              setAlternateSearch(e.target.value);
+              setShowAlternateSuggestions(true);
             }}
-            onFocus={() => setShowMeasurementSuggestions(true)}
-            onBlur={() => setTimeout(() => setShowMeasurementSuggestions(false), 200)}
+            onFocus={() => setShowAlternateSuggestions(true)}
+            onBlur={() => setTimeout(() => setShowAlternateSuggestions(false), 200)}
           />
-          {/* Measurement Search Suggestions Dropdown */}
-          {showMeasurementSuggestions && measurementSearch && filteredMeasurements.length > 0 && (
+          {/* Alternate Search Suggestions Dropdown */}
+          {showAlternateSuggestions && alternateSearch && filteredAlternates.length > 0 && (
             <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-md max-h-60 overflow-y-auto">
-              {filteredMeasurements.slice(0, 10).map((meas) => (
+              {filteredAlternates.slice(0, 10).map((ing) => (
                 <button
-                  key={meas.id}
+                  key={ing.id}
                   type="button"
                   className="w-full text-left px-3 py-2 hover:bg-accent transition-colors cursor-pointer"
-                  onClick={() => handleSelectMeasurement(meas.id, meas.name)}
+                  onClick={() => handleAddAlternate(ing.id)}
                 >
-                  {meas.name}
+                  {ing.name}
                 </button>
               ))}
-              {filteredMeasurements.length > 10 && (
-                <div className="px-3 py-2 text-sm text-muted-foreground">
-                  +{filteredMeasurements.length - 10} more...
-                </div>
-              )}
             </div>
           )}
         </div>
       </div>
-
-      {/* Remove Button */}
-      <Button
-        type="button"
-        variant="ghost"
-        size="icon"
-        className="mt-8"
-        onClick={onRemove}
-      >
-        <X className="w-4 h-4" />
-      </Button>
     </div>
   );
 }
\ No newline at end of file
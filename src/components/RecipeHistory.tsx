@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { Recipe, RecipeContent, RecipeIngredient, Ingredient, Measurement, User } from '../types';
+import {
+  DiffRow,
+  REVISION_FIELDS,
+  REVISION_FIELD_LABELS,
+  RevisionField,
+  diffLines,
+  getChangedFields,
+} from '../lib/revisions';
+import { describeIngredientLine } from '../lib/ingredientLines';
+import { isSubRecipeLine } from '../lib/subRecipes';
+import { COURSE_LABELS, CUISINE_LABELS } from '../lib/tags';
+import { formatMinutes } from '../lib/times';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { History, RotateCcw } from 'lucide-react';
+
+/**
+ * @interface RecipeHistoryProps
+ * @description Props for the revision history of a recipe.
+ */
+interface RecipeHistoryProps {
+  /** The recipe whose revisions are shown. */
+  recipe: Recipe;
+  /** All users, for the names of who saved each revision. */
+  users: User[];
+  /** List of all available ingredient definitions (used for name lookups). */
+  ingredients: Ingredient[];
+  /** List of all available measurement definitions (used for name lookups). */
+  measurements: Measurement[];
+  /** The user's recipes, for the names of sub-recipes. */
+  recipes: Recipe[];
+  /** Callback to make the revision with this id the current version. */
+  onRestore: (revisionId: string) => void;
+}
+
+// Background of diff cells by change, older side then newer side
+const DIFF_STYLES: Record<DiffRow['change'], [string, string]> = {
+  same: ['', ''],
+  removed: ['bg-red-50', 'bg-muted/40'],
+  added: ['bg-muted/40', 'bg-green-50'],
+  changed: ['bg-red-50', 'bg-green-50'],
+};
+
+/**
+ * @component
+ * @name RecipeHistory
+ * @description Lists the saved versions of a recipe, newest first, with who saved each and what
+ * changed. Any two versions can be compared side by side, and an older one restored, which saves
+ * it again as the newest version so nothing is lost.
+ * @param {RecipeHistoryProps} props - The component properties.
+ * @returns {JSX.Element | null} The history card, or null for a recipe without revisions.
+ */
+export function RecipeHistory({ recipe, users, ingredients, measurements, recipes, onRestore }: RecipeHistoryProps) {
+  const revisions = recipe.revisions ?? [];
+  const current = revisions[revisions.length - 1];
+  // Ids of the revisions compared; unset (or no longer kept) means the previous and current ones
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  // Revision pending restore (opens the confirmation dialog)
+  const [restoreId, setRestoreId] = useState<string | null>(null);
+
+  if (!current) return null;
+
+  const from = revisions.find((r) => r.id === fromId) ?? revisions[Math.max(0, revisions.length - 2)];
+  const to = revisions.find((r) => r.id === toId) ?? current;
+
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.username ?? 'Unknown user';
+  const getIngredientName = (id: string) => ingredients.find((i) => i.id === id)?.name || 'Unknown';
+  const getMeasurementName = (id: string) => measurements.find((m) => m.id === id)?.name || '';
+  const formatDate = (time: number) => new Date(time).toLocaleString();
+
+  /**
+   * @function formatLine
+   * @description Writes out an ingredient line as one line of text for the diff, with its section.
+   * @param {RecipeIngredient} ing - The line.
+   * @returns {string} The line as text.
+   */
+  const formatLine = (ing: RecipeIngredient) => {
+    const text = isSubRecipeLine(ing)
+      ? `${ing.quantity} ${ing.measurementId ? getMeasurementName(ing.measurementId) : 'servings'} ${
+          recipes.find((r) => r.id === ing.recipeId)?.name ?? 'Unknown recipe'
+        }${ing.note ? `, ${ing.note}` : ''}`
+      : `${ing.quantity} ${getMeasurementName(ing.measurementId)} ${describeIngredientLine(ing, getIngredientName)}`;
+    return `${ing.section ? `${ing.section}: ` : ''}${text}${ing.optional ? ' (optional)' : ''}`;
+  };
+
+  /**
+   * @function formatValue
+   * @description Writes out the value of a single-valued field for the diff.
+   * @param {RecipeContent} content - The revision's content.
+   * @param {RevisionField} field - The field.
+   * @returns {string} The value as text; a dash when unset.
+   */
+  const formatValue = (content: RecipeContent, field: RevisionField): string => {
+    switch (field) {
+      case 'yield': {
+        const recipeYield = content.yield;
+        if (!recipeYield) return '—';
+        const stocked = recipeYield.ingredientId ? `, stocked as ${getIngredientName(recipeYield.ingredientId)}` : '';
+        return `${recipeYield.quantity} ${getMeasurementName(recipeYield.measurementId)}${stocked}`;
+      }
+      case 'tags':
+        return content.tags.join(', ') || '—';
+      case 'course':
+        return content.course ? COURSE_LABELS[content.course] : '—';
+      case 'cuisine':
+        return content.cuisine ? CUISINE_LABELS[content.cuisine] : '—';
+      case 'prepMinutes':
+      case 'cookMinutes':
+      case 'restMinutes':
+        return content[field] === undefined ? '—' : formatMinutes(content[field]!);
+      default:
+        return String(content[field] ?? '') || '—';
+    }
+  };
+
+  /**
+   * @function describeRevision
+   * @description Summarises what a revision did: created the recipe, restored an older version, or
+   * changed some fields.
+   * @param {number} index - Position of the revision, oldest first.
+   * @returns {string} The summary.
+   */
+  const describeRevision = (index: number) => {
+    const revision = revisions[index];
+    if (revision.restoredFrom) {
+      const restored = revisions.find((r) => r.id === revision.restoredFrom);
+      return restored ? `Restored the version of ${formatDate(restored.savedAt)}` : 'Restored an older version';
+    }
+    if (index === 0) return 'Created';
+    return `Changed ${revision.changedFields.map((field) => REVISION_FIELD_LABELS[field].toLowerCase()).join(', ')}`;
+  };
+
+  const changedFields = getChangedFields(from.content, to.content);
+  const valueFields = REVISION_FIELDS.filter(
+    (field) => field !== 'ingredients' && field !== 'instructions' && changedFields.includes(field)
+  );
+  const ingredientRows = diffLines(from.content.ingredients.map(formatLine), to.content.ingredients.map(formatLine));
+  const instructionRows = diffLines(from.content.instructions, to.content.instructions);
+
+  /**
+   * @function renderRows
+   * @description Renders diff rows in two columns, older on the left and newer on the right.
+   * @param {DiffRow[]} rows - The rows.
+   * @returns {JSX.Element} The rows.
+   */
+  const renderRows = (rows: DiffRow[]) => (
+    <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-sm">
+      {rows.map((row, index) => (
+        <div key={index} className="contents">
+          <div className={`rounded px-2 py-1 ${DIFF_STYLES[row.change][0]}`}>{row.left}</div>
+          <div className={`rounded px-2 py-1 ${DIFF_STYLES[row.change][1]}`}>{row.right}</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const revisionOptions = [...revisions].reverse().map((revision) => (
+    <SelectItem key={revision.id} value={revision.id}>
+      {formatDate(revision.savedAt)}
+      {revision === current && ' (current)'}
+    </SelectItem>
+  ));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          History
+        </CardTitle>
+        <CardDescription>
+          {revisions.length} saved {revisions.length === 1 ? 'version' : 'versions'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="space-y-2">
+          {revisions
+            .map((revision, index) => ({ revision, index }))
+            .reverse()
+            .map(({ revision, index }) => (
+              <li key={revision.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span>{formatDate(revision.savedAt)}</span>
+                <span className="text-muted-foreground">by {getUserName(revision.userId)}</span>
+                {revision === current && <Badge variant="secondary">Current</Badge>}
+                <span className="flex-1 text-muted-foreground">{describeRevision(index)}</span>
+                {revision !== current && (
+                  <Button size="sm" variant="outline" onClick={() => setRestoreId(revision.id)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+        </ul>
+
+        {revisions.length > 1 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={from.id} onValueChange={(value: string) => setFromId(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{revisionOptions}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={to.id} onValueChange={(value: string) => setToId(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{revisionOptions}</SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {changedFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">These versions are the same.</p>
+            ) : (
+              <>
+                {valueFields.map((field) => (
+                  <div key={field} className="space-y-1">
+                    <h4 className="text-sm font-medium">{REVISION_FIELD_LABELS[field]}</h4>
+                    {renderRows([
+                      { change: 'changed', left: formatValue(from.content, field), right: formatValue(to.content, field) },
+                    ])}
+                  </div>
+                ))}
+                {changedFields.includes('ingredients') && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Ingredients</h4>
+                    {renderRows(ingredientRows)}
+                  </div>
+                )}
+                {changedFields.includes('instructions') && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Instructions</h4>
+                    {renderRows(instructionRows)}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Confirmation Dialog for Restoring */}
+      <AlertDialog open={restoreId !== null} onOpenChange={() => setRestoreId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore This Version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The recipe will go back to how it was on{' '}
+              {formatDate(revisions.find((r) => r.id === restoreId)?.savedAt ?? 0)}. Its photos stay as they are, and
+              the current version stays in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (restoreId) onRestore(restoreId);
+                setRestoreId(null);
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
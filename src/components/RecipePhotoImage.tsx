@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { RecipePhoto } from '../types';
+import { PhotoSize, getPhotoUrl } from '../lib/photos';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { ImageIcon } from 'lucide-react';
+
+/**
+ * @interface RecipePhotoImageProps
+ * @description Defines the photo to show and how to size it.
+ */
+interface RecipePhotoImageProps {
+  /** The photo record; its image is looked up in the photo store. */
+  photo: RecipePhoto;
+  /** 'thumb' for cards and previews, 'full' for the recipe's own page. */
+  size: PhotoSize;
+  /** Alternative text, usually the recipe name. */
+  alt: string;
+  /** Classes for the image (or its placeholder); set the width and height here. */
+  className?: string;
+}
+
+/**
+ * @component
+ * @name RecipePhotoImage
+ * @description Shows a recipe photo from the local photo store. A plain placeholder is shown while
+ * the image loads, and `ImageWithFallback`'s broken-image graphic when it is missing from this
+ * browser (photos are not part of backups) or cannot be decoded.
+ * @param {RecipePhotoImageProps} props - The component properties.
+ * @returns {JSX.Element} The image or its placeholder.
+ */
+export function RecipePhotoImage({ photo, size, alt, className = '' }: RecipePhotoImageProps) {
+  // undefined while loading, null when the blob is missing
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let current = true;
+    setUrl(undefined);
+    getPhotoUrl(photo.id, size).then((result) => {
+      if (current) setUrl(result);
+    });
+    return () => {
+      current = false;
+    };
+  }, [photo.id, size]);
+
+  if (url === undefined) {
+    return (
+      <div className={`flex items-center justify-center bg-muted text-muted-foreground ${className}`}>
+        <ImageIcon className="w-6 h-6" />
+      </div>
+    );
+  }
+
+  // An empty src makes the browser report an error, which switches ImageWithFallback to its placeholder
+  return <ImageWithFallback key={url ?? 'missing'} src={url ?? ''} alt={alt} className={`object-cover ${className}`} />;
+}
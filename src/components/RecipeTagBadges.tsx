@@ -0,0 +1,38 @@
+import { Recipe } from '../types';
+import { COURSE_LABELS, CUISINE_LABELS } from '../lib/tags';
+import { Badge } from './ui/badge';
+
+/**
+ * @interface RecipeTagBadgesProps
+ * @description Defines the recipe whose classification is shown.
+ */
+interface RecipeTagBadgesProps {
+  /** The recipe to show the course, cuisine and tags of. */
+  recipe: Recipe;
+}
+
+/**
+ * @component
+ * @name RecipeTagBadges
+ * @description Shows a recipe's course and cuisine as filled badges followed by its tags as outlined ones.
+ * Renders nothing for an unclassified recipe.
+ * @param {RecipeTagBadgesProps} props - The component properties.
+ * @returns {JSX.Element | null} The badges, or null.
+ */
+export function RecipeTagBadges({ recipe }: RecipeTagBadgesProps) {
+  if (!recipe.course && !recipe.cuisine && recipe.tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {recipe.course && (
+        <Badge style={{ backgroundColor: '#6b8e6f' }}>{COURSE_LABELS[recipe.course]}</Badge>
+      )}
+      {recipe.cuisine && <Badge variant="secondary">{CUISINE_LABELS[recipe.cuisine]}</Badge>}
+      {recipe.tags.map((tag) => (
+        <Badge key={tag} variant="outline">
+          #{tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
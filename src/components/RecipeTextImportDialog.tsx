@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Measurement } from '../types';
+import { parseRecipeText } from '../lib/recipeText';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+/**
+ * @interface RecipeTextImportDialogProps
+ * @description Props for the dialog where a recipe is pasted as text.
+ */
+interface RecipeTextImportDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Units the user can see, so the preview recognises their custom units too. */
+  measurements: Measurement[];
+  /** Callback with the pasted text, to turn it into a recipe and open it for review. */
+  onImport: (text: string) => void;
+  /** Callback to close the dialog without importing. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name RecipeTextImportDialog
+ * @description Takes a whole recipe pasted as plain text and previews how it was read (title,
+ * ingredients with their amounts and units, number of steps) before it is opened in the recipe form.
+ * @param {RecipeTextImportDialogProps} props - The component properties.
+ * @returns {JSX.Element} The paste dialog.
+ */
+export function RecipeTextImportDialog({ open, measurements, onImport, onClose }: RecipeTextImportDialogProps) {
+  const [text, setText] = useState('');
+
+  /**
+   * @effect Clear on Open
+   * @description Starts each import with an empty text box.
+   */
+  useEffect(() => {
+    if (open) setText('');
+  }, [open]);
+
+  const parsed = text.trim() ? parseRecipeText(text, measurements) : null;
+  const canImport = !!parsed?.name && parsed.ingredients.length > 0;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen: boolean) => !isOpen && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Paste a Recipe</AlertDialogTitle>
+          <AlertDialogDescription>
+            Paste the title, ingredients and steps. You can review everything before the recipe is created.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'Classic Pancakes\nServes 4\n\nIngredients\n1 1/2 cups flour, sifted\n2 eggs\n\nInstructions\n1. Mix the flour and eggs.\n2. Cook on a hot griddle.'}
+          rows={10}
+          autoFocus
+        />
+        {parsed && (
+          <div className="border rounded-lg p-4 space-y-2 max-h-60 overflow-y-auto bg-accent/30 text-sm">
+            <p>
+              <span className="font-medium">{parsed.name || 'No title'}</span>
+              <span className="text-muted-foreground">
+                {' '}
+                · {parsed.ingredients.length} ingredients · {parsed.instructions.length} steps
+                {parsed.servings !== undefined && ` · serves ${parsed.servings}`}
+              </span>
+            </p>
+            <ul className="space-y-1">
+              {parsed.ingredients.map((line, index) => (
+                <li key={index} className="flex flex-wrap items-center gap-2">
+                  {line.section && <Badge variant="outline">{line.section}</Badge>}
+                  {line.quantity !== undefined && <span>{Number(line.quantity.toFixed(3))}</span>}
+                  {line.unit && <span className="text-muted-foreground">{line.unit}</span>}
+                  <span>{line.name || <span className="text-muted-foreground">{line.text}</span>}</span>
+                  {(line.quantity === undefined || !line.name) && <Badge variant="outline">check</Badge>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction disabled={!canImport} onClick={() => onImport(text)}>
+            Review Recipe
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
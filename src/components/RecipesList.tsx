@@ -1,10 +1,23 @@
 import { useState } from 'react';
-import { Recipe, Ingredient, Measurement } from '../types';
+import { Recipe, Ingredient, Measurement, RecipeCourse, RecipeCuisine, RecipePhoto } from '../types';
+import { ParsedRecipe } from '../lib/recipeImport';
+import { CollectionImportSummary } from '../lib/recipeCollections';
+import { COURSE_LABELS, CUISINE_LABELS, RECIPE_COURSES, RECIPE_CUISINES, countTags, hasAllTags } from '../lib/tags';
+import { READY_IN_OPTIONS, formatMinutes, getTotalMinutes, isReadyWithin } from '../lib/times';
+import { RecipeTagBadges } from './RecipeTagBadges';
+import { RecipePhotoImage } from './RecipePhotoImage';
+import { VariationDialog } from './VariationDialog';
+import { RecipeTextImportDialog } from './RecipeTextImportDialog';
+import { WebPageImportDialog } from './WebPageImportDialog';
+import { RecipeExportDialog } from './RecipeExportDialog';
+import { CollectionImportDialog } from './CollectionImportDialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
-import { Plus, Search, Eye, ChefHat, Edit, Trash2 } from 'lucide-react';
+import { Plus, Search, Eye, ChefHat, Edit, Trash2, X, Clock, Copy, ClipboardPaste, FileCode, Download, Library } from 'lucide-react';
 import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,6 +29,15 @@ import {
   AlertDialogTitle,
 } from './ui/alert-dialog';
 
+// How the listed recipes are ordered; 'default' keeps the collection's own order
+type RecipeSort = 'default' | 'quickest' | 'name';
+
+const SORT_LABELS: Record<RecipeSort, string> = {
+  default: 'Default order',
+  quickest: 'Quickest first',
+  name: 'Name (A-Z)',
+};
+
 /**
  * @interface RecipesListProps
  * @description Defines the props required for the RecipesList component, including data and all actions.
@@ -23,9 +45,9 @@ import {
 interface RecipesListProps {
   /** List of all recipe objects to display. */
   recipes: Recipe[];
-  /** List of all ingredient definitions (included for completeness, not used in this component). */
+  /** List of all ingredient definitions, used to write out exported recipes. */
   ingredients: Ingredient[];
-  /** List of all measurement definitions (included for completeness, not used in this component). */
+  /** List of all measurement definitions, used to read imported and write out exported recipes. */
   measurements: Measurement[];
   /** Callback to navigate to the detailed view of a specific recipe. */
   onViewRecipe: (recipeId: string) => void;
@@ -33,8 +55,16 @@ interface RecipesListProps {
   onEditRecipe: (recipeId: string) => void;
   /** Callback to delete a recipe permanently. */
   onDeleteRecipe: (recipeId: string) => void;
+  /** Callback to duplicate a recipe as a variation with the given name. */
+  onForkRecipe: (recipeId: string, name: string) => void;
   /** Callback to navigate to the creation form for a new recipe. */
   onAddRecipe: () => void;
+  /** Callback with a recipe pasted as text, to open it in the creation form for review. */
+  onImportText: (text: string) => void;
+  /** Callback with a recipe read from a saved web page and its stored photos, to open it for review. */
+  onImportRecipe: (recipe: ParsedRecipe, photos: RecipePhoto[]) => void;
+  /** Callback that adds the recipes read from exported collections, reporting what was imported and skipped. */
+  onImportCollection: (recipes: ParsedRecipe[]) => Promise<CollectionImportSummary>;
   /** Callback to start the Cook Mode session for a specific recipe. */
   onCookRecipe: (recipeId: string) => void;
 }
@@ -43,7 +73,13 @@ interface RecipesListProps {
  * @component
  * @name RecipesList
  * @description Displays a searchable list of all recipes in a card format, providing quick actions
- * for viewing, editing, cooking, and deleting recipes.
+ * for viewing, editing, cooking, duplicating as a variation and deleting recipes. New recipes can be
+ * added from scratch, pasted in as text or imported from a saved web page, whole collections can be
+ * imported from Cooklang, MealMaster and Paprika files, and any selection of recipes can be exported
+ * to a file. Recipes can be
+ * narrowed down by course, cuisine and any combination of tags; each tag shows how many of the
+ * currently listed recipes carry it.
+ * A "ready in" filter keeps recipes whose total time fits, and the list can be sorted by total time.
  * @param {RecipesListProps} props - The component properties.
  * @returns {JSX.Element} The recipe list UI.
  */
@@ -54,22 +90,93 @@ export function RecipesList({
   onViewRecipe,
   onEditRecipe,
   onDeleteRecipe,
+  onForkRecipe,
   onAddRecipe,
+  onImportText,
+  onImportRecipe,
+  onImportCollection,
   onCookRecipe,
 }: RecipesListProps) {
   // State for the user's search query input
   const [searchQuery, setSearchQuery] = useState('');
   // State to hold the ID of the recipe pending deletion (controls AlertDialog visibility)
   const [deleteRecipeId, setDeleteRecipeId] = useState<string | null>(null);
+  // Recipe being duplicated as a variation (controls the naming dialog)
+  const [forkRecipe, setForkRecipe] = useState<Recipe | null>(null);
+  // Whether the paste-a-recipe dialog is open
+  const [isPasting, setIsPasting] = useState(false);
+  // Whether the web page import dialog is open
+  const [isImportingPage, setIsImportingPage] = useState(false);
+  // Whether the collection import dialog is open
+  const [isImportingCollection, setIsImportingCollection] = useState(false);
+  // Recipes picked for export; null when not picking
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  // Recipes in the export dialog (controls its visibility)
+  const [exportList, setExportList] = useState<Recipe[] | null>(null);
+
+  // --- Filter State ---
+  // Tags a recipe must all carry to be listed
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [courseFilter, setCourseFilter] = useState<RecipeCourse | 'all'>('all');
+  const [cuisineFilter, setCuisineFilter] = useState<RecipeCuisine | 'all'>('all');
+  // Longest total time, in minutes, of listed recipes
+  const [readyInFilter, setReadyInFilter] = useState<number | 'any'>('any');
+  const [sortBy, setSortBy] = useState<RecipeSort>('default');
+
+  const hasFilters =
+    selectedTags.length > 0 || courseFilter !== 'all' || cuisineFilter !== 'all' || readyInFilter !== 'any';
 
   /**
    * @constant filteredRecipes
-   * @description Filters the main recipe list based on the search query.
-   * Performs a case-insensitive search matching the recipe name.
+   * @description Filters the main recipe list by the search query (case-insensitive name match),
+   * the course, cuisine and ready-in filters and the selected tags, then applies the chosen sort.
+   * Recipes without times sort after timed ones when sorting by time.
    */
-  const filteredRecipes = recipes.filter((recipe) =>
-    recipe.name.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredRecipes = recipes.filter(
+    (recipe) =>
+      recipe.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
+      (courseFilter === 'all' || recipe.course === courseFilter) &&
+      (cuisineFilter === 'all' || recipe.cuisine === cuisineFilter) &&
+      (readyInFilter === 'any' || isReadyWithin(recipe, readyInFilter)) &&
+      hasAllTags(recipe, selectedTags)
   );
+  if (sortBy === 'quickest') {
+    filteredRecipes.sort((a, b) => (getTotalMinutes(a) ?? Infinity) - (getTotalMinutes(b) ?? Infinity));
+  } else if (sortBy === 'name') {
+    filteredRecipes.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * @constant tagCounts
+   * @description Tags of the listed recipes with their counts, so picking a tag never empties the list.
+   * Selected tags are always included so they can be switched off again.
+   */
+  const tagCounts = countTags(filteredRecipes);
+  selectedTags.forEach((tag) => {
+    if (!tagCounts.some((t) => t.tag === tag)) tagCounts.unshift({ tag, count: 0 });
+  });
+
+  /**
+   * @function toggleTag
+   * @description Adds a tag to the filter, or removes it if already selected.
+   * @param {string} tag - The tag to toggle.
+   * @returns {void}
+   */
+  const toggleTag = (tag: string) => {
+    setSelectedTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  };
+
+  /**
+   * @function clearFilters
+   * @description Resets the course, cuisine, ready-in and tag filters (the search query and sort are kept).
+   * @returns {void}
+   */
+  const clearFilters = () => {
+    setSelectedTags([]);
+    setCourseFilter('all');
+    setCuisineFilter('all');
+    setReadyInFilter('any');
+  };
 
   return (
     <div className="space-y-6">
@@ -78,12 +185,53 @@ export function RecipesList({
           <h2>Recipes</h2>
           <p className="text-muted-foreground">Manage and search your recipe collection</p>
         </div>
-        <Button onClick={onAddRecipe}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Recipe
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setSelectedIds(selectedIds ? null : [])}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportingCollection(true)}>
+            <Library className="w-4 h-4 mr-2" />
+            Import Collection
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportingPage(true)}>
+            <FileCode className="w-4 h-4 mr-2" />
+            Import Page
+          </Button>
+          <Button variant="outline" onClick={() => setIsPasting(true)}>
+            <ClipboardPaste className="w-4 h-4 mr-2" />
+            Paste Recipe
+          </Button>
+          <Button onClick={onAddRecipe}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Recipe
+          </Button>
+        </div>
       </div>
 
+      {/* Picking recipes to export */}
+      {selectedIds && (
+        <div className="flex flex-wrap items-center gap-2 p-3 border rounded-lg bg-accent/30">
+          <span className="flex-1 text-sm">
+            {selectedIds.length === 0 ? 'Select the recipes to export' : `${selectedIds.length} selected`}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setSelectedIds(filteredRecipes.map((r) => r.id))}>
+            Select All Shown
+          </Button>
+          <Button
+            size="sm"
+            disabled={selectedIds.length === 0}
+            onClick={() => setExportList(recipes.filter((r) => selectedIds.includes(r.id)))}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export Selected
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIds(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
         <Input
@@ -94,14 +242,94 @@ export function RecipesList({
         />
       </div>
 
+      {/* Course, cuisine and tag filters */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={courseFilter} onValueChange={(value: string) => setCourseFilter(value as RecipeCourse | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All courses</SelectItem>
+              {RECIPE_COURSES.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {COURSE_LABELS[c]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={cuisineFilter} onValueChange={(value: string) => setCuisineFilter(value as RecipeCuisine | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All cuisines</SelectItem>
+              {RECIPE_CUISINES.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {CUISINE_LABELS[c]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(readyInFilter)}
+            onValueChange={(value: string) => setReadyInFilter(value === 'any' ? 'any' : Number(value))}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any time</SelectItem>
+              {READY_IN_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  Ready within {formatMinutes(minutes)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sortBy} onValueChange={(value: string) => setSortBy(value as RecipeSort)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as RecipeSort[]).map((sort) => (
+                <SelectItem key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+        {tagCounts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tagCounts.map(({ tag, count }) => (
+              <Badge
+                key={tag}
+                variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleTag(tag)}
+              >
+                #{tag} ({count})
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
       {filteredRecipes.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <ChefHat className="w-12 h-12 text-muted-foreground mb-4" />
             <p className="text-muted-foreground mb-4">
-              {searchQuery ? 'No recipes found matching your search' : 'No recipes yet'}
+              {searchQuery || hasFilters ? 'No recipes found matching your search' : 'No recipes yet'}
             </p>
-            {!searchQuery && (
+            {!searchQuery && !hasFilters && (
               <Button onClick={onAddRecipe}>
                 <Plus className="w-4 h-4 mr-2" />
                 Add Your First Recipe
@@ -112,9 +340,34 @@ export function RecipesList({
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {filteredRecipes.map((recipe) => (
-            <Card key={recipe.id} className="hover:shadow-md transition-shadow">
-              <CardHeader>
+            <Card key={recipe.id} className="overflow-hidden hover:shadow-md transition-shadow">
+              {/* Cover photo; the card's gap already separates it from the header */}
+              {recipe.photos[0] && (
+                <button type="button" onClick={() => onViewRecipe(recipe.id)}>
+                  <RecipePhotoImage
+                    photo={recipe.photos[0]}
+                    size="thumb"
+                    alt={recipe.name}
+                    className="w-full h-40"
+                  />
+                </button>
+              )}
+              <CardHeader className={recipe.photos[0] ? 'pt-0' : undefined}>
                 <div className="flex items-start justify-between gap-2">
+                  {selectedIds && (
+                    <Checkbox
+                      className="mt-1"
+                      aria-label={`Select ${recipe.name}`}
+                      checked={selectedIds.includes(recipe.id)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') =>
+                        setSelectedIds(
+                          checked === true
+                            ? [...selectedIds, recipe.id]
+                            : selectedIds.filter((id) => id !== recipe.id)
+                        )
+                      }
+                    />
+                  )}
                   <div className="flex-1 min-w-0">
                     <CardTitle className="truncate">{recipe.name}</CardTitle>
                     <CardDescription className="line-clamp-2">
@@ -124,8 +377,10 @@ export function RecipesList({
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Recipe Metadata (Views, Cooks, Servings) */}
-                <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                <RecipeTagBadges recipe={recipe} />
+
+                {/* Recipe Metadata (Views, Cooks, Total Time, Servings) */}
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
                   <div className="flex items-center gap-1">
                     <Eye className="w-4 h-4" />
                     {recipe.viewCount}
@@ -134,7 +389,14 @@ export function RecipesList({
                     <ChefHat className="w-4 h-4" />
                     {recipe.cookCount}
                   </div>
+                  {getTotalMinutes(recipe) !== undefined && (
+                    <div className="flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {formatMinutes(getTotalMinutes(recipe)!)}
+                    </div>
+                  )}
                   <Badge variant="outline">{recipe.servings} servings</Badge>
+                  {recipe.parentId && <Badge variant="secondary">Variation</Badge>}
                 </div>
 
                 {/* Action Buttons */}
@@ -163,6 +425,14 @@ export function RecipesList({
                   >
                     <Edit className="w-4 h-4" />
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label="Duplicate as variation"
+                    onClick={() => setForkRecipe(recipe)}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -177,6 +447,54 @@ export function RecipesList({
         </div>
       )}
 
+      <VariationDialog
+        recipe={forkRecipe}
+        onCreate={(name) => {
+          if (forkRecipe) onForkRecipe(forkRecipe.id, name);
+          setForkRecipe(null);
+        }}
+        onClose={() => setForkRecipe(null)}
+      />
+
+      <RecipeTextImportDialog
+        open={isPasting}
+        measurements={measurements}
+        onImport={(text) => {
+          setIsPasting(false);
+          onImportText(text);
+        }}
+        onClose={() => setIsPasting(false)}
+      />
+
+      <RecipeExportDialog
+        recipes={exportList}
+        ingredients={ingredients}
+        measurements={measurements}
+        allRecipes={recipes}
+        onClose={() => setExportList(null)}
+      />
+
+      <WebPageImportDialog
+        open={isImportingPage}
+        measurements={measurements}
+        onImport={(recipe, photos) => {
+          setIsImportingPage(false);
+          onImportRecipe(recipe, photos);
+        }}
+        onClose={() => setIsImportingPage(false)}
+      />
+
+      <CollectionImportDialog
+        open={isImportingCollection}
+        measurements={measurements}
+        onImport={onImportCollection}
+        onEditRecipe={(recipeId) => {
+          setIsImportingCollection(false);
+          onEditRecipe(recipeId);
+        }}
+        onClose={() => setIsImportingCollection(false)}
+      />
+
       {/* Confirmation Dialog for Deletion */}
       <AlertDialog open={deleteRecipeId !== null} onOpenChange={() => setDeleteRecipeId(null)}>
         <AlertDialogContent>
@@ -0,0 +1,78 @@
+import { User, UserRole } from '../types';
+import { PermissionError } from '../lib/permissions';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+/**
+ * @interface UserRolesManagerProps
+ * @description Defines the user list shown to admins and the callback that changes a role.
+ */
+interface UserRolesManagerProps {
+  /** Every account on this device. */
+  users: User[];
+  /** The signed-in admin's ID, to mark them in the list. */
+  currentUserId: string;
+  /** Callback to give a user a new role. Throws a PermissionError when the change is not allowed. */
+  onChangeRole: (userId: string, role: UserRole) => void;
+}
+
+/**
+ * @component
+ * @name UserRolesManager
+ * @description Lets an admin see every account and make users admins or members.
+ * Admins manage the shared ingredient and measurement catalog; members can only change their private entries.
+ * @param {UserRolesManagerProps} props - The component properties.
+ * @returns {JSX.Element} The user role management card.
+ */
+export function UserRolesManager({ users, currentUserId, onChangeRole }: UserRolesManagerProps) {
+  /**
+   * @function handleChangeRole
+   * @description Changes a user's role, reporting PermissionErrors as toasts.
+   * @param {string} userId - The user whose role changes.
+   * @param {UserRole} role - The new role.
+   * @returns {void}
+   */
+  const handleChangeRole = (userId: string, role: UserRole) => {
+    try {
+      onChangeRole(userId, role);
+    } catch (err) {
+      toast.error(err instanceof PermissionError ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" style={{ color: '#6b8e6f' }} />
+          User Roles
+        </CardTitle>
+        <CardDescription>
+          Admins can change the shared ingredients and measurements; members add private ones for themselves
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center gap-2 p-3 border rounded-lg">
+              <span className="flex-1">{user.username}</span>
+              {user.id === currentUserId && <Badge variant="secondary">You</Badge>}
+              <Select value={user.role} onValueChange={(role: string) => handleChangeRole(user.id, role as UserRole)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="member">Member</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Recipe } from '../types';
+import { getDefaultVariationName } from '../lib/variations';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+/**
+ * @interface VariationDialogProps
+ * @description Props for the dialog that names a new variation of a recipe.
+ */
+interface VariationDialogProps {
+  /** The recipe to duplicate, or null when the dialog is closed. */
+  recipe: Recipe | null;
+  /** Callback with the chosen name, to create the variation. */
+  onCreate: (name: string) => void;
+  /** Callback to close the dialog without creating anything. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name VariationDialog
+ * @description Asks for the name of a variation before duplicating a recipe, suggesting one
+ * based on the original's name.
+ * @param {VariationDialogProps} props - The component properties.
+ * @returns {JSX.Element} The naming dialog.
+ */
+export function VariationDialog({ recipe, onCreate, onClose }: VariationDialogProps) {
+  const [name, setName] = useState('');
+
+  /**
+   * @effect Suggest a Name
+   * @description Fills in the suggested name each time the dialog opens for a recipe.
+   */
+  useEffect(() => {
+    if (recipe) setName(getDefaultVariationName(recipe));
+  }, [recipe]);
+
+  const trimmed = name.trim();
+
+  return (
+    <AlertDialog open={recipe !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Duplicate as Variation</AlertDialogTitle>
+          <AlertDialogDescription>
+            A copy of {recipe?.name} you can change freely. It stays linked to the original, so you can see what
+            differs and how often each version is cooked.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="variation-name">Variation name</Label>
+          <Input
+            id="variation-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && trimmed) onCreate(trimmed);
+            }}
+            autoFocus
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction disabled={!trimmed} onClick={() => onCreate(trimmed)}>
+            Create Variation
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { Measurement, RecipePhoto } from '../types';
+import { ParsedRecipe, findImageFiles } from '../lib/recipeImport';
+import { readJsonLdRecipes } from '../lib/recipeJsonLd';
+import { PhotoError, processPhoto, savePhotoBlobs } from '../lib/photos';
+import { formatMinutes } from '../lib/times';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { AlertCircle, FileCode, Loader2 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+
+/**
+ * @interface WebPageImportDialogProps
+ * @description Props for the dialog that imports a recipe from a saved web page.
+ */
+interface WebPageImportDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Units the user can see, so ingredient lines are read with their custom units too. */
+  measurements: Measurement[];
+  /** Callback with the chosen recipe and its stored photos, to open it for review. */
+  onImport: (recipe: ParsedRecipe, photos: RecipePhoto[]) => void;
+  /** Callback to close the dialog without importing. */
+  onClose: () => void;
+}
+
+/**
+ * @component
+ * @name WebPageImportDialog
+ * @description Reads the schema.org recipes embedded in a saved .html page, picked or dropped
+ * along with the images saved next to it, and previews the one to import. The recipe's photos are
+ * taken from those images (or from the page itself, when it embeds them) and stored before the
+ * recipe is opened in the form; nothing is downloaded.
+ * @param {WebPageImportDialogProps} props - The component properties.
+ * @returns {JSX.Element} The import dialog.
+ */
+export function WebPageImportDialog({ open, measurements, onImport, onClose }: WebPageImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  // Recipes found in the page, and the one to import
+  const [recipes, setRecipes] = useState<ParsedRecipe[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Images picked with the page, matched to the recipe's images by file name
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  /**
+   * @effect Reset on Open
+   * @description Starts each import with no page chosen.
+   */
+  useEffect(() => {
+    if (!open) return;
+    setFileName('');
+    setRecipes([]);
+    setSelectedIndex(0);
+    setImageFiles([]);
+    setError(null);
+  }, [open]);
+
+  /**
+   * @function readFiles
+   * @description Reads the recipes from the first HTML file among `files` and keeps any images.
+   * @param {File[]} files - The picked or dropped files.
+   * @returns {Promise<void>}
+   */
+  const readFiles = async (files: File[]) => {
+    const page = files.find((file) => /\.x?html?$/i.test(file.name) || file.type === 'text/html');
+    setImageFiles(files.filter((file) => file.type.startsWith('image/')));
+    setRecipes([]);
+    setSelectedIndex(0);
+    setError(null);
+    setFileName(page?.name ?? '');
+    if (!page) {
+      setError('Choose the saved .html file of the recipe page.');
+      return;
+    }
+    try {
+      const found = readJsonLdRecipes(await page.text(), measurements);
+      if (found.length === 0) {
+        setError('This page does not describe a recipe in a way we can read. Try pasting its text instead.');
+      }
+      setRecipes(found);
+    } catch {
+      setError('The file could not be read');
+    }
+  };
+
+  const recipe = recipes[selectedIndex];
+  const images = recipe ? findImageFiles(recipe.images ?? [], imageFiles) : { found: [], missing: [] };
+
+  /**
+   * @function importRecipe
+   * @description Stores the recipe's photos, then hands the recipe on. Images that cannot be used are
+   * reported and left out.
+   * @returns {Promise<void>}
+   */
+  const importRecipe = async () => {
+    if (!recipe) return;
+    setImporting(true);
+    const photos: RecipePhoto[] = [];
+    for (const file of images.found) {
+      try {
+        const { photo, full, thumb } = await processPhoto(file);
+        await savePhotoBlobs(photo.id, full, thumb);
+        photos.push(photo);
+      } catch (err) {
+        toast.error(err instanceof PhotoError ? err.message : `Could not add "${file.name}"`);
+      }
+    }
+    setImporting(false);
+    onImport(recipe, photos);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen: boolean) => !isOpen && !importing && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import from a Web Page</AlertDialogTitle>
+          <AlertDialogDescription>
+            Save the recipe page from your browser ("Web Page, Complete"), then choose the .html file. Add the images
+            saved with it to bring the recipe's photos along.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div
+          className={`flex flex-col items-center gap-3 p-6 border-2 border-dashed rounded-lg text-center transition-colors ${
+            dragging ? 'border-primary bg-accent' : 'border-muted'
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            readFiles(Array.from(e.dataTransfer.files));
+          }}
+        >
+          <FileCode className="w-8 h-8 text-muted-foreground" />
+          <Label htmlFor="web-page-file" className="text-sm text-muted-foreground">
+            {fileName || 'Drop the page and its images here, or'}
+          </Label>
+          <Input
+            id="web-page-file"
+            type="file"
+            accept=".html,.htm,text/html,image/*"
+            multiple
+            onChange={(e) => {
+              readFiles(Array.from(e.target.files ?? []));
+              // Allow picking the same files again
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>No recipe to import</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recipes.length > 1 && (
+          <div className="space-y-2">
+            <Label>This page has {recipes.length} recipes</Label>
+            <Select value={String(selectedIndex)} onValueChange={(value: string) => setSelectedIndex(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recipes.map((r, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {r.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {recipe && (
+          <div className="border rounded-lg p-4 space-y-1 bg-accent/30 text-sm">
+            <p className="font-medium">{recipe.name}</p>
+            {recipe.description && <p className="text-muted-foreground line-clamp-2">{recipe.description}</p>}
+            <p className="text-muted-foreground">
+              {recipe.ingredients.length} ingredients · {recipe.instructions.length} steps
+              {recipe.servings !== undefined && ` · serves ${recipe.servings}`}
+              {recipe.prepMinutes !== undefined && ` · prep ${formatMinutes(recipe.prepMinutes)}`}
+              {recipe.cookMinutes !== undefined && ` · cook ${formatMinutes(recipe.cookMinutes)}`}
+            </p>
+            {(recipe.images?.length ?? 0) > 0 && (
+              <p className="text-muted-foreground">
+                {images.found.length} of {recipe.images!.length} photos found
+                {images.missing.length > 0 && ' (add the images saved with the page to include the rest)'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={importing}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!recipe || importing}
+            onClick={(e: React.MouseEvent) => {
+              // Stay open while the photos are stored
+              e.preventDefault();
+              importRecipe();
+            }}
+          >
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Review Recipe
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
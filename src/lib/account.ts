@@ -0,0 +1,33 @@
+import { User } from '../types';
+import { verifyPassword } from './passwords';
+
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+/**
+ * Re-check the signed-in user's password before a sensitive change.
+ * Throws AccountError when it does not match.
+ */
+export async function requireCurrentPassword(user: User, password: string): Promise<void> {
+  const { valid } = await verifyPassword(password, user.password);
+  if (!valid) {
+    throw new AccountError('Current password is incorrect');
+  }
+}
+
+/**
+ * Check that `username` can be used by the user with id `userId`.
+ * Throws AccountError when it is blank or belongs to another account.
+ */
+export function validateUsername(username: string, users: User[], userId: string | null): void {
+  if (!username.trim()) {
+    throw new AccountError('Please enter a username');
+  }
+  if (users.some((u) => u.username === username && u.id !== userId)) {
+    throw new AccountError('Username already exists');
+  }
+}
@@ -0,0 +1,282 @@
+import { AppData } from '../types';
+
+// Every array-valued collection of AppData, persisted as its own unit
+export const COLLECTIONS = [
+  'users',
+  'recipes',
+  'ingredients',
+  'measurements',
+  'inventory',
+  'cookingSessions',
+  'authSessions',
+  'households',
+] as const;
+
+export type CollectionName = (typeof COLLECTIONS)[number];
+
+/** A record of one collection, e.g. `CollectionRecord<'recipes'>` is a Recipe. */
+export type CollectionRecord<K extends CollectionName = CollectionName> = AppData[K][number];
+
+/** The records of `collection` in `data`. */
+export function getCollection<K extends CollectionName>(data: AppData, collection: K): CollectionRecord<K>[] {
+  return data[collection];
+}
+
+/** `data` with the records of `collection` replaced by `records`. */
+export function withCollection<K extends CollectionName>(
+  data: AppData,
+  collection: K,
+  records: CollectionRecord<K>[]
+): AppData {
+  return { ...data, [collection]: records };
+}
+
+// Scalar fields of AppData stored alongside the collections
+export type AppMeta = Pick<AppData, 'version' | 'currentUserId'>;
+
+/**
+ * Incremental change to one collection.
+ * `order` lists every key in the collection so adapters that do not keep
+ * insertion order (IndexedDB sorts by key) can restore it on load.
+ */
+export interface CollectionPatch<K extends CollectionName = CollectionName> {
+  put: CollectionRecord<K>[];
+  remove: string[];
+  order: string[];
+}
+
+/**
+ * A persistence backend for AppData.
+ * `load` returns the raw stored data (possibly an older version) or null when empty;
+ * migration and validation happen in storage.ts, not here.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  load(): Promise<AppData | null>;
+  save(data: AppData): Promise<void>;
+  patch<K extends CollectionName>(collection: K, changes: CollectionPatch<K>): Promise<void>;
+  saveMeta(meta: AppMeta): Promise<void>;
+}
+
+// How each collection keys its records (see getRecordKey)
+const RECORD_KEYS: { [K in CollectionName]: (record: CollectionRecord<K>) => string } = {
+  users: (user) => user.id,
+  recipes: (recipe) => recipe.id,
+  ingredients: (ingredient) => ingredient.id,
+  measurements: (measurement) => measurement.id,
+  inventory: (item) => `${item.householdId ?? item.userId}:${item.ingredientId}:${item.measurementId}`,
+  authSessions: (session) => session.token,
+  cookingSessions: (session) => session.id,
+  households: (household) => household.id,
+};
+
+/**
+ * Stable key of a record within its collection.
+ * Inventory items have no id and are unique per pantry (household, or user outside one),
+ * ingredient and unit; login sessions are keyed by their token.
+ */
+export function getRecordKey<K extends CollectionName>(collection: K, record: CollectionRecord<K>): string {
+  return RECORD_KEYS[collection](record);
+}
+
+/**
+ * Compute the patch that turns `previous` into `next`.
+ * Records are compared by reference: state updates in App spread unchanged records through,
+ * so only records that were actually replaced are written.
+ * Returns null when nothing changed.
+ */
+export function diffCollection<K extends CollectionName>(
+  collection: K,
+  previous: CollectionRecord<K>[],
+  next: CollectionRecord<K>[]
+): CollectionPatch<K> | null {
+  if (previous === next) return null;
+
+  const previousByKey = new Map(previous.map((r) => [getRecordKey(collection, r), r]));
+  const order = next.map((r) => getRecordKey(collection, r));
+  const nextKeys = new Set(order);
+
+  const put = next.filter((r, i) => previousByKey.get(order[i]) !== r);
+  const remove = [...previousByKey.keys()].filter((key) => !nextKeys.has(key));
+
+  const orderChanged =
+    previous.length !== next.length ||
+    previous.some((r, i) => getRecordKey(collection, r) !== order[i]);
+
+  if (put.length === 0 && remove.length === 0 && !orderChanged) return null;
+  return { put, remove, order };
+}
+
+// Apply a patch to an in-memory collection, honouring the patch's key order
+function applyPatch<K extends CollectionName>(
+  collection: K,
+  records: CollectionRecord<K>[],
+  changes: CollectionPatch<K>
+): CollectionRecord<K>[] {
+  const byKey = new Map(records.map((r) => [getRecordKey(collection, r), r]));
+  changes.remove.forEach((key) => byKey.delete(key));
+  changes.put.forEach((r) => byKey.set(getRecordKey(collection, r), r));
+  return changes.order.filter((key) => byKey.has(key)).map((key) => byKey.get(key)!);
+}
+
+// --- localStorage ---
+
+/**
+ * Stores the whole AppData as one JSON blob under `storageKey`.
+ * Patches re-read the blob and rewrite it, so this keeps the original on-disk format
+ * for compatibility, and a patch never overwrites what another tab saved in the meantime.
+ */
+export function createLocalStorageAdapter(storageKey: string): StorageAdapter {
+  const read = (): AppData | null => {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : null;
+  };
+
+  const write = (data: AppData) => {
+    localStorage.setItem(storageKey, JSON.stringify(data));
+  };
+
+  return {
+    name: 'localStorage',
+
+    async load() {
+      return read();
+    },
+
+    async save(data) {
+      write(data);
+    },
+
+    async patch(collection, changes) {
+      const current = read();
+      if (!current) return;
+      write(withCollection(current, collection, applyPatch(collection, getCollection(current, collection) || [], changes)));
+    },
+
+    async saveMeta(meta) {
+      const current = read();
+      if (!current) return;
+      write({ ...current, ...meta });
+    },
+  };
+}
+
+// --- IndexedDB ---
+
+const DB_NAME = 'cucina';
+// Bumped whenever a collection is added, so the upgrade creates its object store
+const DB_VERSION = 3;
+const META_STORE = 'meta';
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Records use out-of-line keys from getRecordKey so inventory's composite key fits too
+      [...COLLECTIONS, META_STORE].forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores each collection in its own object store, one record per entry,
+ * so a change to one recipe or inventory item writes only that record.
+ * Collection order and scalar fields live in the `meta` store.
+ */
+export function createIndexedDBAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase());
+
+  return {
+    name: 'IndexedDB',
+
+    async load() {
+      const db = await getDb();
+      const tx = db.transaction([...COLLECTIONS, META_STORE], 'readonly');
+      const meta = tx.objectStore(META_STORE);
+
+      const version = await requestToPromise(meta.get('version'));
+      if (version === undefined) return null; // Nothing has been saved yet
+
+      const currentUserId = (await requestToPromise(meta.get('currentUserId'))) ?? null;
+      // Raw records, checked by storage.ts after loading
+      const collections: Partial<Record<CollectionName, unknown[]>> = {};
+
+      for (const collection of COLLECTIONS) {
+        const store = tx.objectStore(collection);
+        const [keys, values, order] = await Promise.all([
+          requestToPromise(store.getAllKeys()),
+          requestToPromise(store.getAll()),
+          requestToPromise(meta.get(`order:${collection}`)),
+        ]);
+        const byKey = new Map<string, unknown>(keys.map((key, i) => [String(key), values[i]]));
+        const ordered: string[] = (order || []).filter((key: string) => byKey.has(key));
+        const rest = [...byKey.keys()].filter((key) => !ordered.includes(key));
+        collections[collection] = [...ordered, ...rest].map((key) => byKey.get(key));
+      }
+
+      return { version, currentUserId, ...collections } as AppData;
+    },
+
+    async save(data) {
+      const db = await getDb();
+      const tx = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+      const meta = tx.objectStore(META_STORE);
+
+      COLLECTIONS.forEach((collection) => {
+        const store = tx.objectStore(collection);
+        const records: CollectionRecord[] = getCollection(data, collection) || [];
+        store.clear();
+        records.forEach((record) => store.put(record, getRecordKey(collection, record)));
+        meta.put(records.map((r) => getRecordKey(collection, r)), `order:${collection}`);
+      });
+      meta.put(data.version, 'version');
+      meta.put(data.currentUserId, 'currentUserId');
+
+      await transactionDone(tx);
+    },
+
+    async patch(collection, changes) {
+      const db = await getDb();
+      const tx = db.transaction([collection, META_STORE], 'readwrite');
+      const store = tx.objectStore(collection);
+
+      changes.remove.forEach((key) => store.delete(key));
+      changes.put.forEach((record) => store.put(record, getRecordKey(collection, record)));
+      tx.objectStore(META_STORE).put(changes.order, `order:${collection}`);
+
+      await transactionDone(tx);
+    },
+
+    async saveMeta(meta) {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      const store = tx.objectStore(META_STORE);
+      store.put(meta.version, 'version');
+      store.put(meta.currentUserId, 'currentUserId');
+      await transactionDone(tx);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { AppData, AuthSession } from '../types';
+
+/**
+ * Login sessions.
+ * Each login creates an AuthSession record in AppData and hands its token to the browser:
+ * sessionStorage by default (this tab only, gone when the browser closes), localStorage with
+ * "remember me". On load and while the app runs, the token is checked against its record,
+ * so logging out, expiry and idle timeouts end exactly that login and no other.
+ */
+
+const TOKEN_KEY = 'cucina-session-token';
+
+const HOUR = 60 * 60 * 1000;
+const SESSION_DURATION = 12 * HOUR;
+const REMEMBER_ME_DURATION = 30 * 24 * HOUR;
+/** Inactivity after which a session without "remember me" ends, for shared kitchen devices. */
+export const IDLE_TIMEOUT = 30 * 60 * 1000;
+/** Activity is written to the session record at most this often. */
+export const ACTIVITY_WRITE_INTERVAL = 60 * 1000;
+
+export type SessionStatus = 'valid' | 'expired' | 'idle' | 'missing';
+
+function createToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function createAuthSession(userId: string, rememberMe: boolean, now = Date.now()): AuthSession {
+  return {
+    token: createToken(),
+    userId,
+    createdAt: now,
+    expiresAt: now + (rememberMe ? REMEMBER_ME_DURATION : SESSION_DURATION),
+    lastActiveAt: now,
+    rememberMe,
+  };
+}
+
+export function findAuthSession(data: AppData, token: string | null): AuthSession | undefined {
+  return token ? data.authSessions.find((s) => s.token === token) : undefined;
+}
+
+export function getSessionStatus(session: AuthSession | undefined, now = Date.now()): SessionStatus {
+  if (!session) return 'missing';
+  if (now >= session.expiresAt) return 'expired';
+  if (!session.rememberMe && now - session.lastActiveAt >= IDLE_TIMEOUT) return 'idle';
+  return 'valid';
+}
+
+/**
+ * Log in the user of `token` if its session is still valid, and drop sessions that have ended.
+ * Used when the app starts, in place of whatever `currentUserId` was stored.
+ */
+export function resumeSession(data: AppData, token: string | null, now = Date.now()): AppData {
+  const authSessions = data.authSessions.filter((s) => getSessionStatus(s, now) === 'valid');
+  const session = authSessions.find((s) => s.token === token);
+  return {
+    ...data,
+    authSessions: authSessions.length === data.authSessions.length ? data.authSessions : authSessions,
+    currentUserId: session ? session.userId : null,
+  };
+}
+
+// --- Token in browser storage ---
+
+export function readSessionToken(): string | null {
+  try {
+    return sessionStorage.getItem(TOKEN_KEY) ?? localStorage.getItem(TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function storeSessionToken(token: string, rememberMe: boolean): void {
+  clearSessionToken();
+  (rememberMe ? localStorage : sessionStorage).setItem(TOKEN_KEY, token);
+}
+
+export function clearSessionToken(): void {
+  sessionStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+}
@@ -0,0 +1,446 @@
+import { AppData, Ingredient, Measurement, Recipe, RecipeContent, InventoryItem, CookingSession, User, Household } from '../types';
+import { DATA_VERSION, migrateData, generateId } from './storage';
+import { OwnerScope, getOwnerScope, isOwnedBy, withOwner } from './households';
+import { canEditCatalogItem, canSeeCatalogItem, isAdmin } from './permissions';
+import { MigrationReport } from './migrations';
+import { dateStamp } from './files';
+import { repairAppData } from './schema';
+
+export const BACKUP_FORMAT = 'cucina-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * 'all' backs up every user and household; 'user' only the recipes and inventory the exporting user
+ * sees (their household's, when they have one) and their own cooking sessions.
+ * Recipe photos are backed up as records only; their images stay in this browser (see lib/photos.ts).
+ */
+export type BackupScope = 'all' | 'user';
+
+/** 'replace' swaps the backed-up records in; 'merge' adds to and updates what is already there. */
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Self-describing backup file.
+ * `data.version` is the AppData schema version at export time, so older backups
+ * can be migrated on import just like stored data.
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  scope: BackupScope;
+  // Username of the exporting user (always set for 'user' backups)
+  exportedBy: string | null;
+  data: AppData;
+}
+
+export interface RestoreSummary {
+  recipes: number;
+  inventory: number;
+  cookingSessions: number;
+  users: number;
+  // Catalog items added; name matches are reused rather than counted
+  ingredients: number;
+  measurements: number;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// --- Export ---
+
+export function createBackup(data: AppData, scope: BackupScope, userId: string | null): BackupFile {
+  const user = data.users.find((u) => u.id === userId);
+  if (scope === 'user' && !user) {
+    throw new BackupError('No user is logged in');
+  }
+
+  // A personal backup takes shared records along as the user's own
+  const visible = <T extends { userId: string; householdId?: string }>(items: T[]) => {
+    if (scope === 'all') return items;
+    const owner = getOwnerScope(data, user!.id);
+    return items.filter((item) => isOwnedBy(item, owner)).map((item) => withOwner(item, { userId: item.userId }));
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    scope,
+    exportedBy: user?.username ?? null,
+    data: {
+      // User records (and their passwords) only travel in full backups
+      users: scope === 'all' ? data.users : [],
+      recipes: visible(data.recipes),
+      // The catalog is always included so ids in recipes and inventory can be resolved;
+      // a personal backup leaves out other users' private entries
+      ingredients: scope === 'all' ? data.ingredients : data.ingredients.filter((i) => canSeeCatalogItem(data, user!, i)),
+      measurements:
+        scope === 'all' ? data.measurements : data.measurements.filter((m) => canSeeCatalogItem(data, user!, m)),
+      inventory: visible(data.inventory),
+      cookingSessions: scope === 'all' ? data.cookingSessions : data.cookingSessions.filter((s) => s.userId === userId),
+      households: scope === 'all' ? data.households : [],
+      // Login sessions never leave the device
+      authSessions: [],
+      currentUserId: null,
+      version: data.version ?? DATA_VERSION,
+    },
+  };
+}
+
+export function getBackupFileName(backup: BackupFile): string {
+  const who = backup.scope === 'user' ? `-${backup.exportedBy}` : '';
+  return `cucina-backup${who}-${dateStamp(backup.exportedAt)}.json`;
+}
+
+// --- Import ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse and validate the text of a backup file, migrating its data to the current version.
+ * Damaged records are repaired or dropped by the schema and listed in `issues`;
+ * a BackupError is thrown only when the file is not a usable backup at all.
+ */
+export function parseBackup(text: string): {
+  backup: BackupFile;
+  migration: MigrationReport | null;
+  issues: string[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('The file is not a Cucina backup');
+  }
+  const { formatVersion, exportedAt, scope, exportedBy, data: rawData } = parsed;
+  if (typeof formatVersion !== 'number' || formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError('The backup was made by a newer version of Cucina');
+  }
+  if (!isRecord(rawData)) {
+    throw new BackupError('The backup contains no data');
+  }
+  const version = typeof rawData.version === 'number' ? rawData.version : undefined;
+  if (version !== undefined && version > DATA_VERSION) {
+    throw new BackupError(`The backup data is version ${version}, newer than this app supports`);
+  }
+
+  let migration: MigrationReport | null = null;
+  // Records are only checked by repairAppData below; migrations tolerate missing collections
+  let data = rawData as unknown as AppData;
+  if (!version || version < DATA_VERSION) {
+    try {
+      ({ data, report: migration } = migrateData(data));
+    } catch (e) {
+      throw new BackupError(`The backup could not be upgraded: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const { data: repaired, issues } = repairAppData(data);
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      formatVersion,
+      exportedAt: typeof exportedAt === 'number' ? exportedAt : 0,
+      scope: scope === 'user' ? 'user' : 'all',
+      exportedBy: typeof exportedBy === 'string' ? exportedBy : null,
+      data: { ...repaired, authSessions: [], currentUserId: null },
+    },
+    migration,
+    issues,
+  };
+}
+
+/**
+ * Merge incoming catalog items into existing ones, de-duplicating by name (case-insensitive)
+ * like mergeDefaultItems. A private item matches its owner's own entries or shared ones, never
+ * another user's. Returns the merged list, the incoming→existing id map, and how many were added.
+ */
+function mergeCatalog<T extends { id: string; name: string; ownerId?: string }>(
+  existing: T[],
+  incoming: T[]
+): { items: T[]; idMap: Map<string, string>; added: T[] } {
+  const nameKey = (name: string, ownerId?: string) => `${ownerId ?? ''}:${name.toLowerCase()}`;
+  const byName = new Map(existing.map((item) => [nameKey(item.name, item.ownerId), item.id]));
+  const ids = new Set(existing.map((item) => item.id));
+  const idMap = new Map<string, string>();
+  const added: T[] = [];
+
+  incoming.forEach((item) => {
+    const match = byName.get(nameKey(item.name, item.ownerId)) ?? byName.get(nameKey(item.name));
+    if (match) {
+      idMap.set(item.id, match);
+      return;
+    }
+    // A different item already uses this id, so the incoming one needs a fresh id
+    const id = ids.has(item.id) ? generateId() : item.id;
+    idMap.set(item.id, id);
+    ids.add(id);
+    byName.set(nameKey(item.name, item.ownerId), id);
+    added.push({ ...item, id });
+  });
+
+  return { items: [...existing, ...added], idMap, added };
+}
+
+// Add each of `incoming`'s conversions that `measurement` does not already define
+function mergeConversions(measurement: Measurement, incoming: Measurement): Measurement {
+  const known = new Set(measurement.conversions.map((c) => c.toMeasurementId));
+  const extra = incoming.conversions.filter((c) => !known.has(c.toMeasurementId));
+  return extra.length > 0 ? { ...measurement, conversions: [...measurement.conversions, ...extra] } : measurement;
+}
+
+const mapId = (map: Map<string, string>, id: string) => map.get(id) ?? id;
+
+/**
+ * Roles for the users of a full backup restored in 'replace' mode. Roles are never taken from the
+ * file: users already here (by id, else by username) keep theirs and others become members. If that
+ * leaves no admin, the first user is made one, as when repairing stored data.
+ */
+function keepRoles(current: User[], incoming: User[]): User[] {
+  const users = incoming.map((user): User => {
+    const match = current.find((u) => u.id === user.id) ?? current.find((u) => u.username === user.username);
+    return { ...user, role: match?.role ?? 'member' };
+  });
+  return users.length > 0 && !users.some((u) => u.role === 'admin')
+    ? users.map((u, i) => (i === 0 ? { ...u, role: 'admin' } : u))
+    : users;
+}
+
+/**
+ * Restore a parsed backup into `current`. Full backups should only be restored by an admin; see App.
+ *
+ * - A full backup in 'replace' mode becomes the whole data set, except that users keep their current roles.
+ * - Otherwise the catalog is merged by name and records are upserted;
+ *   in 'replace' mode the affected users' recipes, inventory and sessions are cleared first.
+ * - A 'user' backup is always restored into the currently logged-in user, and into their household if they have one.
+ *   Unless that user is an admin, its catalog entries become private to them and shared units are left as they are.
+ */
+export function restoreBackup(
+  current: AppData,
+  backup: BackupFile,
+  mode: RestoreMode
+): { data: AppData; summary: RestoreSummary } {
+  const incoming = backup.data;
+
+  if (backup.scope === 'all' && mode === 'replace') {
+    const incomingUserIds = new Set(incoming.users.map((u) => u.id));
+    return {
+      data: {
+        ...incoming,
+        users: keepRoles(current.users, incoming.users),
+        // Logins on this device survive for users that are still there
+        authSessions: current.authSessions.filter((s) => incomingUserIds.has(s.userId)),
+        currentUserId: current.currentUserId && incomingUserIds.has(current.currentUserId) ? current.currentUserId : null,
+      },
+      summary: {
+        recipes: incoming.recipes.length,
+        inventory: incoming.inventory.length,
+        cookingSessions: incoming.cookingSessions.length,
+        users: incoming.users.length,
+        ingredients: incoming.ingredients.length,
+        measurements: incoming.measurements.length,
+      },
+    };
+  }
+
+  if (backup.scope === 'user' && !current.currentUserId) {
+    throw new BackupError('Log in to restore a personal backup');
+  }
+
+  // --- Users: match by username, otherwise add ---
+  const userMap = new Map<string, string>();
+  const addedUsers: User[] = [];
+  if (backup.scope === 'user') {
+    // Every record in a personal backup belongs to the exporting user
+    const ownerIds = new Set([...incoming.recipes, ...incoming.inventory, ...incoming.cookingSessions].map((r) => r.userId));
+    ownerIds.forEach((id) => userMap.set(id, current.currentUserId!));
+  } else {
+    const existingIds = new Set(current.users.map((u) => u.id));
+    incoming.users.forEach((user) => {
+      const match = current.users.find((u) => u.username === user.username);
+      if (match) {
+        userMap.set(user.id, match.id);
+        return;
+      }
+      const id = existingIds.has(user.id) ? generateId() : user.id;
+      existingIds.add(id);
+      userMap.set(user.id, id);
+      // Roles are not taken from a backup; an admin can promote restored users
+      addedUsers.push({ ...user, id, role: 'member' });
+    });
+  }
+
+  // --- Households: added by id; records keep a household only if it exists after the restore ---
+  const addedHouseholds: Household[] =
+    backup.scope === 'all' ? incoming.households.filter((h) => !current.households.some((c) => c.id === h.id)) : [];
+  const households = [...current.households, ...addedHouseholds];
+  const householdIds = new Set(households.map((h) => h.id));
+  const ownerOf = (record: { userId: string; householdId?: string }): OwnerScope => {
+    const userId = mapId(userMap, record.userId);
+    if (backup.scope === 'user') return getOwnerScope(current, userId);
+    return record.householdId && householdIds.has(record.householdId)
+      ? { userId, householdId: record.householdId }
+      : { userId };
+  };
+
+  // --- Catalog: private entries stay private to their (restored) owner ---
+  // A member restoring a personal backup may not add to or change the shared catalog, so everything
+  // it brings becomes their own, and shared units keep their conversions
+  const restorer = current.users.find((u) => u.id === current.currentUserId);
+  const keepsShared = backup.scope === 'all' || isAdmin(restorer);
+  const withRestoredOwner = <T extends { ownerId?: string }>(item: T): T => {
+    if (backup.scope === 'user') return item.ownerId || !keepsShared ? { ...item, ownerId: current.currentUserId! } : item;
+    return item.ownerId ? { ...item, ownerId: mapId(userMap, item.ownerId) } : item;
+  };
+  const mayChange = (measurement: Measurement) =>
+    backup.scope === 'all' || (!!restorer && canEditCatalogItem(restorer, measurement));
+  const ingredientMerge = mergeCatalog<Ingredient>(current.ingredients, incoming.ingredients.map(withRestoredOwner));
+  const measurementMerge = mergeCatalog<Measurement>(current.measurements, incoming.measurements.map(withRestoredOwner));
+  const measurementMap = measurementMerge.idMap;
+  const ingredientMap = ingredientMerge.idMap;
+
+  const incomingMeasurements = new Map(
+    incoming.measurements.map((m) => [
+      mapId(measurementMap, m.id),
+      {
+        ...m,
+        conversions: m.conversions.map((c) => ({ ...c, toMeasurementId: mapId(measurementMap, c.toMeasurementId) })),
+      },
+    ])
+  );
+  const addedMeasurementIds = new Set(measurementMerge.added.map((m) => m.id));
+  const measurements = measurementMerge.items.map((m) => {
+    const other = incomingMeasurements.get(m.id);
+    if (!other) return m;
+    // Newly added units take the remapped conversions; matched units gain any they lacked
+    if (addedMeasurementIds.has(m.id)) return { ...m, conversions: other.conversions };
+    return mayChange(m) ? mergeConversions(m, other) : m;
+  });
+
+  // --- User-owned records ---
+  const affectedUsers = new Set(userMap.values());
+  const affectedScopes = [...affectedUsers].map((id) => getOwnerScope(current, id));
+  const keep = <T extends { userId: string; householdId?: string }>(items: T[]) =>
+    mode === 'replace' ? items.filter((item) => !affectedScopes.some((scope) => isOwnedBy(item, scope))) : items;
+
+  let recipes = keep(current.recipes);
+  let inventory = keep(current.inventory);
+  let cookingSessions =
+    mode === 'replace' ? current.cookingSessions.filter((s) => !affectedUsers.has(s.userId)) : current.cookingSessions;
+
+  // Ids are settled first so sub-recipe lines can point at recipes restored after them
+  const recipeMap = new Map<string, string>();
+  incoming.recipes.forEach((recipe) => {
+    const userId = mapId(userMap, recipe.userId);
+    const clash = recipes.some((r) => r.id === recipe.id && r.userId !== userId);
+    recipeMap.set(recipe.id, clash ? generateId() : recipe.id);
+  });
+
+  // Catalog and recipe ids in a recipe's content, shared by the recipe and its revisions
+  const remapContent = <T extends RecipeContent>(content: T): T => ({
+    ...content,
+    ...(content.yield && {
+      yield: {
+        ...content.yield,
+        measurementId: mapId(measurementMap, content.yield.measurementId),
+        ...(content.yield.ingredientId && { ingredientId: mapId(ingredientMap, content.yield.ingredientId) }),
+      },
+    }),
+    ingredients: content.ingredients.map((ing) => ({
+      ...ing,
+      ingredientId: mapId(ingredientMap, ing.ingredientId),
+      measurementId: mapId(measurementMap, ing.measurementId),
+      ...(ing.alternateIds && { alternateIds: ing.alternateIds.map((id) => mapId(ingredientMap, id)) }),
+      ...(ing.recipeId && { recipeId: mapId(recipeMap, ing.recipeId) }),
+    })),
+  });
+
+  incoming.recipes.forEach((recipe) => {
+    const id = mapId(recipeMap, recipe.id);
+    const restored: Recipe = withOwner(
+      {
+        ...remapContent(recipe),
+        id,
+        userId: mapId(userMap, recipe.userId),
+        ...(recipe.parentId && { parentId: mapId(recipeMap, recipe.parentId) }),
+        ...(recipe.revisions && {
+          revisions: recipe.revisions.map((revision) => ({
+            ...revision,
+            userId: mapId(userMap, revision.userId),
+            content: remapContent(revision.content),
+          })),
+        }),
+      },
+      ownerOf(recipe)
+    );
+    recipes = recipes.some((r) => r.id === id)
+      ? recipes.map((r) => (r.id === id ? restored : r))
+      : [...recipes, restored];
+  });
+
+  incoming.inventory.forEach((item) => {
+    const owner = ownerOf(item);
+    const restored: InventoryItem = withOwner(
+      {
+        ...item,
+        userId: owner.userId,
+        ingredientId: mapId(ingredientMap, item.ingredientId),
+        measurementId: mapId(measurementMap, item.measurementId),
+      },
+      owner
+    );
+    const sameKey = (i: InventoryItem) =>
+      isOwnedBy(i, owner) &&
+      i.ingredientId === restored.ingredientId &&
+      i.measurementId === restored.measurementId;
+    inventory = inventory.some(sameKey)
+      ? inventory.map((i) => (sameKey(i) ? restored : i))
+      : [...inventory, restored];
+  });
+
+  incoming.cookingSessions.forEach((session) => {
+    const userId = mapId(userMap, session.userId);
+    const clash = cookingSessions.find((s) => s.id === session.id && s.userId !== userId);
+    const restored: CookingSession = {
+      ...session,
+      id: clash ? generateId() : session.id,
+      userId,
+      recipeId: mapId(recipeMap, session.recipeId),
+    };
+    cookingSessions = cookingSessions.some((s) => s.id === restored.id)
+      ? cookingSessions.map((s) => (s.id === restored.id ? restored : s))
+      : [...cookingSessions, restored];
+  });
+
+  return {
+    data: {
+      ...current,
+      users: [...current.users, ...addedUsers],
+      households,
+      ingredients: ingredientMerge.items,
+      measurements,
+      recipes,
+      inventory,
+      cookingSessions,
+    },
+    summary: {
+      recipes: incoming.recipes.length,
+      inventory: incoming.inventory.length,
+      cookingSessions: incoming.cookingSessions.length,
+      users: addedUsers.length,
+      ingredients: ingredientMerge.added.length,
+      measurements: measurementMerge.added.length,
+    },
+  };
+}
@@ -1,4 +1,6 @@
-import { Measurement } from '../types';
+import { Measurement, Recipe, RecipeIngredient } from '../types';
+import { getLineIngredientIds } from './ingredientLines';
+import { isSubRecipeLine } from './subRecipes';
 /**
  * Convert a quantity from one measurement unit to another
  * Returns the converted amount or null if no conversion path exists
@@ -85,15 +87,16 @@ export function hasEnoughInventory(
 
 /**
  * Deduct ingredients from inventory, automatically converting units as needed
+ * Only items for which `inPantry` is true are drawn from (a user's own or their household's)
  * Returns the updated inventory array
  */
-export function deductFromInventory(
+export function deductFromInventory<T extends { ingredientId: string; measurementId: string; quantity: number }>(
   ingredientId: string,
   requiredMeasurementId: string,
   requiredQuantity: number,
-  inventory: Array<{ userId: string; ingredientId: string; measurementId: string; quantity: number }>,
+  inventory: T[],
   measurements: Measurement[],
-  userId: string
+  inPantry: (item: T) => boolean
 ): {
   updatedInventory: typeof inventory;
   deducted: Array<{ measurementId: string; quantity: number }>;
@@ -102,11 +105,11 @@ export function deductFromInventory(
   let remainingToDeduct = requiredQuantity;
   let updatedInventory = [...inventory];
 
-  // Find all inventory items for this ingredient and user
+  // Find all inventory items for this ingredient in the pantry
   const relevantItems = updatedInventory
     .map((item, index) => ({ item, index }))
     .filter(
-      ({ item }) => item.userId === userId && item.ingredientId === ingredientId
+      ({ item }) => inPantry(item) && item.ingredientId === ingredientId
     );
 
   // Sort by preference: exact unit match first, then convertible units
@@ -170,3 +173,169 @@ export function deductFromInventory(
 
   return { updatedInventory, deducted };
 }
+
+type StockItem = { ingredientId: string; measurementId: string; quantity: number };
+
+/** How one recipe line is covered by the pantry; see planRecipeLines. */
+export interface LineStock {
+  // The ingredient drawn on: the line's own, the alternate that is in stock, or a sub-recipe's
+  // prepared batch; empty when a sub-recipe is made from its own ingredients
+  ingredientId: string;
+  measurementId: string;
+  requiredAmount: number;
+  hasEnough: boolean;
+  available: number;
+  // Sub-recipe lines only: batches of the sub-recipe needed, null when that cannot be worked out
+  batches?: number | null;
+  // Sub-recipe lines made from scratch: the stock of each of the sub-recipe's lines
+  subLines?: LineStock[];
+}
+
+/**
+ * How many batches of `subRecipe`, as written, a sub-recipe line asks for: its quantity is in
+ * servings, or in the sub-recipe's yield unit (converted if need be) when the line has a unit.
+ * Returns null when the amount cannot be worked out.
+ */
+export function getSubRecipeBatches(line: RecipeIngredient, subRecipe: Recipe, measurements: Measurement[]): number | null {
+  if (!line.measurementId) return line.quantity / subRecipe.servings;
+  if (!subRecipe.yield) return null;
+  const amount = convertMeasurement(line.measurementId, subRecipe.yield.measurementId, line.quantity, measurements);
+  return amount === null ? null : amount / subRecipe.yield.quantity;
+}
+
+interface PlanContext<T> {
+  measurements: Measurement[];
+  inPantry: (item: T) => boolean;
+  recipes: Recipe[];
+  // Recipes being expanded, outermost first, so a cycle in bad data cannot recurse forever
+  usedBy: string[];
+}
+
+// Cover an ingredient line with its own ingredient or the first alternate with enough in stock
+function planIngredientLine<T extends StockItem>(
+  line: RecipeIngredient,
+  scale: number,
+  inventory: T[],
+  { measurements, inPantry }: PlanContext<T>
+): { stock: LineStock; inventory: T[] } {
+  const requiredAmount = line.quantity * scale;
+  const pantry = inventory.filter(inPantry);
+  const candidates = getLineIngredientIds(line).map((ingredientId) => ({
+    ingredientId,
+    ...hasEnoughInventory(ingredientId, line.measurementId, requiredAmount, pantry, measurements),
+  }));
+  const { ingredientId, hasEnough, available } =
+    candidates.find((c) => c.hasEnough) ??
+    candidates.reduce((best, c) => (c.available > best.available ? c : best));
+
+  return {
+    stock: { ingredientId, measurementId: line.measurementId, requiredAmount, hasEnough, available },
+    inventory: deductFromInventory(ingredientId, line.measurementId, requiredAmount, inventory, measurements, inPantry)
+      .updatedInventory,
+  };
+}
+
+// Cover a sub-recipe line with a prepared batch from the pantry, or else with the sub-recipe's own lines
+function planSubRecipeLine<T extends StockItem>(
+  line: RecipeIngredient & { recipeId: string },
+  scale: number,
+  inventory: T[],
+  context: PlanContext<T>
+): { stock: LineStock; inventory: T[] } {
+  const { measurements, inPantry, recipes, usedBy } = context;
+  const requiredAmount = line.quantity * scale;
+  const subRecipe = recipes.find((r) => r.id === line.recipeId);
+  const batches =
+    subRecipe && !usedBy.includes(subRecipe.id) ? getSubRecipeBatches(line, subRecipe, measurements) : null;
+  if (!subRecipe || batches === null) {
+    const stock = { ingredientId: '', measurementId: line.measurementId, requiredAmount, hasEnough: false, available: 0, batches: null };
+    return { stock, inventory };
+  }
+
+  const needed = batches * scale;
+  const recipeYield = subRecipe.yield;
+  if (recipeYield?.ingredientId) {
+    const amount = needed * recipeYield.quantity;
+    const { hasEnough, available } = hasEnoughInventory(
+      recipeYield.ingredientId,
+      recipeYield.measurementId,
+      amount,
+      inventory.filter(inPantry),
+      measurements
+    );
+    if (hasEnough) {
+      return {
+        stock: {
+          ingredientId: recipeYield.ingredientId,
+          measurementId: recipeYield.measurementId,
+          requiredAmount: amount,
+          hasEnough,
+          available,
+          batches: needed,
+        },
+        inventory: deductFromInventory(
+          recipeYield.ingredientId,
+          recipeYield.measurementId,
+          amount,
+          inventory,
+          measurements,
+          inPantry
+        ).updatedInventory,
+      };
+    }
+  }
+
+  const made = planLines(subRecipe.ingredients, needed, inventory, { ...context, usedBy: [...usedBy, subRecipe.id] });
+  return {
+    stock: {
+      ingredientId: '',
+      measurementId: line.measurementId,
+      requiredAmount,
+      hasEnough: made.lines.every((stock, i) => stock.hasEnough || subRecipe.ingredients[i].optional),
+      available: 0,
+      batches: needed,
+      subLines: made.lines,
+    },
+    inventory: made.inventory,
+  };
+}
+
+function planLines<T extends StockItem>(
+  lines: RecipeIngredient[],
+  scale: number,
+  inventory: T[],
+  context: PlanContext<T>
+): { lines: LineStock[]; inventory: T[] } {
+  let remaining = inventory;
+  const planned = lines.map((line) => {
+    const { stock, inventory: after } = isSubRecipeLine(line)
+      ? planSubRecipeLine(line, scale, remaining, context)
+      : planIngredientLine(line, scale, remaining, context);
+    if (stock.hasEnough || !line.optional) remaining = after;
+    return stock;
+  });
+  return { lines: planned, inventory: remaining };
+}
+
+/**
+ * Work out how the pantry covers a recipe's lines, scaled by `scale`, taking them in order so
+ * an ingredient used by several lines is only counted once.
+ * Each ingredient line uses the first of its ingredient and alternates with enough in stock, or else
+ * the one with the most. A sub-recipe line (looked up in `recipes`) uses a prepared batch when the
+ * pantry has enough of one, and otherwise needs the sub-recipe's own lines, scaled.
+ * Lines are drawn from the returned inventory as they go, except optional lines that are not fully
+ * in stock, which are simply left out.
+ * Only items for which `inPantry` is true are counted and drawn from.
+ * `recipeId` is the recipe the lines belong to, if any, so it is never expanded inside itself.
+ */
+export function planRecipeLines<T extends StockItem>(
+  lines: RecipeIngredient[],
+  scale: number,
+  inventory: T[],
+  measurements: Measurement[],
+  inPantry: (item: T) => boolean,
+  recipes: Recipe[] = [],
+  recipeId?: string
+): { lines: LineStock[]; inventory: T[] } {
+  return planLines(lines, scale, inventory, { measurements, inPantry, recipes, usedBy: recipeId ? [recipeId] : [] });
+}
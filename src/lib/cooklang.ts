@@ -0,0 +1,169 @@
+import { ParsedIngredientLine, ParsedRecipe } from './recipeImport';
+import { COOKLANG_GATHER_STEP } from './recipeExport';
+import { parseAmount, parseDuration } from './recipeText';
+
+/**
+ * Reading Cooklang (.cook) recipes. Cooklang writes a recipe as its steps, with ingredients
+ * (@flour{500%g}), cookware (#pan) and timers (~{10%minutes}) marked where they are used, and
+ * metadata as ">> key: value" lines or a front matter block. Each ingredient mention with an
+ * amount becomes a line; a later mention without one only refers back to it.
+ */
+
+// @name{amount%unit}(note) or @word; the name may start with ./ to use another recipe.
+// Names of several words end at the braces, and cannot run over punctuation that ends a phrase.
+const INGREDIENT_PATTERN = /@([&?+-]*)(?:([^@#~{}\n,;:!?()]+?)\{([^}]*)\}|([\p{L}\p{N}_'-]+))(?:\(([^)]*)\))?/gu;
+const COOKWARE_PATTERN = /#(?:([^@#~{}\n,;:!?()]+?)\{[^}]*\}|([\p{L}\p{N}_'-]+))/gu;
+const TIMER_PATTERN = /~([^@#~{}\n]*?)\{([^}]*)\}/g;
+const SECTION_PATTERN = /^=+\s*(.*?)\s*=*$/;
+
+/** Amount and unit in braces, such as "500%g", "=2%tsp", "1/2" or "a pinch". */
+function readAmount(text: string): Pick<ParsedIngredientLine, 'quantity' | 'unit'> & { extra?: string } {
+  const [amount, unit] = text.replace(/^=/, '').split('%').map((part) => part.trim());
+  if (!amount) return {};
+  // Ranges such as "2-3" take the lower amount
+  const quantity = parseAmount(amount.split(/\s*[-–]\s*/)[0]);
+  if (Number.isNaN(quantity)) return { extra: unit ? `${amount} ${unit}` : amount };
+  return { quantity, ...(unit && { unit }) };
+}
+
+/** Minutes in a metadata time such as "20 minutes", "1 hour" or "45"; undefined when there are none. */
+function readMinutes(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value);
+  return parseDuration(value);
+}
+
+/**
+ * Metadata from a YAML front matter block and ">> key: value" lines, with keys in lowercase,
+ * and the remaining lines without comments.
+ */
+function readMetadata(lines: string[]): { metadata: Map<string, string>; body: string[] } {
+  const metadata = new Map<string, string>();
+  let body = lines;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0) {
+      let key = '';
+      lines.slice(1, end).forEach((line) => {
+        const pair = line.match(/^([^:\s-][^:]*):\s*(.*)$/);
+        const item = line.match(/^\s*-\s+(.*)$/);
+        if (pair) {
+          key = pair[1].trim().toLowerCase();
+          metadata.set(key, pair[2].replace(/^\[(.*)\]$/, '$1').trim());
+        } else if (item && key) {
+          // A list under the key before
+          metadata.set(key, [metadata.get(key), item[1].trim()].filter(Boolean).join(', '));
+        }
+      });
+      body = lines.slice(end + 1);
+    }
+  }
+  body = body
+    .join('\n')
+    .replace(/\[-[\s\S]*?-\]/g, '')
+    .replace(/--.*$/gm, '')
+    .split('\n');
+  body = body.filter((line) => {
+    const pair = line.match(/^\s*>>\s*([^:]+):\s*(.*)$/);
+    if (pair) metadata.set(pair[1].trim().toLowerCase(), pair[2].trim());
+    return !pair;
+  });
+  return { metadata, body };
+}
+
+/** Read a Cooklang recipe; `fileName` names it when its metadata has no title. Units are left as written. */
+export function parseCooklang(text: string, fileName: string): ParsedRecipe {
+  const { metadata, body } = readMetadata(text.replace(/\r\n?/g, '\n').split('\n'));
+  const get = (...keys: string[]) => keys.map((key) => metadata.get(key)).find((value) => value);
+
+  const ingredients: ParsedIngredientLine[] = [];
+  const instructions: string[] = [];
+  const notes: string[] = [];
+  let section: string | undefined;
+
+  // Steps are paragraphs: lines up to a blank line
+  const paragraphs: { text: string; section?: string }[] = [];
+  let current: string[] = [];
+  const endParagraph = () => {
+    if (current.length > 0) paragraphs.push({ text: current.join(' '), section });
+    current = [];
+  };
+  body.forEach((raw) => {
+    const line = raw.trim();
+    const heading = line.match(SECTION_PATTERN);
+    if (!line) {
+      endParagraph();
+    } else if (heading) {
+      endParagraph();
+      section = heading[1] || undefined;
+    } else if (line.startsWith('>')) {
+      endParagraph();
+      notes.push(line.replace(/^>\s*/, ''));
+    } else {
+      current.push(line);
+    }
+  });
+  endParagraph();
+
+  paragraphs.forEach((paragraph) => {
+    const step = paragraph.text
+      .replace(INGREDIENT_PATTERN, (...groups: string[]) => {
+        const [, modifiers, longName, amount, word, note] = groups as (string | undefined)[];
+        const written = (longName ?? word ?? '').trim();
+        const recipePath = written.startsWith('./') ? written.slice(2).replace(/\.cook$/i, '') : undefined;
+        const name = recipePath ? recipePath.split('/').pop()!.trim() : written;
+        const { extra, ...parsedAmount } = readAmount(amount ?? '');
+        const details = [extra, ...(note ?? '').split(',')].map((part) => part?.trim()).filter(Boolean) as string[];
+        const optional = !!modifiers?.includes('?') || details.some((part) => /^optional$/i.test(part));
+        const kept = details.filter((part) => !/^optional$/i.test(part));
+        const known = ingredients.some((line) => line.name.toLowerCase() === name.toLowerCase());
+        // A mention without an amount of an ingredient already listed only refers back to it
+        if (parsedAmount.quantity !== undefined || extra || !known) {
+          ingredients.push({
+            text: `${amount ?? ''} ${name}`.trim(),
+            ...parsedAmount,
+            name,
+            ...(kept.length > 0 && { note: kept.join(', ') }),
+            ...(optional && { optional }),
+            ...(paragraph.section && { section: paragraph.section }),
+            ...(recipePath && { recipeName: name }),
+          });
+        }
+        return name;
+      })
+      .replace(COOKWARE_PATTERN, (_match, longName?: string, word?: string) => (longName ?? word ?? '').trim())
+      .replace(TIMER_PATTERN, (_match, name: string, amount: string) => {
+        const [quantity, unit] = amount.split('%').map((part) => part.trim());
+        return [quantity, unit].filter(Boolean).join(' ') || name.trim();
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+    // The exporter lists ingredients no step mentions in a step of their own; it is not a step to keep
+    const isGatherStep =
+      paragraph.text.startsWith(COOKLANG_GATHER_STEP) &&
+      !paragraph.text.slice(COOKLANG_GATHER_STEP.length).replace(INGREDIENT_PATTERN, '').replace(/[\s,.]/g, '');
+    if (step && !isGatherStep) instructions.push(step);
+  });
+
+  const servings = get('servings', 'serves', 'yield')?.match(/\d+/);
+  const prepMinutes = readMinutes(get('prep time', 'time.prep', 'prep_time'));
+  const cookMinutes =
+    readMinutes(get('cook time', 'time.cook', 'cook_time')) ??
+    // With only a total time, count all of it as cooking rather than lose it
+    (prepMinutes === undefined ? readMinutes(get('total time', 'time required', 'time', 'duration')) : undefined);
+  const course = get('course', 'category');
+  const cuisine = get('cuisine');
+
+  return {
+    name: get('title') ?? fileName.replace(/\.cook$/i, '').split('/').pop()!.trim(),
+    description: [get('description', 'introduction'), ...notes].filter(Boolean).join(' '),
+    ...(servings && { servings: Number(servings[0]) }),
+    ...(prepMinutes !== undefined && { prepMinutes }),
+    ...(cookMinutes !== undefined && { cookMinutes }),
+    tags: (get('tags') ?? '').split(',').map((tag) => tag.trim()).filter(Boolean),
+    ...(course && { course }),
+    ...(cuisine && { cuisine }),
+    ingredients,
+    instructions,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Offer `content` to the user as a file download.
+ * Everything stays in the browser; no network request is made.
+ */
+export function downloadFile(fileName: string, content: string | Blob, type = 'application/json'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// File-name-safe date stamp, e.g. 2024-03-01
+export function dateStamp(timestamp = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -0,0 +1,109 @@
+import { AppData } from '../types';
+import { COLLECTIONS, CollectionName, CollectionRecord, getCollection, getRecordKey, withCollection } from './adapters';
+
+/** Most changes kept on the undo stack. */
+const HISTORY_LIMIT = 50;
+
+/**
+ * One labelled change to AppData, e.g. "Deleted recipe Carbonara".
+ * `before` and `after` are the full states around the change; records are shared by reference,
+ * so keeping both costs little beyond the records the change replaced.
+ */
+export interface HistoryEntry {
+  label: string;
+  before: AppData;
+  after: AppData;
+}
+
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const emptyHistory: History = { past: [], future: [] };
+
+/** Push a change onto the undo stack. Any redoable changes are discarded. */
+export function recordChange(history: History, label: string, before: AppData, after: AppData): History {
+  return {
+    past: [...history.past, { label, before, after }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Apply to `current` the record changes that lead from `from` to `to`.
+ * Only records that differ between `from` and `to` are touched, so edits made since
+ * (view counts, cooking progress, changes from another tab) survive an undo or redo.
+ */
+function applyDifference(current: AppData, from: AppData, to: AppData): AppData {
+  let result: AppData = { ...current };
+  COLLECTIONS.forEach((collection) => {
+    const records = applyCollectionDifference(collection, current, from, to);
+    if (records) result = withCollection(result, collection, records);
+  });
+  return result;
+}
+
+// One collection of applyDifference; null when the change leaves it alone
+function applyCollectionDifference<K extends CollectionName>(
+  collection: K,
+  current: AppData,
+  from: AppData,
+  to: AppData
+): CollectionRecord<K>[] | null {
+  if (from[collection] === to[collection]) return null;
+
+  const keyOf = (r: CollectionRecord<K>) => getRecordKey(collection, r);
+  const fromByKey = new Map(getCollection(from, collection).map((r) => [keyOf(r), r]));
+  const toRecords = getCollection(to, collection);
+  const toByKey = new Map(toRecords.map((r) => [keyOf(r), r]));
+
+  const records = [...getCollection(current, collection)];
+  const changedKeys = new Set(
+    [...fromByKey.keys(), ...toByKey.keys()].filter((key) => fromByKey.get(key) !== toByKey.get(key))
+  );
+  if (changedKeys.size === 0) return null;
+
+  changedKeys.forEach((key) => {
+    const target = toByKey.get(key);
+    const index = records.findIndex((r) => keyOf(r) === key);
+    if (!target) {
+      if (index >= 0) records.splice(index, 1);
+    } else if (index >= 0) {
+      records[index] = target;
+    } else {
+      // Put restored records back where they were, as far as the current list allows
+      records.splice(Math.min(toRecords.indexOf(target), records.length), 0, target);
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Undo the most recent change.
+ * Returns null when there is nothing to undo.
+ */
+export function undo(history: History, current: AppData): { history: History; data: AppData; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    data: applyDifference(current, entry.after, entry.before),
+    entry,
+  };
+}
+
+/**
+ * Redo the most recently undone change.
+ * Returns null when there is nothing to redo.
+ */
+export function redo(history: History, current: AppData): { history: History; data: AppData; entry: HistoryEntry } | null {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    data: applyDifference(current, entry.before, entry.after),
+    entry,
+  };
+}
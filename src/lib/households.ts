@@ -0,0 +1,93 @@
+import { AppData, Household, InventoryItem, Recipe } from '../types';
+
+/**
+ * Households.
+ * A user outside a household owns their recipes and inventory by `userId`. A user in a
+ * household sees the household's recipes and pantry instead: records with a `householdId`
+ * belong to every member, whoever added them.
+ */
+
+/** Whose recipes and pantry a user works with. */
+export interface OwnerScope {
+  userId: string;
+  householdId?: string;
+}
+
+export class HouseholdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HouseholdError';
+  }
+}
+
+const INVITE_CODE_LENGTH = 6;
+// No 0/O or 1/I, so codes read out across a kitchen are not misheard
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function createInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  return Array.from(bytes, (b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+export function findHouseholdByCode(data: AppData, code: string): Household | undefined {
+  const normalized = code.trim().toUpperCase();
+  return data.households.find((h) => h.inviteCode === normalized);
+}
+
+export function getOwnerScope(data: AppData, userId: string): OwnerScope {
+  const user = data.users.find((u) => u.id === userId);
+  return user?.householdId ? { userId, householdId: user.householdId } : { userId };
+}
+
+/** True when a recipe or inventory item is part of `scope`'s recipes or pantry. */
+export function isOwnedBy(record: { userId: string; householdId?: string }, scope: OwnerScope): boolean {
+  return scope.householdId
+    ? record.householdId === scope.householdId
+    : !record.householdId && record.userId === scope.userId;
+}
+
+/** Stamp a new record with the household it belongs to, if any. */
+export function withOwner<T extends { userId: string; householdId?: string }>(record: T, scope: OwnerScope): T {
+  const owned = { ...record };
+  if (scope.householdId) {
+    owned.householdId = scope.householdId;
+  } else {
+    delete owned.householdId;
+  }
+  return owned;
+}
+
+export function getHouseholdMembers(data: AppData, householdId: string) {
+  return data.users.filter((u) => u.householdId === householdId);
+}
+
+/**
+ * Move a set of inventory items into `scope`'s pantry, adding quantities to entries
+ * the pantry already has for the same ingredient and unit. Items moved into a personal
+ * pantry are handed to that user.
+ */
+export function mergeIntoPantry(
+  inventory: InventoryItem[],
+  items: InventoryItem[],
+  scope: OwnerScope
+): InventoryItem[] {
+  const moving = new Set(items);
+  let result = inventory.filter((i) => !moving.has(i));
+  items.forEach((item) => {
+    const moved = withOwner(scope.householdId ? item : { ...item, userId: scope.userId }, scope);
+    const index = result.findIndex(
+      (i) => isOwnedBy(i, scope) && i.ingredientId === moved.ingredientId && i.measurementId === moved.measurementId
+    );
+    if (index < 0) {
+      result = [...result, moved];
+    } else {
+      result = result.map((i, n) => (n === index ? { ...i, quantity: i.quantity + moved.quantity } : i));
+    }
+  });
+  return result;
+}
+
+/** Hand a recipe to `scope`, keeping its author. */
+export function moveRecipe(recipe: Recipe, scope: OwnerScope): Recipe {
+  return withOwner({ ...recipe, userId: scope.householdId ? recipe.userId : scope.userId }, scope);
+}
@@ -0,0 +1,51 @@
+import { RecipeIngredient } from '../types';
+
+/**
+ * Details of a single recipe line beyond its amount: a preparation note ("minced"), whether the
+ * line is optional, and alternate ingredients that can stand in for it in the same amount and unit
+ * ("butter or margarine").
+ */
+
+const MAX_NOTE_LENGTH = 80;
+
+/** The line's ingredient followed by its alternates, in order of preference. */
+export function getLineIngredientIds(line: RecipeIngredient): string[] {
+  return [line.ingredientId, ...(line.alternateIds ?? [])];
+}
+
+/**
+ * Whether a line can be saved: an amount above zero and an ingredient in a unit, or a recipe. A
+ * sub-recipe line without a unit is counted in servings.
+ */
+export function isCompleteLine(
+  line: Pick<RecipeIngredient, 'ingredientId' | 'quantity' | 'measurementId' | 'recipeId'>
+): boolean {
+  if (!(line.quantity > 0)) return false;
+  return line.recipeId !== undefined ? !!line.recipeId : !!line.ingredientId && !!line.measurementId;
+}
+
+/** Trim and collapse whitespace; returns undefined for a blank note. */
+export function normalizeNote(note: string | undefined): string | undefined {
+  const normalized = note?.trim().replace(/\s+/g, ' ').slice(0, MAX_NOTE_LENGTH);
+  return normalized || undefined;
+}
+
+/**
+ * Alternates as stored: no blanks, no repeats and never the line's own ingredient.
+ * Returns undefined when none are left, so lines without alternates carry no empty list.
+ */
+export function normalizeAlternateIds(ingredientId: string, alternateIds: string[] | undefined): string[] | undefined {
+  const ids = [...new Set(alternateIds ?? [])].filter((id) => id && id !== ingredientId);
+  return ids.length > 0 ? ids : undefined;
+}
+
+/** "Butter or Margarine": the ingredient and its alternates. */
+export function formatLineIngredients(line: RecipeIngredient, nameOf: (ingredientId: string) => string): string {
+  return getLineIngredientIds(line).map(nameOf).join(' or ');
+}
+
+/** "Butter or Margarine, softened": the ingredient, its alternates and the note. */
+export function describeIngredientLine(line: RecipeIngredient, nameOf: (ingredientId: string) => string): string {
+  const names = formatLineIngredients(line, nameOf);
+  return line.note ? `${names}, ${line.note}` : names;
+}
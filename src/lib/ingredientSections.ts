@@ -0,0 +1,56 @@
+import { RecipeIngredient } from '../types';
+
+/**
+ * Ingredient sections ("For the dough", "For the glaze").
+ * A recipe's ingredients stay one flat list, so inventory checks, deduction and cook-mode checks
+ * keep addressing lines by index; each line just names the section it belongs to. Lines without
+ * a section come first, then each section in the order it first appears.
+ */
+
+const MAX_SECTION_LENGTH = 60;
+
+/** One section's lines, each with its index in the recipe's ingredient list. */
+export interface IngredientGroup {
+  // undefined for the lines outside any section
+  section?: string;
+  lines: { ingredient: RecipeIngredient; index: number }[];
+}
+
+/** Trim and collapse whitespace; returns undefined for a blank name. */
+export function normalizeSectionName(name: string | undefined): string | undefined {
+  const normalized = name?.trim().replace(/\s+/g, ' ').slice(0, MAX_SECTION_LENGTH);
+  return normalized || undefined;
+}
+
+/**
+ * Group ingredient lines by section, unsectioned lines first.
+ * Sections are matched by exact name, so names should be normalised first (the form keeps
+ * names as typed while editing, where a blank name is still its own section).
+ */
+export function groupIngredients(ingredients: RecipeIngredient[]): IngredientGroup[] {
+  const unsectioned: IngredientGroup = { lines: [] };
+  const sections = new Map<string, IngredientGroup>();
+  ingredients.forEach((ingredient, index) => {
+    if (ingredient.section === undefined) {
+      unsectioned.lines.push({ ingredient, index });
+      return;
+    }
+    let group = sections.get(ingredient.section);
+    if (!group) {
+      group = { section: ingredient.section, lines: [] };
+      sections.set(ingredient.section, group);
+    }
+    group.lines.push({ ingredient, index });
+  });
+  return [...(unsectioned.lines.length > 0 ? [unsectioned] : []), ...sections.values()];
+}
+
+/** Reorder lines so each section's lines are together, in the order groupIngredients shows them. */
+export function orderBySection(ingredients: RecipeIngredient[]): RecipeIngredient[] {
+  return groupIngredients(ingredients).flatMap((group) => group.lines.map(({ ingredient }) => ingredient));
+}
+
+/** True when any line belongs to a section, i.e. headings are worth showing. */
+export function hasSections(ingredients: RecipeIngredient[]): boolean {
+  return ingredients.some((ingredient) => ingredient.section !== undefined);
+}
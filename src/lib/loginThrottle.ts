@@ -0,0 +1,115 @@
+/**
+ * Login throttling.
+ * Failed logins are counted per username (whether or not the account exists, so throttling does
+ * not reveal which usernames are taken). After a few free attempts each failure doubles the wait
+ * before the next one, and enough failures lock the username for a while. Counts live in
+ * localStorage so they hold across tabs and reloads, and reset on a successful login.
+ */
+
+const ATTEMPTS_KEY = 'cucina-login-attempts';
+
+export interface LoginThrottleConfig {
+  // Failures allowed before any waiting
+  freeAttempts: number;
+  // Wait after the first throttled failure; doubles with each further one
+  baseDelay: number;
+  maxDelay: number;
+  // Failures that lock the username for `lockoutDuration`
+  lockoutAfter: number;
+  lockoutDuration: number;
+}
+
+export const DEFAULT_LOGIN_THROTTLE: LoginThrottleConfig = {
+  freeAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 60 * 1000,
+  lockoutAfter: 8,
+  lockoutDuration: 15 * 60 * 1000,
+};
+
+interface FailedLogins {
+  failures: number;
+  lastFailureAt: number;
+  // No attempt is checked before this time
+  retryAt: number;
+}
+
+/** What the auth layer tells the login form. */
+export type LoginResult =
+  | { status: 'success' }
+  // Wrong username or password; `retryAt` is set when the next attempt has to wait
+  | { status: 'invalid'; retryAt: number | null; locked: boolean }
+  // The attempt was refused without checking the password
+  | { status: 'throttled'; retryAt: number; locked: boolean };
+
+const keyFor = (username: string) => username.trim().toLowerCase();
+
+function readAttempts(): Record<string, FailedLogins> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ATTEMPTS_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAttempts(attempts: Record<string, FailedLogins>): void {
+  try {
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+  } catch {
+    // Storage full or blocked: throttling falls back to nothing rather than breaking login
+  }
+}
+
+// Failures are forgotten once a lockout's worth of time has passed without another one
+const isStale = (entry: FailedLogins, now: number, config: LoginThrottleConfig) =>
+  now >= entry.retryAt && now - entry.lastFailureAt >= config.lockoutDuration;
+
+/**
+ * When `username` may next try to log in, or null if it may now.
+ * `locked` tells a lockout apart from an ordinary back-off wait.
+ */
+export function getLoginBlock(
+  username: string,
+  now = Date.now(),
+  config = DEFAULT_LOGIN_THROTTLE
+): { retryAt: number; locked: boolean } | null {
+  const entry = readAttempts()[keyFor(username)];
+  if (!entry || now >= entry.retryAt) return null;
+  return { retryAt: entry.retryAt, locked: entry.failures >= config.lockoutAfter };
+}
+
+/** Count a failed login for `username` and return when it may try again (null: right away). */
+export function recordFailedLogin(
+  username: string,
+  now = Date.now(),
+  config = DEFAULT_LOGIN_THROTTLE
+): { retryAt: number; locked: boolean } | null {
+  const attempts = readAttempts();
+  Object.keys(attempts).forEach((key) => {
+    if (isStale(attempts[key], now, config)) delete attempts[key];
+  });
+
+  const key = keyFor(username);
+  const previous = attempts[key];
+  // A lockout that has passed starts the count afresh
+  const failures = (previous && previous.failures < config.lockoutAfter ? previous.failures : 0) + 1;
+  const locked = failures >= config.lockoutAfter;
+  let retryAt = now;
+  if (locked) {
+    retryAt = now + config.lockoutDuration;
+  } else if (failures > config.freeAttempts) {
+    retryAt = now + Math.min(config.baseDelay * 2 ** (failures - config.freeAttempts - 1), config.maxDelay);
+  }
+
+  attempts[key] = { failures, lastFailureAt: now, retryAt };
+  writeAttempts(attempts);
+  return retryAt > now ? { retryAt, locked } : null;
+}
+
+export function clearFailedLogins(username: string): void {
+  const attempts = readAttempts();
+  if (!(keyFor(username) in attempts)) return;
+  delete attempts[keyFor(username)];
+  writeAttempts(attempts);
+}
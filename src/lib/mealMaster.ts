@@ -0,0 +1,161 @@
+import { ParsedIngredientLine, ParsedRecipe } from './recipeImport';
+import { parseAmount } from './recipeText';
+
+/**
+ * Reading MealMaster (.mmf) text, the format recipe collections were traded in for decades.
+ * A file holds any number of recipes, each opening with a "MMMMM----- Recipe via Meal-Master"
+ * (or "----- ...") line and closing with "MMMMM". After the title, categories and yield come the
+ * ingredients in fixed columns (amount, two-letter unit, ingredient), sometimes two per line,
+ * and then the directions as free text.
+ */
+
+const START_PATTERN = /^(?:MMMMM|-----)-*\s*Recipe via Meal-Master/i;
+const END_PATTERN = /^(?:MMMMM|-----)\s*$/;
+// "MMMMM--------------------------GLAZE--------------------------"
+const SECTION_PATTERN = /^(?:MMMMM|-----)-+\s*([^-].*?)\s*-+\s*$/;
+// Amount in columns 1-7, unit in 9-10, ingredient from 12
+const INGREDIENT_PATTERN = /^([ \d./-]{7}) ([ A-Za-z]{2}) (\S.*)$/;
+// Where the second column of a two-column ingredient list starts
+const SECOND_COLUMN = 41;
+
+// MealMaster's unit codes, as unit names the catalog matching knows
+const UNIT_CODES: Record<string, string> = {
+  t: 'teaspoon',
+  ts: 'teaspoon',
+  T: 'tablespoon',
+  tb: 'tablespoon',
+  fl: 'fluid ounce',
+  c: 'cup',
+  pt: 'pint',
+  qt: 'quart',
+  ga: 'gallon',
+  oz: 'ounce',
+  lb: 'pound',
+  ml: 'milliliter',
+  cl: 'centiliter',
+  dl: 'deciliter',
+  l: 'liter',
+  mg: 'milligram',
+  cg: 'centigram',
+  dg: 'decigram',
+  g: 'gram',
+  kg: 'kilogram',
+  dr: 'drop',
+  ds: 'dash',
+  pn: 'pinch',
+  cn: 'can',
+  pk: 'package',
+  ct: 'carton',
+  bn: 'bunch',
+  sl: 'slice',
+  ea: 'piece',
+};
+
+// Size codes, kept as a note on a counted line
+const SIZE_CODES: Record<string, string> = { sm: 'small', md: 'medium', lg: 'large' };
+
+/** "CAKE" as a section name: "Cake". */
+const toSectionName = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+
+/** One ingredient in the column layout, or null when the text is not laid out as one. */
+function readIngredient(text: string, section: string | undefined): ParsedIngredientLine | null {
+  const match = text.trimEnd().match(INGREDIENT_PATTERN);
+  if (!match) return null;
+  const [, amount, code, rest] = match;
+  const quantity = amount.trim() ? parseAmount(amount.trim()) : undefined;
+  if (Number.isNaN(quantity)) return null;
+  const unit = UNIT_CODES[code.trim()] ?? UNIT_CODES[code.trim().toLowerCase()];
+  const size = SIZE_CODES[code.trim().toLowerCase()];
+  // Preparation follows a semicolon or comma: "Onion; chopped"
+  const [name, ...after] = rest.trim().split(/[;,]/);
+  const notes = [size, ...after.map((part) => part.trim())].filter(Boolean);
+  return {
+    text: text.trim(),
+    ...(quantity !== undefined && { quantity }),
+    ...(unit && { unit }),
+    name: name.trim(),
+    ...(notes.length > 0 && { note: notes.join(', ') }),
+    ...(section && { section }),
+  };
+}
+
+/** Read one recipe from its lines, without the opening and closing lines. */
+function readRecipe(lines: string[]): ParsedRecipe {
+  const recipe: ParsedRecipe = { name: '', description: '', ingredients: [], instructions: [] };
+  const directions: string[][] = [[]];
+  let section: string | undefined;
+  let inDirections = false;
+
+  lines.forEach((raw) => {
+    const line = raw.replace(/\t/g, ' ').trimEnd();
+    const field = line.match(/^\s*(Title|Categories|Yield|Servings)\s*:\s*(.*)$/i);
+    if (field && !inDirections) {
+      const value = field[2].trim();
+      const key = field[1].toLowerCase();
+      if (key === 'title') {
+        recipe.name = value;
+      } else if (key === 'categories') {
+        recipe.tags = value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter((tag) => tag && !/^none$/i.test(tag));
+      } else if (/\d+/.test(value)) {
+        recipe.servings = Number(value.match(/\d+/)![0]);
+      }
+      return;
+    }
+    const heading = line.match(SECTION_PATTERN);
+    if (heading) {
+      section = toSectionName(heading[1]);
+      return;
+    }
+    if (!line.trim()) {
+      if (inDirections) directions.push([]);
+      return;
+    }
+
+    if (!inDirections && recipe.name) {
+      const first = readIngredient(line.slice(0, SECOND_COLUMN), section);
+      if (first) {
+        // A continuation: "       -finely chopped" carries on the line above
+        const previous = recipe.ingredients[recipe.ingredients.length - 1];
+        if (first.name.startsWith('-') && first.quantity === undefined && !first.unit && previous) {
+          previous.name = `${previous.name} ${first.name.slice(1).trim()}`.trim();
+        } else {
+          recipe.ingredients.push(first);
+        }
+        const second = line.length > SECOND_COLUMN ? readIngredient(line.slice(SECOND_COLUMN), section) : null;
+        if (second) recipe.ingredients.push(second);
+        return;
+      }
+      inDirections = recipe.ingredients.length > 0;
+      if (!inDirections) return;
+    }
+    if (inDirections) directions[directions.length - 1].push(line.trim());
+  });
+
+  recipe.instructions = directions
+    .map((paragraph) => paragraph.join(' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return recipe;
+}
+
+/** Every recipe in MealMaster text, in file order. Recipes without a title are skipped. */
+export function parseMealMaster(text: string): ParsedRecipe[] {
+  const recipes: ParsedRecipe[] = [];
+  let current: string[] | null = null;
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (START_PATTERN.test(line)) {
+      if (current) recipes.push(readRecipe(current));
+      current = [];
+    } else if (current && END_PATTERN.test(line)) {
+      recipes.push(readRecipe(current));
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  // A last recipe missing its closing line
+  if (current) recipes.push(readRecipe(current));
+  return recipes.filter((recipe) => recipe.name);
+}
@@ -0,0 +1,73 @@
+import { AppData } from '../types';
+
+/**
+ * A single schema migration. `version` is the version the data is at AFTER this
+ * migration runs; migrations are applied in ascending order to any data whose
+ * stored version is lower than theirs.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  // Receives a private copy of the data and returns the reshaped copy.
+  // Call `log` with a short human-readable line for every change made.
+  migrate: (data: AppData, log: (change: string) => void) => AppData;
+}
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  // localStorage key holding the untouched pre-migration blob
+  backupKey: string | null;
+  steps: MigrationStepReport[];
+}
+
+export class MigrationError extends Error {
+  constructor(public version: number, public cause: unknown) {
+    super(`Migration to version ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Run every migration newer than `data.version`, in order.
+ * Works on a deep copy so a failing step never leaves `data` half-migrated:
+ * either all steps succeed and the migrated copy is returned, or a
+ * MigrationError is thrown and the caller still holds the original.
+ */
+export function runMigrations(
+  data: AppData,
+  migrations: Migration[],
+  targetVersion: number
+): { data: AppData; report: MigrationReport } {
+  const fromVersion = data.version || 1;
+  const pending = [...migrations]
+    .filter((m) => m.version > fromVersion && m.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let working: AppData = JSON.parse(JSON.stringify(data));
+  const steps: MigrationStepReport[] = [];
+
+  for (const migration of pending) {
+    const changes: string[] = [];
+    try {
+      working = migration.migrate(working, (change) => changes.push(change));
+    } catch (e) {
+      throw new MigrationError(migration.version, e);
+    }
+    working.version = migration.version;
+    steps.push({ version: migration.version, description: migration.description, changes });
+  }
+
+  working.version = targetVersion;
+
+  return {
+    data: working,
+    report: { fromVersion, toVersion: targetVersion, backupKey: null, steps },
+  };
+}
@@ -0,0 +1,125 @@
+import { Measurement } from '../types';
+import { ParsedIngredientLine, ParsedRecipe, RecipeImportError } from './recipeImport';
+import { parseDuration, parseIngredientText, readSectionHeading } from './recipeText';
+import { ZipError, gunzip, isGzip, isZip, readZip } from './zip';
+
+/**
+ * Reading Paprika exports. A .paprikarecipes file is a zip archive with one gzipped JSON file
+ * per recipe; a single recipe is exported as one such gzipped .paprikarecipe file. Ingredients
+ * and directions are plain text, one per line, and the photo is embedded as base64.
+ */
+
+// The fields of Paprika's recipe JSON that are read; a file may hold anything, so each is checked as it is read
+interface PaprikaRecipe {
+  name?: unknown;
+  description?: unknown;
+  notes?: unknown;
+  ingredients?: unknown;
+  directions?: unknown;
+  servings?: unknown;
+  prep_time?: unknown;
+  cook_time?: unknown;
+  total_time?: unknown;
+  categories?: unknown;
+  source?: unknown;
+  source_url?: unknown;
+  photo_data?: unknown;
+  photos?: unknown;
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Ingredient lines, where a line such as "For the sauce:" starts a section. */
+function readIngredients(text: string, measurements: Measurement[]): ParsedIngredientLine[] {
+  let section: string | undefined;
+  return text.split('\n').flatMap((line) => {
+    if (!line.trim()) return [];
+    const heading = readSectionHeading(line);
+    if (heading) {
+      section = heading;
+      return [];
+    }
+    return [{ ...parseIngredientText(line, measurements), ...(section && { section }) }];
+  });
+}
+
+/** One recipe's JSON as a parsed recipe. */
+function readRecipe(json: PaprikaRecipe, measurements: Measurement[]): ParsedRecipe {
+  const servings = asText(json.servings).match(/\d+/);
+  const prepMinutes = parseDuration(asText(json.prep_time));
+  let cookMinutes = parseDuration(asText(json.cook_time));
+  // With only a total time, count all of it as cooking rather than lose it
+  if (prepMinutes === undefined && cookMinutes === undefined) cookMinutes = parseDuration(asText(json.total_time));
+  const source = asText(json.source_url) || asText(json.source);
+  const images = [asText(json.photo_data), ...asList(json.photos).map((photo) => asText(isObject(photo) ? photo.data : ''))]
+    .filter(Boolean)
+    .map((data) => `data:image/jpeg;base64,${data}`);
+
+  return {
+    name: asText(json.name),
+    description: [asText(json.description), asText(json.notes), source && `Source: ${source}`].filter(Boolean).join('\n\n'),
+    ...(servings && { servings: Number(servings[0]) }),
+    ...(prepMinutes !== undefined && { prepMinutes }),
+    ...(cookMinutes !== undefined && { cookMinutes }),
+    tags: asList(json.categories).map(asText).filter(Boolean),
+    ...(images.length > 0 && { images }),
+    ingredients: readIngredients(asText(json.ingredients), measurements),
+    instructions: asText(json.directions)
+      .split('\n')
+      .map((step) => step.replace(/^\s*(?:step\s*)?\d+\s*[.):]\s*/i, '').trim())
+      .filter(Boolean),
+  };
+}
+
+/** A gzipped recipe file's recipe. Anything but a JSON object is a damaged recipe. */
+async function readRecipeFile(data: Uint8Array, measurements: Measurement[]): Promise<ParsedRecipe> {
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(await gunzip(data)));
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err;
+  }
+  if (!isObject(json)) throw new RecipeImportError('A recipe in the Paprika file is damaged');
+  return readRecipe(json, measurements);
+}
+
+/** What a Paprika export holds. */
+export interface PaprikaExport {
+  recipes: ParsedRecipe[];
+  // Recipes in an archive that could not be read, by file name, with why
+  skipped: { name: string; reason: string }[];
+}
+
+/**
+ * The recipes in a Paprika export: an archive of recipes or a single one. A damaged recipe in an
+ * archive is skipped, leaving the rest to import. Throws a RecipeImportError when the file is not
+ * an export, or is a single recipe or an archive that is damaged.
+ */
+export async function readPaprika(data: Uint8Array, measurements: Measurement[]): Promise<PaprikaExport> {
+  try {
+    const read: PaprikaExport = { recipes: [], skipped: [] };
+    if (isGzip(data)) {
+      read.recipes.push(await readRecipeFile(data, measurements));
+    } else if (isZip(data)) {
+      for (const entry of readZip(data)) {
+        if (!/\.paprikarecipe$/i.test(entry.name)) continue;
+        const name = entry.name.replace(/^.*\//, '').replace(/\.paprikarecipe$/i, '');
+        try {
+          read.recipes.push(await readRecipeFile(await entry.read(), measurements));
+        } catch (err) {
+          if (!(err instanceof ZipError || err instanceof RecipeImportError)) throw err;
+          read.skipped.push({ name, reason: 'Damaged, could not be read' });
+        }
+      }
+    } else {
+      throw new RecipeImportError('This is not a Paprika export');
+    }
+    return { ...read, recipes: read.recipes.filter((recipe) => recipe.name) };
+  } catch (err) {
+    if (err instanceof ZipError) throw new RecipeImportError(err.message);
+    throw err;
+  }
+}
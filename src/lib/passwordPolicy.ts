@@ -0,0 +1,89 @@
+import { AccountError } from './account';
+
+/**
+ * Password rules for new passwords (sign-up and password changes).
+ * Existing passwords are never re-checked, so tightening the policy does not lock anyone out.
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // The password may not contain the username
+  forbidUsername: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 10,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  forbidUsername: true,
+};
+
+export interface PasswordRuleCheck {
+  label: string;
+  met: boolean;
+}
+
+/** Every rule of `policy` with whether `password` meets it, in the order they are shown. */
+export function checkPasswordRules(
+  password: string,
+  username: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordRuleCheck[] {
+  const rules: PasswordRuleCheck[] = [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+  ];
+  if (policy.requireLowercase) rules.push({ label: 'A lowercase letter', met: /[a-z]/.test(password) });
+  if (policy.requireUppercase) rules.push({ label: 'An uppercase letter', met: /[A-Z]/.test(password) });
+  if (policy.requireNumber) rules.push({ label: 'A number', met: /\d/.test(password) });
+  if (policy.requireSymbol) rules.push({ label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) });
+  if (policy.forbidUsername) {
+    const name = username.trim().toLowerCase();
+    rules.push({
+      label: 'Does not contain your username',
+      met: password.length > 0 && (!name || !password.toLowerCase().includes(name)),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Check a new password against the policy.
+ * Throws AccountError naming the first rule it breaks.
+ */
+export function validatePassword(
+  password: string,
+  username: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): void {
+  const broken = checkPasswordRules(password, username, policy).find((rule) => !rule.met);
+  if (broken) {
+    throw new AccountError(`Password must meet every rule: ${broken.label.toLowerCase()}`);
+  }
+}
+
+export const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+
+// Runs like "aaaa" or "1234"/"abcd" that add length without adding much to guess
+const REPEAT_OR_SEQUENCE = /(.)\1{2,}|0123|1234|2345|3456|4567|5678|6789|abcd|bcde|cdef|qwer|asdf/i;
+
+/**
+ * Rough strength from 0 (very weak) to 4 (strong), for feedback while typing.
+ * Rewards length and mixing character classes; penalises repeats and keyboard runs.
+ */
+export function scorePasswordStrength(password: string): number {
+  if (!password) return 0;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  if (classes === 4) score++;
+  if (REPEAT_OR_SEQUENCE.test(password)) score--;
+  return Math.max(0, Math.min(4, score));
+}
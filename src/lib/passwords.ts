@@ -0,0 +1,83 @@
+/**
+ * Password hashing with salted PBKDF2-SHA256 from WebCrypto.
+ *
+ * Hashes are stored in `User.password` as `pbkdf2-sha256$<iterations>$<salt>$<hash>`
+ * (salt and hash base64-encoded). Accounts created before hashing still hold their
+ * plaintext password there until their next successful login re-hashes it.
+ */
+
+const HASH_PREFIX = 'pbkdf2-sha256';
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const HASH_PATTERN = /^pbkdf2-sha256\$(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string) {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function derive(password: string, salt: ReturnType<typeof fromBase64>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Compare two byte arrays without returning early on the first difference,
+ * so the time taken does not reveal how much of a guess was right.
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let difference = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+/** Hash a password with a fresh random salt, in the format stored on `User.password`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `${HASH_PREFIX}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/**
+ * Check a password against a stored value.
+ * `needsRehash` is set when the password matched but the stored value is plaintext or was
+ * hashed with fewer iterations than today's, so the caller should store a fresh hash.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  const match = HASH_PATTERN.exec(stored);
+
+  if (!match) {
+    // Legacy plaintext: compare fixed-length digests so the comparison is constant time too
+    const [given, expected] = await Promise.all([
+      crypto.subtle.digest('SHA-256', encoder.encode(password)),
+      crypto.subtle.digest('SHA-256', encoder.encode(stored)),
+    ]);
+    const valid = constantTimeEqual(new Uint8Array(given), new Uint8Array(expected));
+    return { valid, needsRehash: valid };
+  }
+
+  const iterations = Number(match[1]);
+  const hash = await derive(password, fromBase64(match[2]), iterations);
+  const valid = constantTimeEqual(hash, fromBase64(match[3]));
+  return { valid, needsRehash: valid && iterations < ITERATIONS };
+}
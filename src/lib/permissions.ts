@@ -0,0 +1,48 @@
+import { AppData, Ingredient, Measurement, User } from '../types';
+
+/**
+ * Roles and catalog permissions.
+ * Ingredients and measurements without an `ownerId` are shared by every user, so only admins
+ * may rename, delete or re-convert them. Entries a member adds are private: the member (and
+ * their household, whose recipes may use them) sees them, and only the member or an admin
+ * may change them.
+ */
+
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+type CatalogItem = Ingredient | Measurement;
+
+export const isAdmin = (user: User | undefined) => user?.role === 'admin';
+
+/** Owner to stamp on a catalog entry `user` adds: admins extend the shared catalog, members their own. */
+export function getNewCatalogOwner(user: User): string | undefined {
+  return isAdmin(user) ? undefined : user.id;
+}
+
+export function canEditCatalogItem(user: User, item: CatalogItem): boolean {
+  return isAdmin(user) || item.ownerId === user.id;
+}
+
+export function canSeeCatalogItem(data: AppData, user: User, item: CatalogItem): boolean {
+  if (!item.ownerId || item.ownerId === user.id) return true;
+  if (!user.householdId) return false;
+  return data.users.some((u) => u.id === item.ownerId && u.householdId === user.householdId);
+}
+
+/**
+ * Check that `user` may change `item`.
+ * Throws PermissionError explaining why not.
+ */
+export function requireCatalogPermission(user: User, item: CatalogItem): void {
+  if (canEditCatalogItem(user, item)) return;
+  throw new PermissionError(
+    item.ownerId
+      ? `"${item.name}" belongs to another user`
+      : `"${item.name}" is shared by everyone; only an admin can change it`
+  );
+}
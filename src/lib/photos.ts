@@ -0,0 +1,210 @@
+import { RecipePhoto } from '../types';
+import { requestToPromise, transactionDone } from './adapters';
+import { generateId } from './storage';
+
+/**
+ * Recipe photos.
+ * Images are downscaled in the browser and kept as blobs in their own IndexedDB database, so
+ * AppData (and every save, backup and history entry) only carries the small RecipePhoto records.
+ * Each photo has a full-size blob for the detail view and a thumbnail for cards.
+ */
+
+export class PhotoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotoError';
+  }
+}
+
+export type PhotoSize = 'full' | 'thumb';
+
+// Longest side, in pixels, of stored photos and of their thumbnails
+export const MAX_PHOTO_SIZE = 1600;
+export const THUMBNAIL_SIZE = 400;
+// Largest file accepted before downscaling
+export const MAX_PHOTO_FILE_SIZE = 20 * 1024 * 1024;
+
+const PHOTO_TYPE = 'image/jpeg';
+const PHOTO_QUALITY = 0.85;
+
+// Blobs no recipe points at are only removed once they have gone unreferenced this long, so photos
+// still referenced by an undo step or an unsaved recipe form (in this tab or another) survive a reload
+const ORPHAN_GRACE_PERIOD = 60 * 60 * 1000;
+
+const DB_NAME = 'cucina-photos';
+const DB_VERSION = 1;
+const PHOTO_STORE = 'photos';
+
+interface StoredPhoto {
+  blob: Blob;
+  createdAt: number;
+  // When pruning first found no recipe using the photo; cleared if one uses it again
+  orphanedAt?: number;
+}
+
+const blobKey = (id: string, size: PhotoSize) => (size === 'full' ? id : `${id}:thumb`);
+const photoIdOf = (key: string) => key.replace(/:thumb$/, '');
+
+function openPhotoDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(PHOTO_STORE)) {
+        request.result.createObjectStore(PHOTO_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = () => (dbPromise ??= openPhotoDatabase());
+
+function toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new PhotoError('The image could not be encoded'))),
+      PHOTO_TYPE,
+      PHOTO_QUALITY
+    );
+  });
+}
+
+// Draw `image` scaled so its longest side is at most `maxSize`
+function drawScaled(image: ImageBitmap, maxSize: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new PhotoError('This browser cannot process images');
+  // JPEG has no transparency; fill it white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Downscale an image file into a photo and its thumbnail.
+ * Nothing is stored; pass the result to savePhotoBlobs.
+ * Throws a PhotoError for files that are not readable images or are too large.
+ */
+export async function processPhoto(
+  file: File
+): Promise<{ photo: RecipePhoto; full: Blob; thumb: Blob }> {
+  if (!file.type.startsWith('image/')) {
+    throw new PhotoError(`"${file.name}" is not an image`);
+  }
+  if (file.size > MAX_PHOTO_FILE_SIZE) {
+    throw new PhotoError(`"${file.name}" is larger than ${MAX_PHOTO_FILE_SIZE / 1024 / 1024} MB`);
+  }
+
+  let image: ImageBitmap;
+  try {
+    // Honour the camera's EXIF rotation so portrait shots are not stored sideways
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new PhotoError(`"${file.name}" could not be read as an image`);
+  }
+
+  try {
+    const fullCanvas = drawScaled(image, MAX_PHOTO_SIZE);
+    const [full, thumb] = await Promise.all([
+      toBlob(fullCanvas),
+      toBlob(drawScaled(image, THUMBNAIL_SIZE)),
+    ]);
+    return {
+      photo: {
+        id: generateId(),
+        width: fullCanvas.width,
+        height: fullCanvas.height,
+        addedAt: Date.now(),
+      },
+      full,
+      thumb,
+    };
+  } finally {
+    image.close();
+  }
+}
+
+/** Store a processed photo's blobs. */
+export async function savePhotoBlobs(id: string, full: Blob, thumb: Blob): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const createdAt = Date.now();
+  store.put({ blob: full, createdAt } satisfies StoredPhoto, blobKey(id, 'full'));
+  store.put({ blob: thumb, createdAt } satisfies StoredPhoto, blobKey(id, 'thumb'));
+  await transactionDone(tx);
+}
+
+// Object URLs handed out so far; a blob never changes under its id, so they stay valid
+const objectUrls = new Map<string, Promise<string | null>>();
+
+/**
+ * Object URL for a photo, or null when its blob is missing (for example on another device,
+ * or after restoring a backup, which only holds the photo records).
+ */
+export function getPhotoUrl(id: string, size: PhotoSize): Promise<string | null> {
+  const key = blobKey(id, size);
+  let url = objectUrls.get(key);
+  if (!url) {
+    url = getDb()
+      .then((db) => requestToPromise<StoredPhoto | undefined>(db.transaction(PHOTO_STORE).objectStore(PHOTO_STORE).get(key)))
+      .then((stored) => (stored ? URL.createObjectURL(stored.blob) : null))
+      .catch(() => null);
+    objectUrls.set(key, url);
+    // A missing blob may still be saved later (the form stores photos as they are added)
+    url.then((result) => {
+      if (!result) objectUrls.delete(key);
+    });
+  }
+  return url;
+}
+
+/**
+ * Delete blobs of photos no recipe refers to any more.
+ * An unreferenced blob is first marked with the time it was found so, and only deleted by a later
+ * run once ORPHAN_GRACE_PERIOD has passed since; returns how many photos were removed.
+ */
+export async function prunePhotos(referencedIds: Set<string>, now = Date.now()): Promise<number> {
+  const db = await getDb();
+  const tx = db.transaction(PHOTO_STORE, 'readwrite');
+  const store = tx.objectStore(PHOTO_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<StoredPhoto[]>(store.getAll()),
+  ]);
+
+  const removed = new Set<string>();
+  keys.forEach((key, i) => {
+    const id = photoIdOf(String(key));
+    const { orphanedAt, ...stored } = values[i];
+    if (referencedIds.has(id)) {
+      // Used again, e.g. after an undo
+      if (orphanedAt !== undefined) store.put(stored satisfies StoredPhoto, key);
+    } else if (orphanedAt === undefined) {
+      store.put({ ...stored, orphanedAt: now } satisfies StoredPhoto, key);
+    } else if (now - orphanedAt >= ORPHAN_GRACE_PERIOD) {
+      store.delete(key);
+      removed.add(id);
+    }
+  });
+  await transactionDone(tx);
+
+  removed.forEach((id) =>
+    (['full', 'thumb'] as const).forEach((size) => {
+      objectUrls.get(blobKey(id, size))?.then((url) => url && URL.revokeObjectURL(url));
+      objectUrls.delete(blobKey(id, size));
+    })
+  );
+  return removed.size;
+}
+
+/** Ids of every photo used by `recipes`. */
+export function getPhotoIds(recipes: { photos: RecipePhoto[] }[]): Set<string> {
+  return new Set(recipes.flatMap((recipe) => recipe.photos.map((photo) => photo.id)));
+}
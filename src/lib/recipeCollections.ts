@@ -0,0 +1,130 @@
+import { Ingredient, Measurement, Recipe } from '../types';
+import { ImportCatalog, ParsedRecipe, RecipeDraft, RecipeImportError, resolveParsedRecipe } from './recipeImport';
+import { parseCooklang } from './cooklang';
+import { parseMealMaster } from './mealMaster';
+import { readPaprika } from './paprika';
+import { getLineIngredientIds, isCompleteLine } from './ingredientLines';
+
+/**
+ * Importing whole recipe collections exported from other apps: Cooklang files, MealMaster text
+ * and Paprika archives. Unlike a single pasted or saved recipe, these are added in one go rather
+ * than each reviewed in the form; recipes whose name is already taken are skipped, and those
+ * with lines worth checking are listed in the import summary.
+ */
+
+// What the file picker offers
+export const COLLECTION_FILE_TYPES = '.cook,.mmf,.mm,.txt,.paprikarecipes,.paprikarecipe';
+
+/** A recipe to add, as read and as matched against the catalog. */
+export interface CollectionRecipe {
+  parsed: ParsedRecipe;
+  // Only the lines that can be saved
+  draft: RecipeDraft;
+  // Lines to check, including those left out, as "<line>: <what>"
+  issues: string[];
+}
+
+/** The recipes read from one exported file. */
+export interface RecipeFile {
+  recipes: ParsedRecipe[];
+  // Recipes in the file that could not be read, with why
+  skipped: { name: string; reason: string }[];
+}
+
+/** What importing a set of parsed recipes comes to. */
+export interface CollectionImportPlan {
+  recipes: CollectionRecipe[];
+  // Left out, with why
+  skipped: { name: string; reason: string }[];
+  // Catalog entries the recipes need, to add with them
+  newIngredients: Ingredient[];
+  newMeasurements: Measurement[];
+}
+
+/** The outcome of an import, as shown to the user afterwards. */
+export interface CollectionImportSummary {
+  // Ids of the added recipes, with what to check in each
+  imported: { id: string; name: string; issues: string[] }[];
+  skipped: { name: string; reason: string }[];
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * The recipes in an exported file, recognised by its extension. Throws a RecipeImportError for
+ * files of other kinds and for damaged ones; damaged recipes in an otherwise readable Paprika
+ * archive are listed as skipped instead.
+ */
+export async function readRecipeFile(file: File, measurements: Measurement[]): Promise<RecipeFile> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'cook') return { recipes: [parseCooklang(await file.text(), file.name)], skipped: [] };
+  if (extension === 'paprikarecipes' || extension === 'paprikarecipe') {
+    return readPaprika(new Uint8Array(await file.arrayBuffer()), measurements);
+  }
+  if (['mmf', 'mm', 'txt'].includes(extension)) {
+    const recipes = parseMealMaster(await file.text());
+    if (recipes.length === 0) throw new RecipeImportError(`"${file.name}" has no MealMaster recipes`);
+    return { recipes, skipped: [] };
+  }
+  throw new RecipeImportError(`"${file.name}" is not a Cooklang, MealMaster or Paprika file`);
+}
+
+/**
+ * Match parsed recipes against the catalog and the recipes already there. Lines the recipe form
+ * would not save, those without an amount or an ingredient, are left out and listed as issues. A
+ * recipe is skipped when one of the same name exists or comes earlier in the import, or when it
+ * is left without ingredients or steps. Catalog entries created for one recipe are reused by the
+ * next; those only the left-out lines needed are not added.
+ */
+export function planCollectionImport(
+  parsed: ParsedRecipe[],
+  existing: Recipe[],
+  catalog: ImportCatalog
+): CollectionImportPlan {
+  const plan: CollectionImportPlan = { recipes: [], skipped: [], newIngredients: [], newMeasurements: [] };
+  const taken = new Set(existing.map((r) => nameKey(r.name)));
+
+  parsed.forEach((recipe) => {
+    const key = nameKey(recipe.name);
+    if (taken.has(key)) {
+      const inImport = plan.recipes.some((r) => nameKey(r.parsed.name) === key);
+      plan.skipped.push({ name: recipe.name, reason: inImport ? 'Appears twice in the import' : 'Already in your recipes' });
+      return;
+    }
+    const { draft, newIngredients, newMeasurements } = resolveParsedRecipe(recipe, {
+      ...catalog,
+      ingredients: [...catalog.ingredients, ...plan.newIngredients],
+      measurements: [...catalog.measurements, ...plan.newMeasurements],
+    });
+    const lines = draft.content.ingredients;
+    const complete = lines.map(isCompleteLine);
+    if (!complete.includes(true) || draft.content.instructions.length === 0) {
+      const reason = lines.length === 0 ? 'No ingredients' : !complete.includes(true) ? 'No complete ingredient lines' : 'No steps';
+      plan.skipped.push({ name: recipe.name, reason });
+      return;
+    }
+    const issues = lines.flatMap((line, index) => {
+      const leftOut = line.quantity > 0 ? 'Left out, could not be read' : 'Left out, no amount given';
+      const issue = complete[index] ? draft.lineIssues[index] : leftOut;
+      return issue ? [`${recipe.ingredients[index].text}: ${issue}`] : [];
+    });
+    taken.add(key);
+    plan.recipes.push({
+      parsed: recipe,
+      draft: {
+        content: { ...draft.content, ingredients: lines.filter((_, index) => complete[index]) },
+        lineIssues: draft.lineIssues.filter((_, index) => complete[index]),
+      },
+      issues,
+    });
+    plan.newIngredients.push(...newIngredients);
+    plan.newMeasurements.push(...newMeasurements);
+  });
+
+  const kept = plan.recipes.flatMap((r) => r.draft.content.ingredients);
+  const usedIngredients = new Set(kept.flatMap(getLineIngredientIds));
+  const usedMeasurements = new Set(kept.map((line) => line.measurementId));
+  plan.newIngredients = plan.newIngredients.filter((i) => usedIngredients.has(i.id));
+  plan.newMeasurements = plan.newMeasurements.filter((m) => usedMeasurements.has(m.id));
+  return plan;
+}
@@ -0,0 +1,281 @@
+import { Ingredient, Measurement, Recipe, RecipeIngredient } from '../types';
+import { groupIngredients } from './ingredientSections';
+import { formatLineIngredients } from './ingredientLines';
+import { isSubRecipeLine } from './subRecipes';
+import { COURSE_LABELS, CUISINE_LABELS } from './tags';
+import { TIME_LABELS, RECIPE_TIME_FIELDS, formatMinutes, getTotalMinutes } from './times';
+import { dateStamp } from './files';
+import { writeZip } from './zip';
+
+/**
+ * Getting recipes out of the app in portable forms: schema.org Recipe JSON-LD (what recipe sites
+ * and other apps read), Markdown for people, and Cooklang text. Ingredient and unit ids are
+ * written out as their catalog names, and recipes can be scaled to a number of servings first.
+ */
+
+export type ExportFormat = 'json-ld' | 'markdown' | 'cooklang';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json-ld', 'markdown', 'cooklang'];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  'json-ld': 'JSON-LD (schema.org)',
+  markdown: 'Markdown',
+  cooklang: 'Cooklang',
+};
+
+// Opens the Cooklang step listing ingredients no other step mentions
+export const COOKLANG_GATHER_STEP = 'Get ready:';
+
+/** Catalog the ids in recipes are named from; `recipes` names sub-recipe lines. */
+export interface ExportCatalog {
+  ingredients: Ingredient[];
+  measurements: Measurement[];
+  recipes: Recipe[];
+}
+
+/** A file ready to download. */
+export interface ExportFile {
+  fileName: string;
+  // Text, or a Blob for an archive
+  content: string | Blob;
+  type: string;
+}
+
+/** Amount as written in exports: up to two decimals, no trailing zeros. */
+const formatAmount = (quantity: number) => String(Number(quantity.toFixed(2)));
+
+// Cooklang files are named after their recipe, which is how references to them are written
+const toCooklangFileName = (name: string) => name.replace(/[\\/:*?"<>|{}@#~]+/g, ' ').replace(/\s+/g, ' ').trim() || 'Recipe';
+
+// Name used in other file names, e.g. "Grandma's Pancakes" is grandmas-pancakes
+const toFileStem = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'recipe';
+
+/**
+ * `recipe` with its amounts, and yield, scaled from its own servings to `servings`.
+ * Returned unchanged when `servings` is unset or the same.
+ */
+export function scaleRecipe(recipe: Recipe, servings: number | undefined): Recipe {
+  if (!servings || servings <= 0 || servings === recipe.servings) return recipe;
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ...(recipe.yield && { yield: { ...recipe.yield, quantity: recipe.yield.quantity * factor } }),
+    ingredients: recipe.ingredients.map((line) => ({ ...line, quantity: line.quantity * factor })),
+  };
+}
+
+/** Names of what a recipe refers to, with the fallbacks used when an entry no longer exists. */
+function createNamer(catalog: ExportCatalog) {
+  const ingredientName = (id: string) => catalog.ingredients.find((i) => i.id === id)?.name ?? 'Unknown ingredient';
+  const recipeName = (id: string) => catalog.recipes.find((r) => r.id === id)?.name ?? 'Unknown recipe';
+  const unitName = (line: RecipeIngredient) => {
+    // A sub-recipe line without a unit is counted in servings
+    if (isSubRecipeLine(line) && !line.measurementId) return 'servings';
+    return catalog.measurements.find((m) => m.id === line.measurementId)?.name ?? '';
+  };
+  const lineName = (line: RecipeIngredient) =>
+    isSubRecipeLine(line) ? recipeName(line.recipeId) : formatLineIngredients(line, ingredientName);
+  return { ingredientName, recipeName, unitName, lineName };
+}
+
+/** "1.5 cup Flour, sifted (optional)": a line as one line of text. */
+function describeLine(line: RecipeIngredient, namer: ReturnType<typeof createNamer>): string {
+  const amount = line.quantity > 0 ? `${formatAmount(line.quantity)} ${namer.unitName(line)} `.replace(/\s+/g, ' ') : '';
+  const note = line.note ? `, ${line.note}` : '';
+  return `${amount}${namer.lineName(line)}${note}${line.optional ? ' (optional)' : ''}`;
+}
+
+/** "2 loaf": the recipe's yield as text, when it has one. */
+function describeYield(recipe: Recipe, catalog: ExportCatalog): string | undefined {
+  if (!recipe.yield) return undefined;
+  const unit = catalog.measurements.find((m) => m.id === recipe.yield!.measurementId)?.name ?? '';
+  return `${formatAmount(recipe.yield.quantity)} ${unit}`.trim();
+}
+
+const toIsoDuration = (minutes: number) =>
+  `PT${minutes >= 60 ? `${Math.floor(minutes / 60)}H` : ''}${minutes % 60 > 0 || minutes === 0 ? `${minutes % 60}M` : ''}`;
+
+/** A recipe as a schema.org Recipe object. */
+export function toJsonLd(recipe: Recipe, catalog: ExportCatalog): Record<string, unknown> {
+  const namer = createNamer(catalog);
+  const total = getTotalMinutes(recipe);
+  const yieldText = describeYield(recipe, catalog);
+  const groups = groupIngredients(recipe.ingredients);
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.name,
+    ...(recipe.description && { description: recipe.description }),
+    dateCreated: new Date(recipe.createdAt).toISOString(),
+    recipeYield: yieldText ? [String(recipe.servings), yieldText] : `${recipe.servings} servings`,
+    ...(recipe.prepMinutes !== undefined && { prepTime: toIsoDuration(recipe.prepMinutes) }),
+    ...(recipe.cookMinutes !== undefined && { cookTime: toIsoDuration(recipe.cookMinutes) }),
+    ...(total !== undefined && { totalTime: toIsoDuration(total) }),
+    ...(recipe.course && { recipeCategory: COURSE_LABELS[recipe.course] }),
+    ...(recipe.cuisine && { recipeCuisine: CUISINE_LABELS[recipe.cuisine] }),
+    ...(recipe.tags.length > 0 && { keywords: recipe.tags.join(', ') }),
+    // schema.org has no ingredient sections, so lines in one say which
+    recipeIngredient: groups.flatMap((group) =>
+      group.lines.map(({ ingredient }) => `${describeLine(ingredient, namer)}${group.section ? ` (${group.section})` : ''}`)
+    ),
+    recipeInstructions: recipe.instructions
+      .filter((step) => step.trim())
+      .map((step) => ({ '@type': 'HowToStep', text: step })),
+  };
+}
+
+/** A recipe as a Markdown document. */
+export function toMarkdown(recipe: Recipe, catalog: ExportCatalog): string {
+  const namer = createNamer(catalog);
+  const yieldText = describeYield(recipe, catalog);
+  const details = [
+    `**Serves** ${recipe.servings}`,
+    ...(yieldText ? [`**Makes** ${yieldText}`] : []),
+    ...RECIPE_TIME_FIELDS.filter((field) => recipe[field] !== undefined).map(
+      (field) => `**${TIME_LABELS[field]}** ${formatMinutes(recipe[field]!)}`
+    ),
+    ...(recipe.course ? [`**Course** ${COURSE_LABELS[recipe.course]}`] : []),
+    ...(recipe.cuisine ? [`**Cuisine** ${CUISINE_LABELS[recipe.cuisine]}`] : []),
+  ];
+
+  const lines = [`# ${recipe.name}`, ''];
+  if (recipe.description) lines.push(recipe.description, '');
+  lines.push(details.join(' · '), '');
+  if (recipe.tags.length > 0) lines.push(recipe.tags.map((tag) => `#${tag.replace(/\s+/g, '-')}`).join(' '), '');
+
+  lines.push('## Ingredients', '');
+  groupIngredients(recipe.ingredients).forEach((group) => {
+    if (group.section) lines.push(`### ${group.section}`, '');
+    group.lines.forEach(({ ingredient }) => lines.push(`- ${describeLine(ingredient, namer)}`));
+    lines.push('');
+  });
+
+  const steps = recipe.instructions.filter((step) => step.trim());
+  if (steps.length > 0) {
+    lines.push('## Instructions', '');
+    steps.forEach((step, index) => lines.push(`${index + 1}. ${step.trim()}`));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * A recipe as Cooklang text. Cooklang marks ingredients where the steps use them, so each line is
+ * marked at the first step mentioning its ingredient by name; lines no step mentions are listed in
+ * a first step of their own. Sub-recipes are written as references to their own .cook files.
+ */
+export function toCooklang(recipe: Recipe, catalog: ExportCatalog): string {
+  const namer = createNamer(catalog);
+  const total = getTotalMinutes(recipe);
+  const metadata: [string, string | undefined][] = [
+    ['title', recipe.name],
+    ['description', recipe.description.replace(/\s+/g, ' ') || undefined],
+    ['servings', String(recipe.servings)],
+    ['yield', describeYield(recipe, catalog)],
+    ['prep time', recipe.prepMinutes !== undefined ? `${recipe.prepMinutes} minutes` : undefined],
+    ['cook time', recipe.cookMinutes !== undefined ? `${recipe.cookMinutes} minutes` : undefined],
+    ['total time', total !== undefined ? `${total} minutes` : undefined],
+    ['course', recipe.course && COURSE_LABELS[recipe.course]],
+    ['cuisine', recipe.cuisine && CUISINE_LABELS[recipe.cuisine]],
+    ['tags', recipe.tags.length > 0 ? recipe.tags.join(', ') : undefined],
+  ];
+
+  const toCooklangIngredient = (line: RecipeIngredient, text: string) => {
+    const unit = namer.unitName(line);
+    const amount = line.quantity > 0 ? `${formatAmount(line.quantity)}${unit ? `%${unit}` : ''}` : '';
+    const alternates = (line.alternateIds ?? []).map((id) => `or ${namer.ingredientName(id)}`);
+    const details = [...alternates, line.note, line.optional ? 'optional' : undefined].filter(Boolean).join(', ');
+    return `@${text}{${amount}}${details ? `(${details})` : ''}`;
+  };
+
+  const steps = recipe.instructions.map((step) => step.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  // Marks to add to each step, by position in the step's text
+  const marks = steps.map(() => [] as { start: number; end: number; text: string }[]);
+  const unmentioned: string[] = [];
+  recipe.ingredients.forEach((line) => {
+    // Sub-recipes are references to their file; ingredients keep the step's wording ("eggs" for Egg)
+    const name = isSubRecipeLine(line) ? namer.recipeName(line.recipeId) : namer.ingredientName(line.ingredientId);
+    const markText = (found: string) => (isSubRecipeLine(line) ? `./${toCooklangFileName(name)}` : found);
+    const pattern = new RegExp(`\\b${escapeRegExp(name)}(?:e?s)?\\b`, 'i');
+    for (const [index, step] of steps.entries()) {
+      const match = step.match(pattern);
+      if (!match) continue;
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (marks[index].some((mark) => start < mark.end && end > mark.start)) continue;
+      marks[index].push({ start, end, text: toCooklangIngredient(line, markText(match[0])) });
+      return;
+    }
+    unmentioned.push(toCooklangIngredient(line, markText(name)));
+  });
+
+  const markedSteps = steps.map((step, index) =>
+    marks[index]
+      .sort((a, b) => b.start - a.start)
+      .reduce((text, mark) => text.slice(0, mark.start) + mark.text + text.slice(mark.end), step)
+  );
+  if (unmentioned.length > 0) markedSteps.unshift(`${COOKLANG_GATHER_STEP} ${unmentioned.join(', ')}.`);
+
+  return [
+    ...metadata.filter(([, value]) => value).map(([key, value]) => `>> ${key}: ${value}`),
+    '',
+    markedSteps.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+/**
+ * The file for exporting `recipes` in `format`, each scaled to `servings` when given. JSON-LD and
+ * Markdown put a selection in one file. Cooklang has one .cook file per recipe, as the format
+ * expects, so a selection is a zip archive of them: one download rather than many at once.
+ */
+export function exportRecipes(
+  recipes: Recipe[],
+  format: ExportFormat,
+  catalog: ExportCatalog,
+  servings?: number,
+  now = Date.now()
+): ExportFile {
+  const scaled = recipes.map((recipe) => scaleRecipe(recipe, servings));
+  const stem = scaled.length === 1 ? toFileStem(scaled[0].name) : `cucina-recipes-${dateStamp(now)}`;
+  switch (format) {
+    case 'json-ld': {
+      const objects = scaled.map((recipe) => toJsonLd(recipe, catalog));
+      const content = JSON.stringify(objects.length === 1 ? objects[0] : objects, null, 2);
+      return { fileName: `${stem}.json`, content, type: 'application/ld+json' };
+    }
+    case 'markdown':
+      return {
+        fileName: `${stem}.md`,
+        content: scaled.map((recipe) => toMarkdown(recipe, catalog)).join('\n---\n\n'),
+        type: 'text/markdown',
+      };
+    case 'cooklang': {
+      if (scaled.length === 1) {
+        const [recipe] = scaled;
+        return { fileName: `${toCooklangFileName(recipe.name)}.cook`, content: toCooklang(recipe, catalog), type: 'text/plain' };
+      }
+      // Recipes with the same name still get files of their own
+      const used = new Map<string, number>();
+      const files = scaled.map((recipe) => {
+        const base = toCooklangFileName(recipe.name);
+        const count = (used.get(base) ?? 0) + 1;
+        used.set(base, count);
+        return {
+          name: `${count > 1 ? `${base} ${count}` : base}.cook`,
+          data: new TextEncoder().encode(toCooklang(recipe, catalog)),
+        };
+      });
+      const archive = writeZip(files, now);
+      return { fileName: `${stem}.zip`, content: new Blob([archive], { type: 'application/zip' }), type: 'application/zip' };
+    }
+  }
+}
@@ -0,0 +1,313 @@
+import { Ingredient, Measurement, Recipe, RecipeContent, RecipeCourse, RecipeCuisine, RecipeIngredient, RecipePhoto } from '../types';
+import { normalizeSectionName } from './ingredientSections';
+import { normalizeNote } from './ingredientLines';
+import { COURSE_LABELS, CUISINE_LABELS, RECIPE_COURSES, RECIPE_CUISINES, normalizeTags } from './tags';
+
+/**
+ * Bringing recipes in from outside the app. Each format's parser produces a ParsedRecipe, whose
+ * ingredients and units are still plain text; `resolveParsedRecipe` then matches those against the
+ * catalog, creating custom entries for anything it lacks, and notes which lines need a second look.
+ */
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
+
+/** An ingredient line as read, before matching against the catalog. */
+export interface ParsedIngredientLine {
+  // The line as it was written, for showing when it could not be read
+  text: string;
+  // Unset when the line gives no amount ("salt to taste")
+  quantity?: number;
+  unit?: string;
+  // Empty when no ingredient could be made out
+  name: string;
+  note?: string;
+  optional?: boolean;
+  section?: string;
+  // Set when the line uses another recipe, by name; `name` is then that name too
+  recipeName?: string;
+}
+
+/** A recipe as read from text or a file. */
+export interface ParsedRecipe {
+  name: string;
+  description: string;
+  servings?: number;
+  prepMinutes?: number;
+  cookMinutes?: number;
+  tags?: string[];
+  // As written ("Main Course", "Italian"); matched against our courses and cuisines when resolving
+  course?: string;
+  cuisine?: string;
+  // Image addresses: web or relative URLs, or data: URLs carrying the image itself
+  images?: string[];
+  ingredients: ParsedIngredientLine[];
+  instructions: string[];
+}
+
+/** A recipe ready to review in the recipe form, with why each line needs checking, if it does. */
+export interface RecipeDraft {
+  content: RecipeContent;
+  // By index of `content.ingredients`
+  lineIssues: (string | undefined)[];
+  // Photos already stored for the new recipe
+  photos?: RecipePhoto[];
+  // Catalog entries the draft refers to that do not exist yet; they are added when it is saved
+  newIngredients?: Ingredient[];
+  newMeasurements?: Measurement[];
+}
+
+/** A draft and the catalog entries it refers to that do not exist yet. */
+export interface ResolvedRecipe {
+  draft: RecipeDraft;
+  newIngredients: Ingredient[];
+  newMeasurements: Measurement[];
+}
+
+/** Catalog the names are matched against, and how to create what is missing. */
+export interface ImportCatalog {
+  ingredients: Ingredient[];
+  measurements: Measurement[];
+  newId: () => string;
+  // Owner of created entries; unset for shared ones (see getNewCatalogOwner)
+  ownerId?: string;
+  // Recipes lines may use as sub-recipes
+  recipes?: Recipe[];
+}
+
+// Spellings of the default units, by unit name. Single letters are case-sensitive: T is a tablespoon, t a teaspoon.
+const UNIT_ALIASES: Record<string, string[]> = {
+  cup: ['c', 'cup', 'cups'],
+  tablespoon: ['T', 'tbsp', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+  teaspoon: ['t', 'tsp', 'teaspoon', 'teaspoons'],
+  'fluid ounce': ['fl oz', 'fl. oz.', 'fluid ounce', 'fluid ounces'],
+  pint: ['pt', 'pint', 'pints'],
+  quart: ['qt', 'quart', 'quarts'],
+  gallon: ['gal', 'gallon', 'gallons'],
+  liter: ['l', 'L', 'liter', 'liters', 'litre', 'litres'],
+  milliliter: ['ml', 'mL', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  ounce: ['oz', 'ounce', 'ounces'],
+  pound: ['lb', 'lbs', 'pound', 'pounds'],
+  milligram: ['mg', 'milligram', 'milligrams'],
+  gram: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  kilogram: ['kg', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  piece: ['piece', 'pieces', 'pc', 'pcs'],
+  slice: ['slice', 'slices'],
+  clove: ['clove', 'cloves'],
+  bunch: ['bunch', 'bunches'],
+  can: ['can', 'cans', 'tin', 'tins'],
+  package: ['package', 'packages', 'pkg', 'packet', 'packets'],
+  handful: ['handful', 'handfuls'],
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  sprig: ['sprig', 'sprigs'],
+  leaf: ['leaf', 'leaves'],
+};
+
+// Unit of lines that count things ("2 eggs")
+const COUNT_UNIT = 'piece';
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Singular of a lowercase word or phrase, by the usual English endings; good enough for matching. */
+function singularize(name: string): string {
+  return name.replace(/(\w+)$/, (word) => {
+    if (/ies$/.test(word) && word.length > 4) return word.slice(0, -3) + 'y';
+    if (/(ch|sh|ss|x|o)es$/.test(word)) return word.slice(0, -2);
+    if (/[^s]s$/.test(word) && word.length > 3) return word.slice(0, -1);
+    return word;
+  });
+}
+
+const matchKey = (name: string) => singularize(normalizeName(name));
+
+/**
+ * The unit name `text` spells, if it is one: a default unit's abbreviation or plural, or the
+ * name of any unit in `measurements`.
+ */
+export function findUnitName(text: string, measurements: Measurement[]): string | undefined {
+  const trimmed = text.trim().replace(/\.$/, '');
+  for (const [unit, aliases] of Object.entries(UNIT_ALIASES)) {
+    if (aliases.some((alias) => (alias.length === 1 ? alias === trimmed : alias === trimmed.toLowerCase()))) {
+      return unit;
+    }
+  }
+  return measurements.find((m) => matchKey(m.name) === matchKey(trimmed))?.name;
+}
+
+/**
+ * The catalog ingredient a name refers to: one with the same name (ignoring case and plurals), or
+ * failing that the longest whose name ends the given one ("all-purpose flour" is Flour).
+ * `exact` tells whether the names matched in full.
+ */
+function findIngredient(name: string, ingredients: Ingredient[]): { ingredient: Ingredient; exact: boolean } | undefined {
+  const key = matchKey(name);
+  const exact = ingredients.find((i) => matchKey(i.name) === key);
+  if (exact) return { ingredient: exact, exact: true };
+  const partial = ingredients
+    .filter((i) => ` ${key}`.endsWith(` ${matchKey(i.name)}`))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  return partial && { ingredient: partial, exact: false };
+}
+
+/** "all-purpose flour" as a catalog name: "All-Purpose Flour". */
+const toCatalogName = (name: string) =>
+  normalizeName(name).replace(/(^|[\s-])(\w)/g, (_match, gap: string, letter: string) => gap + letter.toUpperCase());
+
+/**
+ * The course or cuisine a category names, by its key or label appearing in it as a word
+ * ("Main Course" is main, "Desserts" is dessert).
+ */
+function findCategory<T extends string>(text: string, keys: T[], labels: Record<T, string>): T | undefined {
+  const words = ` ${normalizeName(text).replace(/[^a-z]+/g, ' ')} `;
+  return keys.find((key) =>
+    [key, labels[key]].some((name) => new RegExp(` ${normalizeName(name).replace(/[^a-z]+/g, ' ')}s? `).test(words))
+  );
+}
+
+/**
+ * Match a parsed recipe's ingredients and units against the catalog. Ingredients and units not
+ * found are created as custom entries, and lines are flagged when their ingredient was only
+ * partly matched or is new, their unit is new, or they give no amount or no ingredient.
+ * Entries created for one line are reused by later ones. Lines naming a recipe use it as a
+ * sub-recipe when `catalog.recipes` has one of that name.
+ */
+export function resolveParsedRecipe(parsed: ParsedRecipe, catalog: ImportCatalog): ResolvedRecipe {
+  const newIngredients: Ingredient[] = [];
+  const newMeasurements: Measurement[] = [];
+  const owner = catalog.ownerId ? { ownerId: catalog.ownerId } : {};
+  const lineIssues: (string | undefined)[] = [];
+
+  const resolveUnit = (unit: string): { measurement: Measurement; created: boolean } => {
+    const measurements = [...catalog.measurements, ...newMeasurements];
+    const name = findUnitName(unit, measurements) ?? normalizeName(unit);
+    const existing = measurements.find((m) => matchKey(m.name) === matchKey(name));
+    if (existing) return { measurement: existing, created: newMeasurements.includes(existing) };
+    const measurement: Measurement = { id: catalog.newId(), name, conversions: [], isCustom: true, ...owner };
+    newMeasurements.push(measurement);
+    return { measurement, created: true };
+  };
+
+  // Unit of a sub-recipe line: '' for servings, or the unit of the recipe's yield; undefined for any other
+  const findSubRecipeUnit = (unit: string | undefined, subRecipe: Recipe): string | undefined => {
+    if (!unit || /^servings?$/i.test(unit)) return '';
+    const yieldUnit = catalog.measurements.find((m) => m.id === subRecipe.yield?.measurementId);
+    return yieldUnit && findUnitName(unit, [yieldUnit]) === yieldUnit.name ? yieldUnit.id : undefined;
+  };
+
+  const ingredients: RecipeIngredient[] = parsed.ingredients.map((line) => {
+    const section = normalizeSectionName(line.section);
+    const note = normalizeNote(line.note);
+    const details = { ...(section && { section }), ...(note && { note }), ...(line.optional && { optional: true }) };
+    const subRecipe = line.recipeName
+      ? catalog.recipes?.find((r) => normalizeName(r.name) === normalizeName(line.recipeName!))
+      : undefined;
+    if (subRecipe) {
+      const issues: string[] = [];
+      const measurementId = findSubRecipeUnit(line.unit, subRecipe);
+      if (measurementId === undefined) issues.push(`${subRecipe.name} is not measured in ${line.unit}; counted in servings`);
+      if (line.quantity === undefined) issues.push('No amount given');
+      lineIssues.push(issues.length > 0 ? issues.join('; ') : undefined);
+      return {
+        ingredientId: '',
+        recipeId: subRecipe.id,
+        quantity: line.quantity ?? 0,
+        measurementId: measurementId ?? '',
+        ...details,
+      };
+    }
+
+    const issues: string[] = [];
+    if (line.recipeName) issues.push(`No recipe named ${line.recipeName}; added as an ingredient`);
+    let ingredientId = '';
+    if (!line.name) {
+      issues.push(`Could not read "${line.text}"`);
+    } else {
+      const found = findIngredient(line.name, [...catalog.ingredients, ...newIngredients]);
+      if (found && newIngredients.includes(found.ingredient)) {
+        issues.push(`New ingredient ${found.ingredient.name}`);
+      } else if (found && !found.exact) {
+        issues.push(`"${line.name}" was matched to ${found.ingredient.name}`);
+      }
+      let ingredient = found?.ingredient;
+      if (!ingredient) {
+        ingredient = { id: catalog.newId(), name: toCatalogName(line.name), isCustom: true, ...owner };
+        newIngredients.push(ingredient);
+        issues.push(`New ingredient ${ingredient.name}`);
+      }
+      ingredientId = ingredient.id;
+    }
+
+    const { measurement, created } = resolveUnit(line.unit ?? COUNT_UNIT);
+    if (created) issues.push(`New unit ${measurement.name}`);
+    if (line.quantity === undefined) issues.push('No amount given');
+
+    lineIssues.push(issues.length > 0 ? issues.join('; ') : undefined);
+    return { ingredientId, quantity: line.quantity ?? 0, measurementId: measurement.id, ...details };
+  });
+
+  // A course or cuisine we do not have is kept as a tag
+  const extraTags: string[] = [];
+  const course = parsed.course ? findCategory<RecipeCourse>(parsed.course, RECIPE_COURSES, COURSE_LABELS) : undefined;
+  if (parsed.course && !course) extraTags.push(parsed.course);
+  const cuisine = parsed.cuisine
+    ? findCategory<RecipeCuisine>(parsed.cuisine, RECIPE_CUISINES, CUISINE_LABELS)
+    : undefined;
+  if (parsed.cuisine && !cuisine) extraTags.push(parsed.cuisine);
+
+  const content: RecipeContent = {
+    name: parsed.name.trim(),
+    description: parsed.description.trim(),
+    servings: parsed.servings && parsed.servings > 0 ? parsed.servings : 4,
+    tags: normalizeTags([...(parsed.tags ?? []), ...extraTags]),
+    ...(course && { course }),
+    ...(cuisine && { cuisine }),
+    ...(parsed.prepMinutes !== undefined && { prepMinutes: parsed.prepMinutes }),
+    ...(parsed.cookMinutes !== undefined && { cookMinutes: parsed.cookMinutes }),
+    ingredients,
+    instructions: parsed.instructions.filter((step) => step.trim()),
+  };
+  return { draft: { content, lineIssues }, newIngredients, newMeasurements };
+}
+
+/** The image a data: URL carries, as a file; null when it is not a base64 image. */
+function dataUrlToFile(url: string, name: string): File | null {
+  const match = url.match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+  if (!match) return null;
+  try {
+    const bytes = Uint8Array.from(atob(match[2].replace(/\s+/g, '')), (char) => char.charCodeAt(0));
+    return new File([bytes], name, { type: match[1] });
+  } catch {
+    return null;
+  }
+}
+
+/** Last part of a URL's path, decoded: "photos/Pancakes%202.jpg?w=800" is "Pancakes 2.jpg". */
+function fileNameOf(url: string): string {
+  try {
+    return decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() ?? '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * The image files for a parsed recipe's images, taken from data: URLs or else from `files` by file
+ * name (a page saved with its images keeps them next to it under their original names). Nothing is
+ * downloaded; `missing` lists the addresses no file was found for.
+ */
+export function findImageFiles(images: string[], files: File[]): { found: File[]; missing: string[] } {
+  const found: File[] = [];
+  const missing: string[] = [];
+  images.forEach((url, index) => {
+    const fileName = fileNameOf(url);
+    const file = dataUrlToFile(url, `image-${index + 1}`) ?? files.find((f) => fileName && f.name === fileName);
+    if (file && !found.includes(file)) found.push(file);
+    else if (!file) missing.push(url);
+  });
+  return { found, missing };
+}
@@ -0,0 +1,177 @@
+import { Measurement } from '../types';
+import { ParsedRecipe } from './recipeImport';
+import { parseIngredientText } from './recipeText';
+
+/**
+ * Reading recipes from web pages. Most recipe sites describe their recipes for search engines as
+ * schema.org Recipe objects in `<script type="application/ld+json">` blocks, which survive when
+ * the page is saved; those are read here, so a saved .html file can be imported without going online.
+ */
+
+// Where we stop reading recipes in one page, against pages listing hundreds of them
+const MAX_RECIPES = 50;
+
+const SCRIPT_PATTERN = /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  deg: '°',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+/** Plain text of a schema.org text value, which sites often fill with HTML and entities. */
+function toText(value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  return String(value)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    })
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Minutes in an ISO 8601 duration such as "PT1H30M" or "P0DT0H45M"; undefined when it is not one.
+ * Sites write these by hand, so seconds and fractional parts are tolerated.
+ */
+export function parseIsoDuration(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || match.slice(1).every((part) => part === undefined)) return undefined;
+  const [days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return Math.round(days * 24 * 60 + hours * 60 + minutes + seconds / 60);
+}
+
+/** True for a node whose @type is, or includes, Recipe. */
+function isRecipeNode(node: JsonObject): boolean {
+  return asArray(node['@type']).some((type) => typeof type === 'string' && /^(?:schema:|https?:\/\/schema\.org\/)?Recipe$/.test(type));
+}
+
+/** Recipe nodes anywhere in a JSON-LD document: at the top, in an @graph, or nested in a page's mainEntity. */
+function findRecipeNodes(value: unknown, found: JsonObject[] = []): JsonObject[] {
+  if (found.length >= MAX_RECIPES) return found;
+  if (Array.isArray(value)) {
+    value.forEach((item) => findRecipeNodes(item, found));
+  } else if (isObject(value)) {
+    if (isRecipeNode(value)) found.push(value);
+    else Object.values(value).forEach((item) => findRecipeNodes(item, found));
+  }
+  return found;
+}
+
+/** Steps of recipeInstructions: one text, a list of texts or HowToSteps, or HowToSections of those. */
+function readInstructions(value: unknown): string[] {
+  return asArray(value).flatMap((item): string[] => {
+    if (typeof item === 'string') {
+      return toText(item)
+        .split(/\n+/)
+        .map((step) => step.replace(/^\s*\d+\s*[.)]\s*/, '').trim())
+        .filter(Boolean);
+    }
+    if (!isObject(item)) return [];
+    if (item.itemListElement !== undefined) return readInstructions(item.itemListElement);
+    const text = toText(item.text) || toText(item.name);
+    return text ? [text] : [];
+  });
+}
+
+/** Addresses of a recipe's images, which may be given as URLs or ImageObjects, alone or in a list. */
+function readImages(value: unknown): string[] {
+  const urls = asArray(value).flatMap((item) => {
+    if (typeof item === 'string') return [item];
+    if (isObject(item)) return asArray(item.url ?? item.contentUrl).filter((url): url is string => typeof url === 'string');
+    return [];
+  });
+  return [...new Set(urls.map((url) => url.trim()).filter(Boolean))];
+}
+
+/** Texts of a value given as one comma-separated text or a list ("keywords", "recipeCategory"). */
+const readList = (value: unknown): string[] =>
+  asArray(value)
+    .flatMap((item) => toText(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/** Servings in a recipeYield such as 4, "4", "Serves 4" or ["4", "4 pancakes"]; the first number wins. */
+function readServings(value: unknown): number | undefined {
+  for (const item of asArray(value)) {
+    const number = toText(item).match(/\d+/);
+    if (number && Number(number[0]) > 0) return Number(number[0]);
+  }
+  return undefined;
+}
+
+/** A schema.org Recipe node as a parsed recipe. */
+function readRecipeNode(node: JsonObject, measurements: Measurement[]): ParsedRecipe {
+  const prepMinutes = parseIsoDuration(node.prepTime);
+  let cookMinutes = parseIsoDuration(node.cookTime);
+  // With only a total time, count all of it as cooking rather than lose it
+  if (prepMinutes === undefined && cookMinutes === undefined) cookMinutes = parseIsoDuration(node.totalTime);
+  const servings = readServings(node.recipeYield ?? node.yield);
+  const course = readList(node.recipeCategory).join(', ');
+  const cuisine = readList(node.recipeCuisine).join(', ');
+  const images = readImages(node.image);
+
+  return {
+    name: toText(node.name),
+    description: toText(node.description),
+    ...(servings !== undefined && { servings }),
+    ...(prepMinutes !== undefined && { prepMinutes }),
+    ...(cookMinutes !== undefined && { cookMinutes }),
+    tags: readList(node.keywords),
+    ...(course && { course }),
+    ...(cuisine && { cuisine }),
+    ...(images.length > 0 && { images }),
+    // "ingredients" is the older name of recipeIngredient, still found on some sites
+    ingredients: asArray(node.recipeIngredient ?? node.ingredients)
+      .map(toText)
+      .filter(Boolean)
+      .map((line) => parseIngredientText(line, measurements)),
+    instructions: readInstructions(node.recipeInstructions),
+  };
+}
+
+/**
+ * Every schema.org Recipe described in an HTML page, in page order. Blocks that are not valid
+ * JSON are skipped, as are recipes without a name. Returns an empty list when there are none.
+ */
+export function readJsonLdRecipes(html: string, measurements: Measurement[]): ParsedRecipe[] {
+  const nodes: JsonObject[] = [];
+  for (const [, script] of html.matchAll(SCRIPT_PATTERN)) {
+    try {
+      // Some sites wrap the JSON in an HTML comment or CDATA section
+      findRecipeNodes(JSON.parse(script.replace(/^\s*(?:<!--|\/\/\s*<!\[CDATA\[)|(?:-->|\/\/\s*\]\]>)\s*$/g, '')), nodes);
+    } catch {
+      // Not JSON; the page may still describe its recipe in another block
+    }
+  }
+  return nodes
+    .slice(0, MAX_RECIPES)
+    .map((node) => readRecipeNode(node, measurements))
+    .filter((recipe) => recipe.name);
+}
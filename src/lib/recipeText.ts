@@ -0,0 +1,219 @@
+import { Measurement } from '../types';
+import { ParsedIngredientLine, ParsedRecipe, findUnitName } from './recipeImport';
+
+/**
+ * Reading a recipe pasted as plain text, as copied from a web page, e-mail or document.
+ * The first line is the title; "Ingredients" and "Instructions" (or "Directions", "Method")
+ * headings split the rest when present, otherwise lines starting with an amount are ingredients
+ * and numbered lines are steps. Lines such as "Serves 4" or "Prep time: 15 minutes" fill in the
+ * servings and times.
+ */
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+// A single amount: "1 1/2", "1/2", "1.5", "1,5", "1½" or "½"
+const AMOUNT = `(?:\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d+(?:[.,]\\d+)?\\s*[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+// An amount, or a range of them ("2-3", "2 to 3"), at the start of a line
+const QUANTITY_PATTERN = new RegExp(`^(${AMOUNT})(?:\\s*(?:-|–|to)\\s*${AMOUNT})?\\s*`);
+
+const BULLET_PATTERN = /^\s*(?:[-*•·▢□]|\[\s?\])\s*/;
+// "2." or "Step 2:", but not the "1.5" of an amount
+const STEP_NUMBER_PATTERN = /^\s*(?:step\s*)?\d+\s*[.):](?!\d)\s*/i;
+const INGREDIENTS_HEADING = /^(?:ingredients?|you will need|what you need)\s*:?$/i;
+const INSTRUCTIONS_HEADING = /^(?:instructions?|directions?|method|preparation|steps|how to make it)\s*:?$/i;
+
+/** The value of an amount such as "1 1/2", "1½" or "0.5"; NaN when it is not one. */
+export function parseAmount(text: string): number {
+  const trimmed = text.trim().replace(',', '.');
+  const fraction = [...trimmed].find((char) => char in UNICODE_FRACTIONS);
+  const whole = fraction ? trimmed.replace(fraction, '').trim() : trimmed;
+  const extra = fraction ? UNICODE_FRACTIONS[fraction] : 0;
+  if (!whole) return extra;
+  const mixed = whole.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) + extra;
+  const simple = whole.match(/^(\d+)\/(\d+)$/);
+  if (simple) return Number(simple[1]) / Number(simple[2]) + extra;
+  return Number(whole) + extra;
+}
+
+/** Minutes in a duration such as "1 hour 15 minutes", "45 min" or "1 1/2 hours"; undefined when there are none. */
+export function parseDuration(text: string): number | undefined {
+  const hours = text.match(new RegExp(`(${AMOUNT})\\s*(?:h|hrs?|hours?)\\b`, 'i'));
+  const minutes = text.match(new RegExp(`(${AMOUNT})\\s*(?:m|mins?|minutes?)\\b`, 'i'));
+  if (!hours && !minutes) return undefined;
+  return Math.round((hours ? parseAmount(hours[1]) * 60 : 0) + (minutes ? parseAmount(minutes[1]) : 0));
+}
+
+/**
+ * Read one ingredient line, such as "1 1/2 cups all-purpose flour, sifted" or
+ * "2 (14 oz) cans tomatoes". Text after a comma, and in brackets, becomes the note;
+ * "optional" anywhere in it marks the line optional.
+ */
+export function parseIngredientText(line: string, measurements: Measurement[]): ParsedIngredientLine {
+  const text = line.trim();
+  let rest = text.replace(BULLET_PATTERN, '');
+  const notes: string[] = [];
+
+  let quantity: number | undefined;
+  const amount = rest.match(QUANTITY_PATTERN);
+  if (amount) {
+    quantity = parseAmount(amount[1]);
+    rest = rest.slice(amount[0].length);
+  }
+
+  // A package size straight after the amount: "2 (14 oz) cans"
+  const size = rest.match(/^\(([^)]*)\)\s*/);
+  if (size) {
+    notes.push(size[1]);
+    rest = rest.slice(size[0].length);
+  }
+
+  let unit: string | undefined;
+  const words = rest.split(/\s+/);
+  // Two-word units first ("fl oz", "fluid ounce"), then one word
+  for (const count of [2, 1]) {
+    const candidate = words.slice(0, count).join(' ');
+    if (words.length > count && findUnitName(candidate, measurements)) {
+      unit = candidate.replace(/\.$/, '');
+      rest = words.slice(count).join(' ');
+      break;
+    }
+  }
+  rest = rest.replace(/^of\s+/i, '');
+
+  // Brackets and anything after the first comma are preparation notes
+  rest = rest.replace(/\(([^)]*)\)/g, (_match, inner: string) => {
+    notes.push(inner);
+    return '';
+  });
+  const [name, ...after] = rest.split(',');
+  notes.push(...after);
+
+  let optional = false;
+  const kept = notes
+    .map((note) => note.trim())
+    .filter((note) => {
+      if (!/^optional$/i.test(note)) return Boolean(note);
+      optional = true;
+      return false;
+    });
+  let cleanName = name.replace(/\s+/g, ' ').trim();
+  if (/\boptional\b/i.test(cleanName)) {
+    optional = true;
+    cleanName = cleanName.replace(/\s*\boptional\b\s*/i, ' ').trim();
+  }
+  // "salt to taste": the amount is up to the cook
+  const toTaste = cleanName.match(/\s+(to taste|as needed)$/i);
+  if (toTaste) {
+    kept.unshift(toTaste[1].toLowerCase());
+    cleanName = cleanName.slice(0, toTaste.index).trim();
+  }
+
+  return {
+    text,
+    ...(quantity !== undefined && !Number.isNaN(quantity) && { quantity }),
+    ...(unit && { unit }),
+    name: cleanName,
+    ...(kept.length > 0 && { note: kept.join(', ') }),
+    ...(optional && { optional }),
+  };
+}
+
+/** The section an ingredient heading such as "For the glaze:" starts; undefined for other lines. */
+export function readSectionHeading(line: string): string | undefined {
+  const text = line.trim();
+  if (!text.endsWith(':') || QUANTITY_PATTERN.test(text.replace(BULLET_PATTERN, ''))) return undefined;
+  const section = text.slice(0, -1).replace(/^for the\s+/i, '').trim();
+  return section ? section.charAt(0).toUpperCase() + section.slice(1) : undefined;
+}
+
+/** Servings or times given on a line of their own ("Serves 4", "Cook time: 1 hour"); null for other lines. */
+function parseDetailLine(line: string): Partial<Pick<ParsedRecipe, 'servings' | 'prepMinutes' | 'cookMinutes'>> | null {
+  const servings = line.match(/^(?:serves|servings|yield|yields|makes)\s*:?\s*(\d+)/i);
+  if (servings) return { servings: Number(servings[1]) };
+  const time = line.match(/^(prep|preparation|cook|cooking|bake|baking|total)(?:\s*time)?\s*:\s*(.+)$/i);
+  if (!time) return null;
+  const minutes = parseDuration(time[2]);
+  if (/^total/i.test(time[1]) || minutes === undefined) return {};
+  return /^prep/i.test(time[1]) ? { prepMinutes: minutes } : { cookMinutes: minutes };
+}
+
+/** Read a whole recipe pasted as text. Ingredient names and units are left as written. */
+export function parseRecipeText(text: string, measurements: Measurement[]): ParsedRecipe {
+  const recipe: ParsedRecipe = { name: '', description: '', ingredients: [], instructions: [] };
+  const description: string[] = [];
+  // Which part of the recipe the lines belong to; 'intro' until ingredients or steps start
+  let part: 'intro' | 'ingredients' | 'instructions' = 'intro';
+  let section: string | undefined;
+  // Whether the steps are numbered, so unnumbered lines continue the step before
+  let numberedSteps = false;
+  const hasHeadings = text.split('\n').some((line) => INGREDIENTS_HEADING.test(line.trim()));
+
+  text.split('\n').forEach((raw) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (!recipe.name) {
+      recipe.name = line.replace(/^#+\s*/, '');
+      return;
+    }
+    if (INGREDIENTS_HEADING.test(line)) {
+      part = 'ingredients';
+      return;
+    }
+    if (INSTRUCTIONS_HEADING.test(line)) {
+      part = 'instructions';
+      return;
+    }
+    const details = parseDetailLine(line);
+    if (details) {
+      Object.assign(recipe, details);
+      return;
+    }
+
+    const isStep = STEP_NUMBER_PATTERN.test(line);
+    // An amount, unless it is the number of a step ("2. Stir")
+    const unbulleted = line.replace(BULLET_PATTERN, '');
+    const amount = unbulleted.match(QUANTITY_PATTERN);
+    const startsWithAmount = !!amount && !/^[.):]/.test(unbulleted.slice(amount[0].length));
+    // Without headings, the kind of line decides where it goes
+    if (!hasHeadings && part !== 'instructions') {
+      if (startsWithAmount) part = 'ingredients';
+      else if (isStep) part = 'instructions';
+      else if (part === 'ingredients' && BULLET_PATTERN.test(line)) part = 'ingredients';
+      else if (part === 'ingredients') part = 'instructions';
+    }
+
+    if (part === 'intro') {
+      description.push(line);
+    } else if (part === 'ingredients') {
+      const heading = readSectionHeading(line);
+      if (heading) {
+        section = heading;
+        return;
+      }
+      recipe.ingredients.push({ ...parseIngredientText(line, measurements), ...(section && { section }) });
+    } else if (isStep) {
+      numberedSteps = true;
+      recipe.instructions.push(line.replace(STEP_NUMBER_PATTERN, ''));
+    } else if (numberedSteps && recipe.instructions.length > 0) {
+      recipe.instructions[recipe.instructions.length - 1] += ` ${line}`;
+    } else {
+      recipe.instructions.push(line.replace(BULLET_PATTERN, ''));
+    }
+  });
+
+  recipe.description = description.join(' ');
+  return recipe;
+}
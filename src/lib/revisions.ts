@@ -0,0 +1,188 @@
+import { AppData, Recipe, RecipeContent, RecipeRevision } from '../types';
+import { isSubRecipeLine } from './subRecipes';
+
+/**
+ * Recipe revision history. Every save that changes a recipe's content appends a revision holding
+ * a full copy of it, so any two can be compared and an older one restored. Photos are not part of
+ * revisions: their images are pruned once no recipe uses them (see lib/photos.ts).
+ */
+
+export type RevisionField = keyof RecipeContent;
+
+// Oldest revisions beyond this many are dropped, to keep stored data small
+export const MAX_REVISIONS = 50;
+
+export const REVISION_FIELDS: RevisionField[] = [
+  'name',
+  'description',
+  'servings',
+  'yield',
+  'tags',
+  'course',
+  'cuisine',
+  'prepMinutes',
+  'cookMinutes',
+  'restMinutes',
+  'ingredients',
+  'instructions',
+];
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  name: 'Name',
+  description: 'Description',
+  servings: 'Servings',
+  yield: 'Yield',
+  tags: 'Tags',
+  course: 'Course',
+  cuisine: 'Cuisine',
+  prepMinutes: 'Prep time',
+  cookMinutes: 'Cook time',
+  restMinutes: 'Rest time',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+};
+
+/** One row of a side-by-side diff; `left` is the older text and `right` the newer. */
+export interface DiffRow {
+  change: 'same' | 'removed' | 'added' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+/** The revisioned content of a recipe, without optional fields that are unset. */
+export function getRecipeContent(recipe: RecipeContent): RecipeContent {
+  const content: Partial<Record<RevisionField, unknown>> = {};
+  REVISION_FIELDS.forEach((field) => {
+    if (recipe[field] !== undefined) content[field] = recipe[field];
+  });
+  return content as RecipeContent;
+}
+
+// JSON with object keys sorted, so values compare equal whatever order their keys were written in
+const toComparable = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+
+/** Fields whose values differ between two versions of a recipe's content. */
+export function getChangedFields(before: RecipeContent, after: RecipeContent): RevisionField[] {
+  return REVISION_FIELDS.filter((field) => toComparable(before[field]) !== toComparable(after[field]));
+}
+
+/** `recipe` with its content replaced by `content`; optional fields missing from it are cleared. */
+export function applyRecipeContent(recipe: Recipe, content: RecipeContent): Recipe {
+  const rest: Partial<Recipe> = { ...recipe };
+  REVISION_FIELDS.forEach((field) => delete rest[field]);
+  return { ...(rest as Recipe), ...getRecipeContent(content) };
+}
+
+/**
+ * The recipe's revisions with one more for its current content, or unchanged when the content
+ * has not changed since the last one. A recipe saved before revisions were kept first gets a
+ * revision of how it was, credited to its author at its creation time.
+ */
+export function addRevision(
+  recipe: Recipe,
+  revision: Omit<RecipeRevision, 'changedFields' | 'content'>,
+  previous?: Recipe
+): RecipeRevision[] {
+  let revisions = recipe.revisions ?? [];
+  if (revisions.length === 0 && previous) {
+    revisions = [
+      {
+        id: `${revision.id}:initial`,
+        savedAt: previous.createdAt,
+        userId: previous.userId,
+        changedFields: [],
+        content: getRecipeContent(previous),
+      },
+    ];
+  }
+  const content = getRecipeContent(recipe);
+  const last = revisions[revisions.length - 1];
+  const changedFields = last ? getChangedFields(last.content, content) : [];
+  if (last && changedFields.length === 0) return revisions;
+  return [...revisions, { ...revision, changedFields, content }].slice(-MAX_REVISIONS);
+}
+
+/**
+ * A revision's content as it can be restored now: lines whose ingredient, unit or sub-recipe no
+ * longer exists are dropped, as is a yield in a unit that is gone.
+ */
+export function getRestorableContent(
+  content: RecipeContent,
+  data: Pick<AppData, 'ingredients' | 'measurements' | 'recipes'>
+): RecipeContent {
+  const ingredientIds = new Set(data.ingredients.map((i) => i.id));
+  const measurementIds = new Set(data.measurements.map((m) => m.id));
+  const recipeIds = new Set(data.recipes.map((r) => r.id));
+  const ingredients = content.ingredients
+    .filter((ing) =>
+      isSubRecipeLine(ing)
+        ? recipeIds.has(ing.recipeId) && (!ing.measurementId || measurementIds.has(ing.measurementId))
+        : ingredientIds.has(ing.ingredientId) && measurementIds.has(ing.measurementId)
+    )
+    .map(({ alternateIds, ...ing }) => {
+      const known = alternateIds?.filter((id) => ingredientIds.has(id));
+      return known && known.length > 0 ? { ...ing, alternateIds: known } : ing;
+    });
+  const { yield: recipeYield, ...rest } = content;
+  const keepYield = recipeYield && measurementIds.has(recipeYield.measurementId);
+  return {
+    ...rest,
+    ...(keepYield && {
+      yield:
+        recipeYield.ingredientId && !ingredientIds.has(recipeYield.ingredientId)
+          ? { quantity: recipeYield.quantity, measurementId: recipeYield.measurementId }
+          : recipeYield,
+    }),
+    ingredients,
+  };
+}
+
+/**
+ * Line-by-line diff of two lists of text, aligned on their longest common subsequence.
+ * A run of removed lines followed by added ones is paired up into 'changed' rows.
+ */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  // common[i][j]: length of the longest common subsequence of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] =
+        before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ change: left === undefined ? 'added' : right === undefined ? 'removed' : 'changed', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      rows.push({ change: 'same', left: before[i], right: after[j] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && common[i + 1][j] >= common[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
@@ -0,0 +1,614 @@
+import {
+  AppData,
+  User,
+  Ingredient,
+  Measurement,
+  MeasurementConversion,
+  RecipeIngredient,
+  RecipePhoto,
+  RecipeRevision,
+  RecipeYield,
+  Recipe,
+  InventoryItem,
+  CookingSession,
+  AuthSession,
+  Household,
+} from '../types';
+import { RECIPE_COURSES, RECIPE_CUISINES, normalizeTags } from './tags';
+import { RECIPE_TIME_FIELDS, RecipeTimeField } from './times';
+import { normalizeSectionName } from './ingredientSections';
+import { normalizeAlternateIds, normalizeNote } from './ingredientLines';
+import { findSubRecipeCycle, isSubRecipeLine } from './subRecipes';
+import { REVISION_FIELDS, getRecipeContent } from './revisions';
+
+/**
+ * Runtime schema for persisted data.
+ * Each `repairX` function checks one type from types/index.ts against untrusted input and
+ * returns a well-formed value, fixing what it can (defaults, clamping) and returning null
+ * when the record is unusable. Every fix or drop is recorded in `issues` as a readable line.
+ */
+
+export interface RepairResult {
+  data: AppData;
+  issues: string[];
+}
+
+type Issues = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  options.some((option) => option === value);
+
+const SESSION_STATUSES: CookingSession['status'][] = ['active', 'completed', 'cancelled'];
+
+// Repair each entry of a list, dropping entries the item repairer rejects
+function repairList<T>(
+  raw: unknown,
+  label: string,
+  issues: Issues,
+  repairItem: (value: Record<string, unknown>, issues: Issues) => T | null
+): T[] | null {
+  if (!Array.isArray(raw)) return null;
+  const result: T[] = [];
+  raw.forEach((value, index) => {
+    if (!isObject(value)) {
+      issues.push(`Removed ${label} #${index + 1}: not a record`);
+      return;
+    }
+    const repaired = repairItem(value, issues);
+    if (repaired) result.push(repaired);
+  });
+  return result;
+}
+
+// Keep the first record for each key; later duplicates are dropped
+function dedupe<T>(items: T[], keyOf: (item: T) => string, label: string, issues: Issues): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = keyOf(item);
+    if (seen.has(key)) {
+      issues.push(`Removed duplicate ${label} "${key}"`);
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// --- Per-type schema ---
+
+export function repairUser(value: Record<string, unknown>, issues: Issues): User | null {
+  if (!isString(value.id) || !isString(value.username) || !isString(value.password)) {
+    issues.push(`Removed user "${value.username ?? value.id ?? '?'}": missing id, username or password`);
+    return null;
+  }
+  const user: User = {
+    id: value.id,
+    username: value.username,
+    password: value.password,
+    role: value.role === 'admin' ? 'admin' : 'member',
+  };
+  if (isString(value.householdId)) user.householdId = value.householdId;
+  return user;
+}
+
+export function repairIngredient(value: Record<string, unknown>, issues: Issues): Ingredient | null {
+  if (!isString(value.id) || !isString(value.name)) {
+    issues.push(`Removed ingredient "${value.name ?? value.id ?? '?'}": missing id or name`);
+    return null;
+  }
+  const ingredient: Ingredient = { id: value.id, name: value.name };
+  if (value.isCustom === true) ingredient.isCustom = true;
+  if (isString(value.ownerId)) ingredient.ownerId = value.ownerId;
+  return ingredient;
+}
+
+function repairConversion(value: unknown): MeasurementConversion | null {
+  if (!isObject(value) || !isString(value.toMeasurementId) || !isNumber(value.factor) || value.factor <= 0) {
+    return null;
+  }
+  return { toMeasurementId: value.toMeasurementId, factor: value.factor };
+}
+
+export function repairMeasurement(value: Record<string, unknown>, issues: Issues): Measurement | null {
+  if (!isString(value.id) || !isString(value.name)) {
+    issues.push(`Removed measurement "${value.name ?? value.id ?? '?'}": missing id or name`);
+    return null;
+  }
+  const rawConversions: unknown[] = Array.isArray(value.conversions) ? value.conversions : [];
+  const conversions = rawConversions
+    .map(repairConversion)
+    .filter((c): c is MeasurementConversion => c !== null);
+  if (!Array.isArray(value.conversions) || conversions.length < rawConversions.length) {
+    issues.push(`Measurement "${value.name}": removed invalid conversions`);
+  }
+  const measurement: Measurement = { id: value.id, name: value.name, conversions };
+  if (value.isCustom === true) measurement.isCustom = true;
+  if (isString(value.ownerId)) measurement.ownerId = value.ownerId;
+  return measurement;
+}
+
+export function repairRecipeIngredient(value: unknown): RecipeIngredient | null {
+  if (
+    !isObject(value) ||
+    !isString(value.ingredientId) ||
+    !isString(value.measurementId) ||
+    !isNumber(value.quantity) ||
+    value.quantity < 0
+  ) {
+    return null;
+  }
+  const section = isString(value.section) ? normalizeSectionName(value.section) : undefined;
+  const note = isString(value.note) ? normalizeNote(value.note) : undefined;
+  const details = {
+    ...(section && { section }),
+    ...(note && { note }),
+    ...(value.optional === true && { optional: true }),
+  };
+  // Sub-recipe lines have no ingredient (nor alternates)
+  if (isString(value.recipeId) && value.recipeId) {
+    return { ingredientId: '', quantity: value.quantity, measurementId: value.measurementId, recipeId: value.recipeId, ...details };
+  }
+  const alternateIds = Array.isArray(value.alternateIds)
+    ? normalizeAlternateIds(value.ingredientId, value.alternateIds.filter(isString))
+    : undefined;
+  return {
+    ingredientId: value.ingredientId,
+    quantity: value.quantity,
+    measurementId: value.measurementId,
+    ...details,
+    ...(alternateIds && { alternateIds }),
+  };
+}
+
+export function repairRecipeYield(value: unknown): RecipeYield | null {
+  if (!isObject(value) || !isString(value.measurementId) || !isNumber(value.quantity) || value.quantity <= 0) {
+    return null;
+  }
+  return {
+    quantity: value.quantity,
+    measurementId: value.measurementId,
+    ...(isString(value.ingredientId) && value.ingredientId && { ingredientId: value.ingredientId }),
+  };
+}
+
+export function repairRecipePhoto(value: unknown): RecipePhoto | null {
+  if (
+    !isObject(value) ||
+    !isString(value.id) ||
+    !isNumber(value.width) ||
+    !isNumber(value.height) ||
+    value.width <= 0 ||
+    value.height <= 0
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    width: value.width,
+    height: value.height,
+    addedAt: isNumber(value.addedAt) ? value.addedAt : Date.now(),
+  };
+}
+
+// A revision's content is checked like a recipe; what is fixed in old versions is not reported
+export function repairRecipeRevision(value: unknown): RecipeRevision | null {
+  if (!isObject(value) || !isString(value.id) || !isString(value.userId) || !isObject(value.content)) {
+    return null;
+  }
+  const recipe = repairRecipe({ ...value.content, id: value.id, userId: value.userId }, []);
+  if (!recipe) return null;
+  const changedFields: unknown[] = Array.isArray(value.changedFields) ? value.changedFields : [];
+  return {
+    id: value.id,
+    savedAt: isNumber(value.savedAt) ? value.savedAt : 0,
+    userId: value.userId,
+    changedFields: REVISION_FIELDS.filter((field) => changedFields.includes(field)),
+    content: getRecipeContent(recipe),
+    ...(isString(value.restoredFrom) && { restoredFrom: value.restoredFrom }),
+  };
+}
+
+export function repairRecipe(value: Record<string, unknown>, issues: Issues): Recipe | null {
+  if (!isString(value.id) || !isString(value.name) || !isString(value.userId)) {
+    issues.push(`Removed recipe "${value.name ?? value.id ?? '?'}": missing id, name or owner`);
+    return null;
+  }
+  const label = `Recipe "${value.name}"`;
+
+  const rawIngredients: unknown[] = Array.isArray(value.ingredients) ? value.ingredients : [];
+  const ingredients = rawIngredients
+    .map(repairRecipeIngredient)
+    .filter((i): i is RecipeIngredient => i !== null);
+  if (ingredients.length < rawIngredients.length) {
+    issues.push(`${label}: removed ${rawIngredients.length - ingredients.length} malformed ingredient lines`);
+  }
+
+  const rawInstructions: unknown[] = Array.isArray(value.instructions) ? value.instructions : [];
+  const instructions = rawInstructions.filter(isString);
+  if (instructions.length < rawInstructions.length) {
+    issues.push(`${label}: removed ${rawInstructions.length - instructions.length} malformed steps`);
+  }
+
+  const count = (field: 'viewCount' | 'cookCount') => {
+    if (isNumber(value[field]) && value[field] >= 0) return value[field];
+    issues.push(`${label}: reset missing ${field} to 0`);
+    return 0;
+  };
+
+  const servings = isNumber(value.servings) && value.servings > 0 ? value.servings : 1;
+  if (servings !== value.servings) {
+    issues.push(`${label}: reset invalid servings to 1`);
+  }
+
+  const rawTags: unknown[] = Array.isArray(value.tags) ? value.tags : [];
+  const tags = normalizeTags(rawTags.filter(isString));
+  if (!Array.isArray(value.tags)) {
+    issues.push(`${label}: added missing tags`);
+  }
+  const recipeYield = value.yield === undefined ? null : repairRecipeYield(value.yield);
+  if (value.yield !== undefined && !recipeYield) {
+    issues.push(`${label}: removed invalid yield`);
+  }
+
+  const times: Partial<Pick<Recipe, RecipeTimeField>> = {};
+  RECIPE_TIME_FIELDS.forEach((field) => {
+    if (value[field] === undefined) return;
+    if (isNumber(value[field]) && value[field] >= 0) {
+      times[field] = Math.round(value[field]);
+    } else {
+      issues.push(`${label}: removed invalid ${field}`);
+    }
+  });
+
+  const rawPhotos: unknown[] = Array.isArray(value.photos) ? value.photos : [];
+  const photos = rawPhotos
+    .map(repairRecipePhoto)
+    .filter((p): p is RecipePhoto => p !== null)
+    .filter((p, i, all) => all.findIndex((other) => other.id === p.id) === i);
+  if (!Array.isArray(value.photos)) {
+    issues.push(`${label}: added missing photos`);
+  } else if (photos.length < rawPhotos.length) {
+    issues.push(`${label}: removed ${rawPhotos.length - photos.length} malformed photos`);
+  }
+  const rawRevisions: unknown[] = Array.isArray(value.revisions) ? value.revisions : [];
+  const revisions = rawRevisions
+    .map(repairRecipeRevision)
+    .filter((r): r is RecipeRevision => r !== null);
+  if (revisions.length < rawRevisions.length) {
+    issues.push(`${label}: removed ${rawRevisions.length - revisions.length} malformed revisions`);
+  }
+  if (value.course !== undefined && !isOneOf(RECIPE_COURSES, value.course)) {
+    issues.push(`${label}: removed unknown course "${value.course}"`);
+  }
+  if (value.cuisine !== undefined && !isOneOf(RECIPE_CUISINES, value.cuisine)) {
+    issues.push(`${label}: removed unknown cuisine "${value.cuisine}"`);
+  }
+
+  return {
+    id: value.id,
+    userId: value.userId,
+    ...(isString(value.householdId) && { householdId: value.householdId }),
+    ...(isString(value.parentId) && value.parentId && { parentId: value.parentId }),
+    name: value.name,
+    description: isString(value.description) ? value.description : '',
+    servings,
+    ...(recipeYield && { yield: recipeYield }),
+    tags,
+    ...(isOneOf(RECIPE_COURSES, value.course) && { course: value.course }),
+    ...(isOneOf(RECIPE_CUISINES, value.cuisine) && { cuisine: value.cuisine }),
+    ...times,
+    photos,
+    ingredients,
+    instructions,
+    ...(revisions.length > 0 && { revisions }),
+    viewCount: count('viewCount'),
+    cookCount: count('cookCount'),
+    createdAt: isNumber(value.createdAt) ? value.createdAt : Date.now(),
+  };
+}
+
+export function repairInventoryItem(value: Record<string, unknown>, issues: Issues): InventoryItem | null {
+  if (
+    !isString(value.userId) ||
+    !isString(value.ingredientId) ||
+    !isString(value.measurementId) ||
+    !isNumber(value.quantity)
+  ) {
+    issues.push(`Removed an incomplete inventory item`);
+    return null;
+  }
+  let quantity = value.quantity;
+  if (quantity < 0) {
+    issues.push(`Inventory item "${value.ingredientId}": clamped negative quantity to 0`);
+    quantity = 0;
+  }
+  return {
+    userId: value.userId,
+    ...(isString(value.householdId) && { householdId: value.householdId }),
+    ingredientId: value.ingredientId,
+    measurementId: value.measurementId,
+    quantity,
+  };
+}
+
+export function repairCookingSession(value: Record<string, unknown>, issues: Issues): CookingSession | null {
+  if (!isString(value.id) || !isString(value.recipeId) || !isString(value.userId)) {
+    issues.push(`Removed an incomplete cooking session`);
+    return null;
+  }
+  const indices = (raw: unknown) =>
+    Array.isArray(raw) ? raw.filter((i): i is number => Number.isInteger(i) && i >= 0) : [];
+
+  const status = isOneOf(SESSION_STATUSES, value.status) ? value.status : 'cancelled';
+  if (status !== value.status) {
+    issues.push(`Cooking session "${value.id}": unknown status, marked as cancelled`);
+  }
+
+  return {
+    id: value.id,
+    recipeId: value.recipeId,
+    userId: value.userId,
+    ingredientsChecked: indices(value.ingredientsChecked),
+    stepsChecked: indices(value.stepsChecked),
+    servingSize: isNumber(value.servingSize) && value.servingSize > 0 ? value.servingSize : 1,
+    status,
+  };
+}
+
+export function repairAuthSession(value: Record<string, unknown>, issues: Issues): AuthSession | null {
+  if (
+    !isString(value.token) ||
+    !isString(value.userId) ||
+    !isNumber(value.createdAt) ||
+    !isNumber(value.expiresAt)
+  ) {
+    issues.push(`Removed an incomplete login session`);
+    return null;
+  }
+  return {
+    token: value.token,
+    userId: value.userId,
+    createdAt: value.createdAt,
+    expiresAt: value.expiresAt,
+    lastActiveAt: isNumber(value.lastActiveAt) ? value.lastActiveAt : value.createdAt,
+    rememberMe: value.rememberMe === true,
+  };
+}
+
+export function repairHousehold(value: Record<string, unknown>, issues: Issues): Household | null {
+  if (!isString(value.id) || !isString(value.name) || !isString(value.inviteCode)) {
+    issues.push(`Removed household "${value.name ?? value.id ?? '?'}": missing id, name or invite code`);
+    return null;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    inviteCode: value.inviteCode,
+    createdBy: isString(value.createdBy) ? value.createdBy : '',
+    createdAt: isNumber(value.createdAt) ? value.createdAt : Date.now(),
+  };
+}
+
+// --- Whole data set ---
+
+/**
+ * Validate and repair a complete AppData value.
+ * Collections that are missing entirely are taken from `fallback` (or left empty),
+ * then cross-references are checked: recipe lines, conversions and inventory pointing at
+ * unknown ingredients or measurements are dropped, as are sessions for deleted recipes.
+ */
+export function repairAppData(raw: unknown, fallback: Partial<AppData> = {}): RepairResult {
+  const issues: Issues = [];
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    issues.push('Stored data was not an object');
+  }
+
+  const list = <T>(
+    name:
+      | 'users'
+      | 'ingredients'
+      | 'measurements'
+      | 'recipes'
+      | 'inventory'
+      | 'cookingSessions'
+      | 'authSessions'
+      | 'households',
+    label: string,
+    repairItem: (value: Record<string, unknown>, issues: Issues) => T | null
+  ): T[] => {
+    const repaired = repairList(source[name], label, issues, repairItem);
+    if (repaired) return repaired;
+    const replacement = (fallback[name] as T[] | undefined) ?? [];
+    issues.push(`"${name}" was missing; ${replacement.length > 0 ? 'restored defaults' : 'started empty'}`);
+    return replacement;
+  };
+
+  const households = dedupe(list('households', 'household', repairHousehold), (h) => h.id, 'household', issues);
+  let users = dedupe(list('users', 'user', repairUser), (u) => u.id, 'user', issues);
+  let ingredients = dedupe(list('ingredients', 'ingredient', repairIngredient), (i) => i.id, 'ingredient', issues);
+  let measurements = dedupe(list('measurements', 'measurement', repairMeasurement), (m) => m.id, 'measurement', issues);
+  let recipes = dedupe(list('recipes', 'recipe', repairRecipe), (r) => r.id, 'recipe', issues);
+  let inventory = list('inventory', 'inventory item', repairInventoryItem);
+  let cookingSessions = dedupe(list('cookingSessions', 'cooking session', repairCookingSession), (s) => s.id, 'cooking session', issues);
+  let authSessions = dedupe(list('authSessions', 'login session', repairAuthSession), (s) => s.token, 'login session', issues);
+
+  // Someone has to be able to manage the shared catalog
+  if (users.length > 0 && !users.some((u) => u.role === 'admin')) {
+    issues.push(`Made "${users[0].username}" an admin, as there was none`);
+    users = users.map((u, i) => (i === 0 ? { ...u, role: 'admin' } : u));
+  }
+
+  // Private catalog entries of deleted users become shared, so recipes using them keep working
+  const knownUserIds = new Set(users.map((u) => u.id));
+  const withoutUnknownOwner = <T extends { name: string; ownerId?: string }>(item: T): T => {
+    if (!item.ownerId || knownUserIds.has(item.ownerId)) return item;
+    issues.push(`"${item.name}" belonged to a missing user and is now shared`);
+    const { ownerId: _, ...rest } = item;
+    return rest as T;
+  };
+  ingredients = ingredients.map(withoutUnknownOwner);
+  measurements = measurements.map(withoutUnknownOwner);
+
+  // References to households that no longer exist; those records fall back to their user
+  const householdIds = new Set(households.map((h) => h.id));
+  const withoutUnknownHousehold = <T extends { householdId?: string }>(record: T, label: string): T => {
+    if (!record.householdId || householdIds.has(record.householdId)) return record;
+    issues.push(`${label}: removed from unknown household "${record.householdId}"`);
+    const { householdId: _, ...rest } = record;
+    return rest as T;
+  };
+  users = users.map((u) => withoutUnknownHousehold(u, `User "${u.username}"`));
+  recipes = recipes.map((r) => withoutUnknownHousehold(r, `Recipe "${r.name}"`));
+  inventory = inventory.map((i) => withoutUnknownHousehold(i, `Inventory item "${i.ingredientId}"`));
+
+  const ingredientIds = new Set(ingredients.map((i) => i.id));
+  const measurementIds = new Set(measurements.map((m) => m.id));
+
+  // Conversions to units that no longer exist
+  measurements = measurements.map((m) => {
+    const conversions = m.conversions.filter((c) => measurementIds.has(c.toMeasurementId));
+    if (conversions.length === m.conversions.length) return m;
+    issues.push(`Measurement "${m.name}": removed conversions to unknown units`);
+    return { ...m, conversions };
+  });
+
+  // Orphaned recipe lines, and alternates that no longer exist.
+  // Sub-recipe lines need their recipe, and a unit only when measured in the recipe's yield.
+  const recipeIds = new Set(recipes.map((r) => r.id));
+  recipes = recipes.map((r) => {
+    let lines = r.ingredients.filter((ing) =>
+      isSubRecipeLine(ing)
+        ? recipeIds.has(ing.recipeId) && (!ing.measurementId || measurementIds.has(ing.measurementId))
+        : ingredientIds.has(ing.ingredientId) && measurementIds.has(ing.measurementId)
+    );
+    let changed = lines.length < r.ingredients.length;
+    if (changed) {
+      issues.push(`Recipe "${r.name}": removed ${r.ingredients.length - lines.length} ingredient lines with unknown ingredients, recipes or units`);
+    }
+    if (lines.some((ing) => ing.alternateIds?.some((id) => !ingredientIds.has(id)))) {
+      issues.push(`Recipe "${r.name}": removed unknown alternate ingredients`);
+      changed = true;
+      lines = lines.map(({ alternateIds, ...ing }) => {
+        const known = alternateIds?.filter((id) => ingredientIds.has(id));
+        return known && known.length > 0 ? { ...ing, alternateIds: known } : ing;
+      });
+    }
+    let recipeYield = r.yield;
+    if (recipeYield && !measurementIds.has(recipeYield.measurementId)) {
+      issues.push(`Recipe "${r.name}": removed yield in an unknown unit`);
+      recipeYield = undefined;
+      changed = true;
+    } else if (recipeYield?.ingredientId && !ingredientIds.has(recipeYield.ingredientId)) {
+      issues.push(`Recipe "${r.name}": removed unknown ingredient its batches are stocked as`);
+      const { ingredientId, ...rest } = recipeYield;
+      recipeYield = rest;
+      changed = true;
+    }
+    if (!changed) return r;
+    const { yield: _removed, ...rest } = r;
+    return { ...rest, ...(recipeYield && { yield: recipeYield }), ingredients: lines };
+  });
+
+  // Sub-recipe lines that make a recipe use itself; each is dropped where the cycle closes
+  recipes = recipes.reduce<Recipe[]>((checked, r, i) => {
+    const others = [...checked, ...recipes.slice(i + 1)];
+    const lines = r.ingredients.filter(
+      (ing) => !isSubRecipeLine(ing) || !findSubRecipeCycle(others, r.id, [ing])
+    );
+    if (lines.length < r.ingredients.length) {
+      issues.push(`Recipe "${r.name}": removed ${r.ingredients.length - lines.length} sub-recipes that led back to it`);
+    }
+    return [...checked, lines.length < r.ingredients.length ? { ...r, ingredients: lines } : r];
+  }, []);
+
+  // Variations of recipes that no longer exist, or whose parents lead back to them
+  const parentOf = new Map(recipes.map((r) => [r.id, r.parentId]));
+  const leadsBack = (r: Recipe) => {
+    const seen = new Set([r.id]);
+    for (let id = r.parentId; id; id = parentOf.get(id)) {
+      if (seen.has(id)) return true;
+      seen.add(id);
+    }
+    return false;
+  };
+  recipes = recipes.map((r) => {
+    if (!r.parentId) return r;
+    const unknown = !recipeIds.has(r.parentId);
+    if (!unknown && !leadsBack(r)) return r;
+    issues.push(`Recipe "${r.name}": ${unknown ? 'unlinked from a missing original' : 'unlinked from a loop of variations'}`);
+    parentOf.set(r.id, undefined);
+    const { parentId: _, ...rest } = r;
+    return rest;
+  });
+
+  // Orphaned inventory; duplicate entries for the same ingredient and unit are summed
+  const inventoryByKey = new Map<string, InventoryItem>();
+  inventory.forEach((item) => {
+    if (!ingredientIds.has(item.ingredientId) || !measurementIds.has(item.measurementId)) {
+      issues.push(`Removed inventory item with unknown ingredient or unit`);
+      return;
+    }
+    const key = `${item.householdId ?? item.userId}:${item.ingredientId}:${item.measurementId}`;
+    const existing = inventoryByKey.get(key);
+    if (existing) {
+      issues.push(`Combined duplicate inventory entries for ingredient "${item.ingredientId}"`);
+      inventoryByKey.set(key, { ...existing, quantity: existing.quantity + item.quantity });
+    } else {
+      inventoryByKey.set(key, item);
+    }
+  });
+  inventory = [...inventoryByKey.values()];
+
+  // Sessions for deleted recipes, and checks past the end of a recipe
+  const recipesById = new Map(recipes.map((r) => [r.id, r]));
+  cookingSessions = cookingSessions
+    .filter((s) => {
+      if (recipesById.has(s.recipeId)) return true;
+      issues.push(`Removed cooking session "${s.id}" for a missing recipe`);
+      return false;
+    })
+    .map((s) => {
+      const recipe = recipesById.get(s.recipeId)!;
+      const ingredientsChecked = s.ingredientsChecked.filter((i) => i < recipe.ingredients.length);
+      const stepsChecked = s.stepsChecked.filter((i) => i < recipe.instructions.length);
+      if (ingredientsChecked.length === s.ingredientsChecked.length && stepsChecked.length === s.stepsChecked.length) {
+        return s;
+      }
+      return { ...s, ingredientsChecked, stepsChecked };
+    });
+
+  // Logins of deleted users
+  const userIds = new Set(users.map((u) => u.id));
+  authSessions = authSessions.filter((s) => {
+    if (userIds.has(s.userId)) return true;
+    issues.push('Removed a login session for a missing user');
+    return false;
+  });
+
+  let currentUserId: string | null = isString(source.currentUserId) ? source.currentUserId : null;
+  if (currentUserId && !users.some((u) => u.id === currentUserId)) {
+    issues.push('Logged out a user that no longer exists');
+    currentUserId = null;
+  }
+
+  return {
+    data: {
+      users,
+      recipes,
+      ingredients,
+      measurements,
+      inventory,
+      cookingSessions,
+      authSessions,
+      households,
+      currentUserId,
+      version: isNumber(source.version) ? source.version : fallback.version,
+    },
+    issues,
+  };
+}
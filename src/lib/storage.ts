@@ -1,7 +1,20 @@
 import { AppData, User, Recipe, Ingredient, Measurement, InventoryItem, CookingSession } from '../types';
+import { Migration, MigrationReport, runMigrations } from './migrations';
+import {
+  StorageAdapter,
+  COLLECTIONS,
+  getRecordKey,
+  createLocalStorageAdapter,
+  createIndexedDBAdapter,
+  diffCollection,
+} from './adapters';
+import { repairAppData } from './schema';
+import { ChangedKeys, mergeChangedKeys, mergeExternalChanges } from './sync';
 
 const STORAGE_KEY = 'cucina-app-data';
-const DATA_VERSION = 3; // Increment this when adding new default items
+const BACKUP_KEY_PREFIX = 'cucina-app-data-backup-v';
+const QUARANTINE_KEY_PREFIX = 'cucina-app-data-quarantine-';
+export const DATA_VERSION = 8; // Increment this (and add a migration below) when the stored shape or defaults change
 
 const defaultMeasurements: Measurement[] = [
   // ==================== VOLUME - US CUSTOMARY ====================
@@ -399,6 +412,12 @@ const defaultRecipes: Recipe[] = [
     name: 'Spaghetti Carbonara',
     description: 'Classic Italian pasta dish with eggs, cheese, and pancetta',
     servings: 4,
+    tags: ['pasta', 'quick'],
+    course: 'main',
+    cuisine: 'italian',
+    prepMinutes: 10,
+    cookMinutes: 15,
+    photos: [],
     ingredients: [
       { ingredientId: '75', quantity: 400, measurementId: '11' },
       { ingredientId: '63', quantity: 4, measurementId: '15' },
@@ -425,6 +444,13 @@ const defaultRecipes: Recipe[] = [
     name: 'Garlic Butter Chicken',
     description: 'Juicy chicken breasts in a rich garlic butter sauce',
     servings: 2,
+    tags: ['chicken', 'weeknight'],
+    course: 'main',
+    cuisine: 'american',
+    prepMinutes: 5,
+    cookMinutes: 20,
+    restMinutes: 5,
+    photos: [],
     ingredients: [
       { ingredientId: '51', quantity: 2, measurementId: '15' },
       { ingredientId: '30', quantity: 3, measurementId: '2' },
@@ -451,12 +477,14 @@ const defaultRecipes: Recipe[] = [
 
 function getDefaultData(): AppData {
   return {
-    users: [{ id: 'demo', username: 'demo', password: 'demo' }],
+    users: [{ id: 'demo', username: 'demo', password: 'demo', role: 'admin' }],
     recipes: defaultRecipes,
     ingredients: defaultIngredients,
     measurements: defaultMeasurements,
     inventory: [],
     cookingSessions: [],
+    authSessions: [],
+    households: [],
     currentUserId: null,
     version: DATA_VERSION,
   };
@@ -477,39 +505,363 @@ function mergeDefaultItems<T extends { id: string; name: string }>(
   return [...existingItems, ...itemsToAdd];
 }
 
-export function loadData(): AppData {
+/**
+ * Ordered schema migrations. Each entry upgrades data to its `version`.
+ * Versions 1-3 only ever added default catalog items, so a single merge covers them.
+ */
+const migrations: Migration[] = [
+  {
+    version: 3,
+    description: 'Merge new default ingredients and measurements',
+    migrate: (data, log) => {
+      const ingredients = mergeDefaultItems(data.ingredients || [], defaultIngredients);
+      const measurements = mergeDefaultItems(data.measurements || [], defaultMeasurements);
+      log(`Added ${ingredients.length - (data.ingredients || []).length} default ingredients`);
+      log(`Added ${measurements.length - (data.measurements || []).length} default measurements`);
+      return { ...data, ingredients, measurements };
+    },
+  },
+  {
+    version: 4,
+    description: 'Add login sessions with expiry',
+    migrate: (data, log) => {
+      if (data.currentUserId) log('The signed-in user needs to log in again');
+      return { ...data, authSessions: [], currentUserId: null };
+    },
+  },
+  {
+    version: 5,
+    description: 'Add households',
+    migrate: (data) => ({ ...data, households: [] }),
+  },
+  {
+    version: 6,
+    description: 'Add user roles and private catalog entries',
+    migrate: (data, log) => {
+      // The oldest account becomes the admin; custom entries made so far stay shared
+      const users = (data.users || []).map((u, i) => ({ ...u, role: i === 0 ? 'admin' : 'member' } as User));
+      if (users.length > 0) log(`Made "${users[0].username}" the admin`);
+      return { ...data, users };
+    },
+  },
+  {
+    version: 7,
+    description: 'Add recipe tags and categories',
+    migrate: (data) => ({ ...data, recipes: (data.recipes || []).map((r) => ({ ...r, tags: r.tags ?? [] })) }),
+  },
+  {
+    version: 8,
+    description: 'Add recipe photos',
+    migrate: (data) => ({ ...data, recipes: (data.recipes || []).map((r) => ({ ...r, photos: r.photos ?? [] })) }),
+  },
+];
+
+/**
+ * Bring data of any older version up to DATA_VERSION.
+ * Throws a MigrationError if a step fails; `data` itself is never modified.
+ */
+export function migrateData(data: AppData): { data: AppData; report: MigrationReport } {
+  return runMigrations(data, migrations, DATA_VERSION);
+}
+
+// Report of the migration performed by the last loadData() call, if any
+let lastMigrationReport: MigrationReport | null = null;
+
+export function getLastMigrationReport(): MigrationReport | null {
+  return lastMigrationReport;
+}
+
+/** What loadData() had to fix in the stored data, and where the original was set aside. */
+export interface RepairReport {
+  issues: string[];
+  quarantineKey: string | null;
+}
+
+// Report of the repairs made by the last loadData() call, if any
+let lastRepairReport: RepairReport | null = null;
+
+export function getLastRepairReport(): RepairReport | null {
+  return lastRepairReport;
+}
+
+// Keep a copy of the raw stored data under its own key; returns the key, or null if it could not be written
+function quarantine(raw: unknown): string | null {
+  if (raw === null || raw === undefined) return null;
+  const key = `${QUARANTINE_KEY_PREFIX}${Date.now()}`;
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const data = JSON.parse(stored);
-      
-      // Migrate data if version is outdated
-      if (!data.version || data.version < DATA_VERSION) {
-        console.log('Migrating data to version', DATA_VERSION);
-        
-        // Merge new default ingredients and measurements with existing data
-        data.ingredients = mergeDefaultItems(data.ingredients || [], defaultIngredients);
-        data.measurements = mergeDefaultItems(data.measurements || [], defaultMeasurements);
-        data.version = DATA_VERSION;
-        
-        // Save the migrated data
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-      }
-      
-      return data;
-    }
+    localStorage.setItem(key, typeof raw === 'string' ? raw : JSON.stringify(raw));
+    return key;
+  } catch (e) {
+    console.warn('Could not quarantine stored data:', e);
+    return null;
+  }
+}
+
+// --- Persistence backend ---
+
+const localStorageAdapter = createLocalStorageAdapter(STORAGE_KEY);
+// Backend in use; switched to IndexedDB by loadData() when the browser supports it
+let adapter: StorageAdapter = localStorageAdapter;
+// Last data handed to the backend, used to compute incremental patches
+let lastSaved: AppData | null = null;
+// Serializes writes so patches reach the backend in the order they were made
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Read the raw stored data, preferring IndexedDB.
+ * On the first run with IndexedDB, data saved by older builds under the localStorage key
+ * is carried over; the old blob is left in place as a fallback copy.
+ */
+async function loadRaw(): Promise<AppData | null> {
+  if (typeof indexedDB === 'undefined') {
+    return localStorageAdapter.load();
+  }
+
+  const indexedDBAdapter = createIndexedDBAdapter();
+  let stored: AppData | null;
+  try {
+    stored = await indexedDBAdapter.load();
   } catch (e) {
+    // e.g. private browsing modes that block IndexedDB
+    console.warn('IndexedDB unavailable, using localStorage:', e);
+    return localStorageAdapter.load();
+  }
+
+  adapter = indexedDBAdapter;
+  if (stored) return stored;
+
+  const legacy = await localStorageAdapter.load();
+  if (legacy) {
+    await indexedDBAdapter.save(legacy);
+  }
+  return legacy;
+}
+
+export async function loadData(): Promise<AppData> {
+  lastMigrationReport = null;
+  lastRepairReport = null;
+  lastSaved = null;
+
+  let raw: AppData | null;
+  try {
+    raw = await loadRaw();
+  } catch (e) {
+    // Unreadable (e.g. corrupt JSON): set the original aside before defaults get saved over it
     console.error('Failed to load data:', e);
+    lastRepairReport = {
+      issues: [`Stored data could not be read (${e instanceof Error ? e.message : String(e)}); started with default data`],
+      quarantineKey: quarantine(localStorage.getItem(STORAGE_KEY)),
+    };
+    return getDefaultData();
   }
-  return getDefaultData();
+  if (!raw) return getDefaultData();
+
+  let data = raw;
+
+  // Migrate data if version is outdated
+  if (!data.version || data.version < DATA_VERSION) {
+    console.log('Migrating data to version', DATA_VERSION);
+
+    // Keep an untouched copy so a bad migration can be recovered by hand
+    const backupKey = `${BACKUP_KEY_PREFIX}${data.version || 1}`;
+    try {
+      localStorage.setItem(backupKey, JSON.stringify(data));
+    } catch (e) {
+      console.warn('Could not write pre-migration backup:', e);
+    }
+
+    try {
+      const { data: migrated, report } = migrateData(data);
+      lastMigrationReport = { ...report, backupKey };
+      data = migrated;
+    } catch (e) {
+      // Stored data is left as-is; migration is retried on the next load
+      console.error('Failed to migrate data, keeping previous version:', e);
+      lastSaved = raw;
+      return raw;
+    }
+  }
+
+  // Validate against the schema, repairing rather than discarding what is broken
+  const { data: repaired, issues } = repairAppData(data, getDefaultData());
+  if (issues.length > 0) {
+    console.warn('Repaired stored data:', issues);
+    lastRepairReport = { issues, quarantineKey: quarantine(raw) };
+    data = repaired;
+  }
+
+  if (data !== raw) {
+    try {
+      await adapter.save(data);
+      lastSaved = data;
+    } catch (e) {
+      // Left null so the next saveData() retries a full write
+      console.error('Failed to save loaded data:', e);
+    }
+  } else {
+    lastSaved = data;
+  }
+  return data;
+}
+
+// Write only what changed since `previous`; a full save when there is nothing to diff against.
+// Returns the keys written, or null when nothing was.
+async function persist(previous: AppData | null, data: AppData): Promise<ChangedKeys | null> {
+  const written: ChangedKeys = {};
+
+  if (!previous) {
+    await adapter.save(data);
+    COLLECTIONS.forEach((collection) => {
+      written[collection] = data[collection].map((r) => getRecordKey(collection, r));
+    });
+    return written;
+  }
+
+  let wroteAnything = false;
+  for (const collection of COLLECTIONS) {
+    const changes = diffCollection(collection, previous[collection], data[collection]);
+    if (changes) {
+      await adapter.patch(collection, changes);
+      written[collection] = [...changes.put.map((r) => getRecordKey(collection, r)), ...changes.remove];
+      wroteAnything = true;
+    }
+  }
+
+  if (previous.version !== data.version || previous.currentUserId !== data.currentUserId) {
+    await adapter.saveMeta({ version: data.version, currentUserId: data.currentUserId });
+    wroteAnything = true;
+  }
+
+  return wroteAnything ? written : null;
 }
 
 export function saveData(data: AppData): void {
+  const previous = lastSaved;
+  lastSaved = data;
+  writeQueue = writeQueue
+    .then(() => persist(previous, data))
+    .then((written) => {
+      if (written) announceWrite(written);
+    })
+    .catch((e) => {
+      console.error('Failed to save data:', e);
+      // Force a full write next time so the backend catches up
+      lastSaved = null;
+    });
+}
+
+// --- Cross-tab sync ---
+
+const SYNC_CHANNEL = 'cucina-data';
+// Identifies this tab's own messages
+const tabId = generateId();
+let channel: BroadcastChannel | null = null;
+// Keys this tab has written since it last pulled in another tab's changes
+let locallyWritten: ChangedKeys = {};
+
+interface SyncMessage {
+  source: string;
+  changes: ChangedKeys;
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(SYNC_CHANNEL);
+  }
+  return channel;
+}
+
+// Tell other tabs which records this tab just wrote
+function announceWrite(written: ChangedKeys): void {
+  locallyWritten = mergeChangedKeys(locallyWritten, written);
+  const message: SyncMessage = { source: tabId, changes: written };
+  // Without BroadcastChannel, other tabs rely on the native `storage` event instead
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Re-read storage after another tab wrote to it and merge the result into this tab's state.
+ * This tab's queued writes land first, so storage reflects both tabs before it is read.
+ */
+async function pullExternalChanges(
+  remoteChanged: ChangedKeys,
+  getLocal: () => AppData,
+  onMerged: (data: AppData, conflicts: string[]) => void
+): Promise<void> {
+  await writeQueue;
+
+  let remote: AppData | null;
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    remote = await adapter.load();
   } catch (e) {
-    console.error('Failed to save data:', e);
+    console.error('Failed to read changes from another tab:', e);
+    return;
+  }
+  if (!remote) return;
+  if (remote.version !== DATA_VERSION) {
+    console.warn('Another tab saved data version', remote.version, '- reload to pick up its changes');
+    return;
+  }
+
+  const local = getLocal();
+  const { synced, data, conflicts } = mergeExternalChanges(
+    lastSaved ?? local,
+    local,
+    remote,
+    remoteChanged,
+    locallyWritten
+  );
+  // `synced` is what storage now holds, so only this tab's unsaved edits are written next
+  lastSaved = synced;
+  locallyWritten = {};
+  onMerged(data, conflicts);
+}
+
+/**
+ * Listen for writes from other tabs of this app.
+ * `getLocal` returns this tab's current state; `onMerged` receives the merged state
+ * and descriptions of records both tabs changed. Returns an unsubscribe function.
+ */
+export function watchExternalChanges(
+  getLocal: () => AppData,
+  onMerged: (data: AppData, conflicts: string[]) => void
+): () => void {
+  let pending: ChangedKeys = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Bursts of writes (e.g. several checkboxes ticked) are pulled in once
+  const schedule = (changes: ChangedKeys) => {
+    pending = mergeChangedKeys(pending, changes);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const remoteChanged = pending;
+      pending = {};
+      pullExternalChanges(remoteChanged, getLocal, onMerged);
+    }, 50);
+  };
+
+  const handleMessage = (e: MessageEvent<SyncMessage | null>) => {
+    // Anyone on the channel can post, so a message is not necessarily one of ours
+    if (typeof e.data !== 'object' || e.data === null || e.data.source === tabId) return;
+    schedule(e.data.changes ?? {});
+  };
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) schedule({});
+  };
+
+  const syncChannel = getChannel();
+  if (syncChannel) {
+    syncChannel.addEventListener('message', handleMessage);
+  } else {
+    window.addEventListener('storage', handleStorage);
   }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    syncChannel?.removeEventListener('message', handleMessage);
+    window.removeEventListener('storage', handleStorage);
+  };
 }
 
 export function generateId(): string {
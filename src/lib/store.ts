@@ -0,0 +1,752 @@
+import {
+  AppData,
+  User,
+  UserRole,
+  Recipe,
+  Ingredient,
+  Measurement,
+  InventoryItem,
+  CookingSession,
+  RecipeIngredient,
+  AuthSession,
+  Household,
+} from '../types';
+import { planRecipeLines } from './conversions';
+import { getLineIngredientIds } from './ingredientLines';
+import { findSubRecipeCycle } from './subRecipes';
+import { addRevision, applyRecipeContent, getRecipeContent, getRestorableContent } from './revisions';
+import { OwnerScope, getOwnerScope, isOwnedBy, withOwner, mergeIntoPantry, moveRecipe } from './households';
+import { canSeeCatalogItem } from './permissions';
+import { RestoreMode, RestoreSummary } from './backup';
+import { History, emptyHistory, recordChange, undo, redo } from './history';
+
+/**
+ * Application state layer.
+ * Every change to AppData is an action handled by `appReducer`, a pure function of the
+ * previous state, so updates dispatched in the same tick all apply and domain rules can be
+ * exercised without React. `storeReducer` wraps it with the undo/redo history.
+ */
+
+// Recipe fields edited in the recipe form
+export type RecipeFields = Omit<Recipe, 'id' | 'userId' | 'parentId' | 'revisions' | 'viewCount' | 'cookCount' | 'createdAt'>;
+
+export type AppAction =
+  | { type: 'auth/loggedIn'; session: AuthSession }
+  // Ends the session with `token`, whether by logout, expiry or idle timeout
+  | { type: 'auth/loggedOut'; token: string | null }
+  | { type: 'auth/sessionTouched'; token: string; at: number }
+  | { type: 'user/registered'; user: User }
+  // `password` is the new stored hash (see passwords.ts); with `keepToken`, the user's other logins end
+  | { type: 'user/passwordChanged'; userId: string; password: string; keepToken?: string }
+  | { type: 'user/renamed'; userId: string; username: string }
+  | { type: 'user/deleted'; userId: string }
+  | { type: 'user/roleChanged'; userId: string; role: UserRole }
+  // `userId` is who saved it, and the author of a new recipe; `revisionId` names the revision recorded.
+  // `ingredients` and `measurements` are catalog entries the recipe uses, added with it (from an import)
+  | {
+      type: 'recipe/saved';
+      id: string;
+      userId: string;
+      fields: RecipeFields;
+      savedAt: number;
+      revisionId: string;
+      ingredients?: Ingredient[];
+      measurements?: Measurement[];
+    }
+  // Makes an older revision the current content, recorded as a new revision
+  | { type: 'recipe/revisionRestored'; recipeId: string; revisionId: string; userId: string; restoredAt: number; newRevisionId: string }
+  | { type: 'recipe/viewed'; recipeId: string }
+  // Copies a recipe as a new variation of it, under the name given, owned by `userId`
+  | { type: 'recipe/forked'; recipeId: string; id: string; name: string; userId: string; forkedAt: number; revisionId: string }
+  | { type: 'recipe/deleted'; recipeId: string }
+  // Adds a collection of recipes for `userId` in one step, with the catalog entries they need
+  | {
+      type: 'recipes/imported';
+      userId: string;
+      importedAt: number;
+      recipes: { id: string; fields: RecipeFields; revisionId: string }[];
+      ingredients: Ingredient[];
+      measurements: Measurement[];
+    }
+  | { type: 'session/started'; session: CookingSession }
+  | { type: 'session/updated'; session: CookingSession }
+  | { type: 'session/completed'; recipeId: string; userId: string }
+  | { type: 'session/cancelled'; recipeId: string; userId: string }
+  | { type: 'inventory/added'; item: InventoryItem }
+  | {
+      type: 'inventory/edited';
+      userId: string;
+      ingredientId: string;
+      oldMeasurementId: string;
+      newMeasurementId: string;
+      quantity: number;
+    }
+  | { type: 'inventory/removed'; userId: string; ingredientId: string; measurementId: string }
+  | { type: 'inventory/deducted'; userId: string; ingredients: RecipeIngredient[]; scale: number; recipeId?: string }
+  | { type: 'ingredient/added'; ingredient: Ingredient }
+  | { type: 'ingredient/renamed'; id: string; name: string }
+  | { type: 'ingredient/deleted'; id: string }
+  | { type: 'measurement/added'; measurement: Measurement }
+  | { type: 'measurement/renamed'; id: string; name: string }
+  | { type: 'measurement/deleted'; id: string }
+  | { type: 'conversion/set'; fromId: string; toId: string; factor: number }
+  | { type: 'conversion/removed'; fromId: string; toId: string }
+  | { type: 'household/created'; household: Household; userId: string }
+  | { type: 'household/joined'; householdId: string; userId: string }
+  | { type: 'household/left'; userId: string }
+  | { type: 'backup/restored'; data: AppData; mode: RestoreMode; summary: RestoreSummary };
+
+// --- Selectors ---
+
+export const selectCurrentUser = (data: AppData) => data.users.find((u) => u.id === data.currentUserId);
+
+export const selectCurrentHousehold = (data: AppData) => {
+  const householdId = selectCurrentUser(data)?.householdId;
+  return householdId ? data.households.find((h) => h.id === householdId) : undefined;
+};
+
+// Recipes and inventory are scoped to the current user, or to their household when they have one
+const selectOwned = <T extends { userId: string; householdId?: string }>(data: AppData, records: T[]) => {
+  if (!data.currentUserId) return [];
+  const scope = getOwnerScope(data, data.currentUserId);
+  return records.filter((r) => isOwnedBy(r, scope));
+};
+
+export const selectUserRecipes = (data: AppData) => selectOwned(data, data.recipes);
+
+export const selectUserInventory = (data: AppData) => selectOwned(data, data.inventory);
+
+// The shared catalog plus the private entries the current user may see
+export const selectVisibleIngredients = (data: AppData) => {
+  const user = selectCurrentUser(data);
+  return user ? data.ingredients.filter((i) => canSeeCatalogItem(data, user, i)) : [];
+};
+
+export const selectVisibleMeasurements = (data: AppData) => {
+  const user = selectCurrentUser(data);
+  return user ? data.measurements.filter((m) => canSeeCatalogItem(data, user, m)) : [];
+};
+
+// The current user's active session for a recipe, if one is in progress
+export const selectActiveSession = (data: AppData, recipeId: string | null, userId = data.currentUserId) =>
+  data.cookingSessions.find((s) => s.recipeId === recipeId && s.userId === userId && s.status === 'active');
+
+const isInventoryItem = (item: InventoryItem, scope: OwnerScope, ingredientId: string, measurementId: string) =>
+  isOwnedBy(item, scope) && item.ingredientId === ingredientId && item.measurementId === measurementId;
+
+// Add to the matching entry in the adder's pantry, or append a new one
+function addToInventory(state: AppData, inventory: InventoryItem[], item: InventoryItem): InventoryItem[] {
+  return mergeIntoPantry(inventory, [item], getOwnerScope(state, item.userId));
+}
+
+/**
+ * Deal with a deleted user's private catalog entries: ones that remaining recipes or inventory
+ * still use join the shared catalog, the rest are removed.
+ */
+function releaseCatalog(state: AppData, userId: string): AppData {
+  const usedIngredients = new Set([
+    ...state.recipes.flatMap((r) => r.ingredients.flatMap(getLineIngredientIds)),
+    ...state.recipes.flatMap((r) => (r.yield?.ingredientId ? [r.yield.ingredientId] : [])),
+    ...state.inventory.map((i) => i.ingredientId),
+  ]);
+  const usedMeasurements = new Set([
+    ...state.recipes.flatMap((r) => r.ingredients.map((i) => i.measurementId)),
+    ...state.recipes.flatMap((r) => (r.yield ? [r.yield.measurementId] : [])),
+    ...state.inventory.map((i) => i.measurementId),
+  ]);
+  const release = <T extends { id: string; ownerId?: string }>(items: T[], used: Set<string>): T[] =>
+    items
+      .filter((item) => item.ownerId !== userId || used.has(item.id))
+      .map((item) => {
+        if (item.ownerId !== userId) return item;
+        const { ownerId: _, ...shared } = item;
+        return shared as T;
+      });
+
+  const measurements = release(state.measurements, usedMeasurements);
+  const measurementIds = new Set(measurements.map((m) => m.id));
+  return {
+    ...state,
+    ingredients: release(state.ingredients, usedIngredients),
+    // Conversions to removed units go with them
+    measurements: measurements.map((m) =>
+      m.conversions.every((c) => measurementIds.has(c.toMeasurementId))
+        ? m
+        : { ...m, conversions: m.conversions.filter((c) => measurementIds.has(c.toMeasurementId)) }
+    ),
+  };
+}
+
+/**
+ * Put a user into a household: their own recipes and pantry become the household's,
+ * with stock merged into any the household already has.
+ */
+function joinHousehold(state: AppData, userId: string, householdId: string): AppData {
+  const personal: OwnerScope = { userId };
+  const household: OwnerScope = { userId, householdId };
+  return {
+    ...state,
+    users: state.users.map((u) => (u.id === userId ? { ...u, householdId } : u)),
+    recipes: state.recipes.map((r) => (isOwnedBy(r, personal) ? moveRecipe(r, household) : r)),
+    inventory: mergeIntoPantry(state.inventory, state.inventory.filter((i) => isOwnedBy(i, personal)), household),
+  };
+}
+
+/**
+ * Take a user out of their household. Shared recipes and pantry stay with the remaining members;
+ * when nobody remains, the household is dissolved and they return to the last member.
+ */
+function leaveHousehold(state: AppData, userId: string): AppData {
+  const householdId = state.users.find((u) => u.id === userId)?.householdId;
+  if (!householdId) return state;
+
+  const users = state.users.map((u): User => {
+    if (u.id !== userId) return u;
+    const { householdId: _, ...rest } = u;
+    return rest;
+  });
+  if (users.some((u) => u.householdId === householdId)) {
+    return { ...state, users };
+  }
+
+  const household: OwnerScope = { userId, householdId };
+  const personal: OwnerScope = { userId };
+  return {
+    ...state,
+    users,
+    households: state.households.filter((h) => h.id !== householdId),
+    recipes: state.recipes.map((r) => (isOwnedBy(r, household) ? moveRecipe(r, personal) : r)),
+    inventory: mergeIntoPantry(state.inventory, state.inventory.filter((i) => isOwnedBy(i, household)), personal),
+  };
+}
+
+// --- Reducer ---
+
+export function appReducer(state: AppData, action: AppAction): AppData {
+  switch (action.type) {
+    case 'auth/loggedIn':
+      return {
+        ...state,
+        authSessions: [...state.authSessions, action.session],
+        currentUserId: action.session.userId,
+      };
+
+    case 'auth/loggedOut':
+      return {
+        ...state,
+        authSessions: state.authSessions.filter((s) => s.token !== action.token),
+        currentUserId: null,
+      };
+
+    case 'auth/sessionTouched':
+      return {
+        ...state,
+        authSessions: state.authSessions.map((s) =>
+          s.token === action.token ? { ...s, lastActiveAt: Math.max(s.lastActiveAt, action.at) } : s
+        ),
+      };
+
+    case 'user/registered':
+      if (state.users.some((u) => u.username === action.user.username)) return state;
+      return { ...state, users: [...state.users, action.user] };
+
+    case 'user/passwordChanged':
+      return {
+        ...state,
+        users: state.users.map((u) => (u.id === action.userId ? { ...u, password: action.password } : u)),
+        authSessions: action.keepToken
+          ? state.authSessions.filter((s) => s.userId !== action.userId || s.token === action.keepToken)
+          : state.authSessions,
+      };
+
+    case 'user/renamed':
+      if (state.users.some((u) => u.username === action.username && u.id !== action.userId)) return state;
+      return {
+        ...state,
+        users: state.users.map((u) => (u.id === action.userId ? { ...u, username: action.username } : u)),
+      };
+
+    // Everything the user owns goes with the account; deleting the signed-in user logs out.
+    // Household records stay with the household, or go with it if this was its last member.
+    case 'user/deleted': {
+      const left = leaveHousehold(state, action.userId);
+      const personal: OwnerScope = { userId: action.userId };
+      return releaseCatalog(
+        {
+          ...left,
+          users: left.users.filter((u) => u.id !== action.userId),
+          recipes: left.recipes.filter((r) => !isOwnedBy(r, personal)),
+          inventory: left.inventory.filter((i) => !isOwnedBy(i, personal)),
+          cookingSessions: state.cookingSessions.filter((s) => s.userId !== action.userId),
+          authSessions: state.authSessions.filter((s) => s.userId !== action.userId),
+          currentUserId: state.currentUserId === action.userId ? null : state.currentUserId,
+        },
+        action.userId
+      );
+    }
+
+    // There is always at least one admin to look after the shared catalog
+    case 'user/roleChanged': {
+      const users = state.users.map((u) => (u.id === action.userId ? { ...u, role: action.role } : u));
+      if (!users.some((u) => u.role === 'admin')) return state;
+      return { ...state, users };
+    }
+
+    // Refused if the recipe would end up using itself through its sub-recipes
+    case 'recipe/saved': {
+      if (findSubRecipeCycle(state.recipes, action.id, action.fields.ingredients)) return state;
+      const revision = { id: action.revisionId, savedAt: action.savedAt, userId: action.userId };
+      const catalog = {
+        ingredients: [...state.ingredients, ...(action.ingredients ?? [])],
+        measurements: [...state.measurements, ...(action.measurements ?? [])],
+      };
+      const existing = state.recipes.find((r) => r.id === action.id);
+      if (existing) {
+        const updated: Recipe = { ...existing, ...action.fields };
+        return {
+          ...state,
+          ...catalog,
+          recipes: state.recipes.map((r) =>
+            r.id === action.id ? { ...updated, revisions: addRevision(updated, revision, existing) } : r
+          ),
+        };
+      }
+      const recipe: Recipe = withOwner(
+        {
+          ...action.fields,
+          id: action.id,
+          userId: action.userId,
+          viewCount: 0,
+          cookCount: 0,
+          createdAt: action.savedAt,
+        },
+        getOwnerScope(state, action.userId)
+      );
+      return { ...state, ...catalog, recipes: [...state.recipes, { ...recipe, revisions: addRevision(recipe, revision) }] };
+    }
+
+    // Restoring what is already current, or content that would make the recipe use itself, is refused
+    case 'recipe/revisionRestored': {
+      const existing = state.recipes.find((r) => r.id === action.recipeId);
+      const target = existing?.revisions?.find((rev) => rev.id === action.revisionId);
+      if (!existing || !target) return state;
+      const restored = applyRecipeContent(existing, getRestorableContent(target.content, state));
+      if (findSubRecipeCycle(state.recipes, existing.id, restored.ingredients)) return state;
+      const revisions = addRevision(restored, {
+        id: action.newRevisionId,
+        savedAt: action.restoredAt,
+        userId: action.userId,
+        restoredFrom: target.id,
+      });
+      if (revisions === existing.revisions) return state;
+      return {
+        ...state,
+        recipes: state.recipes.map((r) => (r.id === existing.id ? { ...restored, revisions } : r)),
+      };
+    }
+
+    case 'recipe/viewed':
+      return {
+        ...state,
+        recipes: state.recipes.map((r) => (r.id === action.recipeId ? { ...r, viewCount: r.viewCount + 1 } : r)),
+      };
+
+    // Counts and history start afresh; photos are shared, their images stay while any recipe uses them
+    case 'recipe/forked': {
+      const parent = state.recipes.find((r) => r.id === action.recipeId);
+      if (!parent) return state;
+      const variation: Recipe = withOwner(
+        {
+          ...getRecipeContent(parent),
+          name: action.name,
+          id: action.id,
+          userId: action.userId,
+          parentId: parent.id,
+          photos: parent.photos,
+          viewCount: 0,
+          cookCount: 0,
+          createdAt: action.forkedAt,
+        },
+        getOwnerScope(state, action.userId)
+      );
+      const revision = { id: action.revisionId, savedAt: action.forkedAt, userId: action.userId };
+      return { ...state, recipes: [...state.recipes, { ...variation, revisions: addRevision(variation, revision) }] };
+    }
+
+    // Refused when there is nothing to add
+    case 'recipes/imported': {
+      if (action.recipes.length === 0) return state;
+      const scope = getOwnerScope(state, action.userId);
+      const recipes = action.recipes.map(({ id, fields, revisionId }) => {
+        const recipe: Recipe = withOwner(
+          { ...fields, id, userId: action.userId, viewCount: 0, cookCount: 0, createdAt: action.importedAt },
+          scope
+        );
+        return { ...recipe, revisions: addRevision(recipe, { id: revisionId, savedAt: action.importedAt, userId: action.userId }) };
+      });
+      return {
+        ...state,
+        ingredients: [...state.ingredients, ...action.ingredients],
+        measurements: [...state.measurements, ...action.measurements],
+        recipes: [...state.recipes, ...recipes],
+      };
+    }
+
+    // Sessions for the recipe go with it; its variations become variations of its own parent, if any
+    case 'recipe/deleted': {
+      const deleted = state.recipes.find((r) => r.id === action.recipeId);
+      return {
+        ...state,
+        recipes: state.recipes
+          .filter((r) => r.id !== action.recipeId)
+          .map((r) => {
+            if (r.parentId !== action.recipeId) return r;
+            const { parentId: _, ...rest } = r;
+            return deleted?.parentId ? { ...rest, parentId: deleted.parentId } : rest;
+          }),
+        cookingSessions: state.cookingSessions.filter((s) => s.recipeId !== action.recipeId),
+      };
+    }
+
+    // Starting a recipe that already has an active session resumes that session instead
+    case 'session/started':
+      if (selectActiveSession(state, action.session.recipeId, action.session.userId)) return state;
+      return { ...state, cookingSessions: [...state.cookingSessions, action.session] };
+
+    case 'session/updated':
+      return {
+        ...state,
+        cookingSessions: state.cookingSessions.map((s) => (s.id === action.session.id ? action.session : s)),
+      };
+
+    /**
+     * Completing a session deducts the recipe's ingredients, scaled to the session's
+     * serving size, from the cook's inventory and counts the recipe as cooked.
+     */
+    case 'session/completed': {
+      const session = selectActiveSession(state, action.recipeId, action.userId);
+      const recipe = state.recipes.find((r) => r.id === action.recipeId);
+      if (!session || !recipe) return state;
+
+      const deducted = appReducer(state, {
+        type: 'inventory/deducted',
+        userId: action.userId,
+        ingredients: recipe.ingredients,
+        scale: session.servingSize / recipe.servings,
+        recipeId: recipe.id,
+      });
+      return {
+        ...deducted,
+        cookingSessions: deducted.cookingSessions.map((s) =>
+          s.id === session.id ? { ...s, status: 'completed' as const } : s
+        ),
+        recipes: deducted.recipes.map((r) => (r.id === recipe.id ? { ...r, cookCount: r.cookCount + 1 } : r)),
+      };
+    }
+
+    case 'session/cancelled': {
+      const session = selectActiveSession(state, action.recipeId, action.userId);
+      if (!session) return state;
+      return {
+        ...state,
+        cookingSessions: state.cookingSessions.map((s) =>
+          s.id === session.id ? { ...s, status: 'cancelled' as const } : s
+        ),
+      };
+    }
+
+    case 'inventory/added':
+      return { ...state, inventory: addToInventory(state, state.inventory, action.item) };
+
+    /**
+     * Changing the unit moves the quantity to a new entry, merging it into an existing
+     * entry for the same ingredient in that unit.
+     */
+    case 'inventory/edited': {
+      const { userId, ingredientId, oldMeasurementId, newMeasurementId, quantity } = action;
+      const scope = getOwnerScope(state, userId);
+      if (oldMeasurementId === newMeasurementId) {
+        return {
+          ...state,
+          inventory: state.inventory.map((i) =>
+            isInventoryItem(i, scope, ingredientId, oldMeasurementId) ? { ...i, quantity } : i
+          ),
+        };
+      }
+      const withoutOld = state.inventory.filter((i) => !isInventoryItem(i, scope, ingredientId, oldMeasurementId));
+      return {
+        ...state,
+        inventory: addToInventory(state, withoutOld, { userId, ingredientId, measurementId: newMeasurementId, quantity }),
+      };
+    }
+
+    case 'inventory/removed':
+      return {
+        ...state,
+        inventory: state.inventory.filter(
+          (i) => !isInventoryItem(i, getOwnerScope(state, action.userId), action.ingredientId, action.measurementId)
+        ),
+      };
+
+    // Draws from the user's pantry, shared when they are in a household; units are converted as needed
+    case 'inventory/deducted': {
+      // Alternates stand in for missing ingredients and sub-recipes come from a prepared batch or
+      // their own ingredients; optional lines only use what is in stock
+      const scope = getOwnerScope(state, action.userId);
+      const { inventory } = planRecipeLines(
+        action.ingredients,
+        action.scale,
+        state.inventory,
+        state.measurements,
+        (item) => isOwnedBy(item, scope),
+        state.recipes,
+        action.recipeId
+      );
+      return { ...state, inventory };
+    }
+
+    case 'ingredient/added':
+      return { ...state, ingredients: [...state.ingredients, action.ingredient] };
+
+    case 'ingredient/renamed':
+      return {
+        ...state,
+        ingredients: state.ingredients.map((i) => (i.id === action.id ? { ...i, name: action.name } : i)),
+      };
+
+    // Note: Does not currently cascade delete/cleanup recipe or inventory linkages
+    case 'ingredient/deleted':
+      return { ...state, ingredients: state.ingredients.filter((i) => i.id !== action.id) };
+
+    case 'measurement/added':
+      return { ...state, measurements: [...state.measurements, action.measurement] };
+
+    case 'measurement/renamed':
+      return {
+        ...state,
+        measurements: state.measurements.map((m) => (m.id === action.id ? { ...m, name: action.name } : m)),
+      };
+
+    // Note: Does not currently cascade delete/cleanup recipe or inventory linkages
+    case 'measurement/deleted':
+      return { ...state, measurements: state.measurements.filter((m) => m.id !== action.id) };
+
+    // Adds a conversion, or updates the factor of an existing one
+    case 'conversion/set':
+      return {
+        ...state,
+        measurements: state.measurements.map((m) => {
+          if (m.id !== action.fromId) return m;
+          const exists = m.conversions.some((c) => c.toMeasurementId === action.toId);
+          return {
+            ...m,
+            conversions: exists
+              ? m.conversions.map((c) => (c.toMeasurementId === action.toId ? { ...c, factor: action.factor } : c))
+              : [...m.conversions, { toMeasurementId: action.toId, factor: action.factor }],
+          };
+        }),
+      };
+
+    case 'conversion/removed':
+      return {
+        ...state,
+        measurements: state.measurements.map((m) =>
+          m.id === action.fromId
+            ? { ...m, conversions: m.conversions.filter((c) => c.toMeasurementId !== action.toId) }
+            : m
+        ),
+      };
+
+    case 'household/created':
+      return joinHousehold(
+        { ...leaveHousehold(state, action.userId), households: [...state.households, action.household] },
+        action.userId,
+        action.household.id
+      );
+
+    case 'household/joined':
+      if (!state.households.some((h) => h.id === action.householdId)) return state;
+      return joinHousehold(leaveHousehold(state, action.userId), action.userId, action.householdId);
+
+    case 'household/left':
+      return leaveHousehold(state, action.userId);
+
+    // Restoring is validated up front (see restoreBackup), so the result is simply taken over
+    case 'backup/restored':
+      return action.data;
+  }
+}
+
+// --- Undo labels ---
+
+/** How a recorded change is presented, e.g. "Deleted recipe Carbonara". */
+export interface ChangeLabel {
+  label: string;
+  description?: string;
+}
+
+/**
+ * Describe an action for the undo history, given the state before and after it.
+ * Returns null for actions that are not undoable: signing in and out, account changes,
+ * view counts and cooking progress.
+ */
+export function describeAction(before: AppData, action: AppAction, after: AppData): ChangeLabel | null {
+  const ingredientName = (id: string) => before.ingredients.find((i) => i.id === id)?.name ?? 'ingredient';
+  const measurementName = (id: string) => before.measurements.find((m) => m.id === id)?.name ?? 'measurement';
+  const recipeName = (id: string) => before.recipes.find((r) => r.id === id)?.name ?? 'recipe';
+
+  switch (action.type) {
+    case 'recipe/saved':
+      return {
+        label: before.recipes.some((r) => r.id === action.id)
+          ? `Updated recipe ${action.fields.name}`
+          : `Added recipe ${action.fields.name}`,
+        ...((action.ingredients?.length || action.measurements?.length) && {
+          description: `${action.ingredients?.length ?? 0} new ingredients, ${action.measurements?.length ?? 0} new measurements`,
+        }),
+      };
+    case 'recipe/revisionRestored':
+      return { label: `Restored an earlier version of ${recipeName(action.recipeId)}` };
+    case 'recipe/forked':
+      return { label: `Added ${action.name} as a variation of ${recipeName(action.recipeId)}` };
+    case 'recipe/deleted':
+      return { label: `Deleted recipe ${recipeName(action.recipeId)}` };
+    case 'recipes/imported':
+      return {
+        label: `Imported ${action.recipes.length} recipe${action.recipes.length === 1 ? '' : 's'}`,
+        description: `${action.ingredients.length} new ingredients, ${action.measurements.length} new measurements`,
+      };
+    case 'session/completed':
+    case 'inventory/deducted': {
+      // Count the ingredients whose stock changed
+      const scope = getOwnerScope(before, action.userId);
+      const stock = (data: AppData) =>
+        new Map(
+          data.inventory
+            .filter((i) => isOwnedBy(i, scope))
+            .map((i) => [`${i.ingredientId}:${i.measurementId}`, i.quantity])
+        );
+      const was = stock(before);
+      const now = stock(after);
+      const changed = new Set(
+        [...was.keys()].filter((key) => now.get(key) !== was.get(key)).map((key) => key.split(':')[0])
+      );
+      const description = `Deducted ${changed.size} ingredient${changed.size === 1 ? '' : 's'} from inventory`;
+      return action.type === 'session/completed'
+        ? { label: `Cooked ${recipeName(action.recipeId)}`, description }
+        : { label: description };
+    }
+    case 'session/cancelled':
+      return { label: `Cancelled cooking ${recipeName(action.recipeId)}` };
+    case 'inventory/added':
+      return { label: `Added ${ingredientName(action.item.ingredientId)} to inventory` };
+    case 'inventory/edited':
+      return { label: `Updated ${ingredientName(action.ingredientId)} in inventory` };
+    case 'inventory/removed':
+      return { label: `Removed ${ingredientName(action.ingredientId)} from inventory` };
+    case 'ingredient/added':
+      return { label: `Added ingredient ${action.ingredient.name}` };
+    case 'ingredient/renamed':
+      return { label: `Renamed ingredient ${ingredientName(action.id)} to ${action.name}` };
+    case 'ingredient/deleted':
+      return { label: `Deleted ingredient ${ingredientName(action.id)}` };
+    case 'measurement/added':
+      return { label: `Added measurement ${action.measurement.name}` };
+    case 'measurement/renamed':
+      return { label: `Renamed measurement ${measurementName(action.id)} to ${action.name}` };
+    case 'measurement/deleted':
+      return { label: `Deleted measurement ${measurementName(action.id)}` };
+    case 'conversion/set':
+      return { label: `Set 1 ${measurementName(action.fromId)} = ${action.factor} ${measurementName(action.toId)}` };
+    case 'conversion/removed':
+      return { label: `Removed conversion from ${measurementName(action.fromId)} to ${measurementName(action.toId)}` };
+    case 'user/roleChanged': {
+      const username = before.users.find((u) => u.id === action.userId)?.username ?? 'user';
+      return { label: action.role === 'admin' ? `Made ${username} an admin` : `Made ${username} a member` };
+    }
+    case 'household/created':
+      return { label: `Created household ${action.household.name}` };
+    case 'household/joined': {
+      const name = before.households.find((h) => h.id === action.householdId)?.name ?? 'household';
+      return { label: `Joined household ${name}` };
+    }
+    case 'household/left': {
+      const householdId = before.users.find((u) => u.id === action.userId)?.householdId;
+      const name = before.households.find((h) => h.id === householdId)?.name ?? 'household';
+      return { label: `Left household ${name}` };
+    }
+    case 'backup/restored': {
+      const { summary } = action;
+      return {
+        label: action.mode === 'replace' ? 'Replaced data with backup' : 'Merged backup',
+        description: `${summary.recipes} recipes, ${summary.inventory} inventory items, ${summary.ingredients} new ingredients, ${summary.measurements} new measurements`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// --- Store with history ---
+
+/**
+ * What the last recorded, undone or redone change was, for the confirmation toast.
+ * A fresh object per change, so effects can react to each one.
+ */
+export interface ChangeNotice extends ChangeLabel {
+  kind: 'done' | 'undone' | 'redone' | 'nothing';
+}
+
+export interface StoreState {
+  data: AppData;
+  history: History;
+  notice: ChangeNotice | null;
+}
+
+export type StoreAction =
+  | AppAction
+  | { type: 'history/undone' }
+  | { type: 'history/redone' }
+  // State merged in from another tab; not recorded as an undoable change
+  | { type: 'sync/merged'; data: AppData };
+
+export function createStoreState(data: AppData): StoreState {
+  return { data, history: emptyHistory, notice: null };
+}
+
+export function storeReducer(state: StoreState, action: StoreAction): StoreState {
+  switch (action.type) {
+    case 'history/undone': {
+      const result = undo(state.history, state.data);
+      if (!result) return { ...state, notice: { kind: 'nothing', label: 'Nothing to undo' } };
+      return { data: result.data, history: result.history, notice: { kind: 'undone', label: result.entry.label } };
+    }
+
+    case 'history/redone': {
+      const result = redo(state.history, state.data);
+      if (!result) return { ...state, notice: { kind: 'nothing', label: 'Nothing to redo' } };
+      return { data: result.data, history: result.history, notice: { kind: 'redone', label: result.entry.label } };
+    }
+
+    case 'sync/merged':
+      return { ...state, data: action.data };
+
+    default: {
+      const data = appReducer(state.data, action);
+      if (data === state.data) return state;
+
+      // History belongs to one login
+      if (action.type === 'auth/loggedIn' || action.type === 'auth/loggedOut' || action.type === 'user/deleted') {
+        return { data, history: emptyHistory, notice: null };
+      }
+
+      const change = describeAction(state.data, action, data);
+      if (!change) return { ...state, data };
+      return {
+        data,
+        history: recordChange(state.history, change.label, state.data, data),
+        notice: { kind: 'done', ...change },
+      };
+    }
+  }
+}
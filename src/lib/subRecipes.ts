@@ -0,0 +1,64 @@
+import { Recipe, RecipeIngredient } from '../types';
+
+/**
+ * Sub-recipes: a recipe line can stand for another recipe (pizza dough, stock, pesto) instead of
+ * an ingredient. Its quantity is in servings of that recipe, or in the recipe's yield unit.
+ * A recipe may never end up using itself, directly or through other sub-recipes.
+ * Scaling a sub-recipe line into batches is in conversions.ts, next to the pantry planning that uses it.
+ */
+
+export class SubRecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubRecipeError';
+  }
+}
+
+export const isSubRecipeLine = (line: RecipeIngredient): line is RecipeIngredient & { recipeId: string } =>
+  line.recipeId !== undefined;
+
+/** Ids of the recipes `lines` use directly. */
+export function getSubRecipeIds(lines: RecipeIngredient[]): string[] {
+  return [...new Set(lines.filter(isSubRecipeLine).map((line) => line.recipeId))];
+}
+
+/**
+ * If recipe `recipeId` with ingredient `lines` would use itself, the chain of recipe ids that
+ * leads back to it (starting and ending with `recipeId`); otherwise null.
+ * `recipes` supplies the current lines of every other recipe; unknown ids are ignored.
+ */
+export function findSubRecipeCycle(recipes: Recipe[], recipeId: string, lines: RecipeIngredient[]): string[] | null {
+  const linesOf = (id: string) => (id === recipeId ? lines : recipes.find((r) => r.id === id)?.ingredients ?? []);
+  const visited = new Set<string>();
+
+  const search = (id: string, path: string[]): string[] | null => {
+    for (const next of getSubRecipeIds(linesOf(id))) {
+      if (next === recipeId) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const cycle = search(next, [...path, next]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return search(recipeId, [recipeId]);
+}
+
+/**
+ * Recipes `recipeId` may use as sub-recipes: every other one that does not already use it.
+ * Pass undefined for a recipe that has not been saved yet, which nothing can use.
+ */
+export function getSubRecipeCandidates(recipes: Recipe[], recipeId: string | undefined): Recipe[] {
+  if (!recipeId) return recipes;
+  return recipes.filter(
+    (r) => r.id !== recipeId && !findSubRecipeCycle(recipes, recipeId, [{ recipeId: r.id, ingredientId: '', quantity: 1, measurementId: '' }])
+  );
+}
+
+/** Throws a SubRecipeError naming the chain if saving `lines` on recipe `recipeId` would make it use itself. */
+export function requireNoSubRecipeCycle(recipes: Recipe[], recipeId: string, lines: RecipeIngredient[]): void {
+  const cycle = findSubRecipeCycle(recipes, recipeId, lines);
+  if (!cycle) return;
+  const names = cycle.map((id) => recipes.find((r) => r.id === id)?.name ?? 'this recipe');
+  throw new SubRecipeError(`A recipe cannot use itself: ${names.join(' → ')}`);
+}
@@ -0,0 +1,119 @@
+import { AppData } from '../types';
+import { COLLECTIONS, CollectionName, CollectionRecord, getCollection, getRecordKey, withCollection } from './adapters';
+
+/** Record keys per collection that one tab wrote. */
+export type ChangedKeys = Partial<Record<CollectionName, string[]>>;
+
+export function mergeChangedKeys(a: ChangedKeys, b: ChangedKeys): ChangedKeys {
+  const merged: ChangedKeys = { ...a };
+  (Object.keys(b) as CollectionName[]).forEach((collection) => {
+    merged[collection] = [...new Set([...(a[collection] || []), ...(b[collection] || [])])];
+  });
+  return merged;
+}
+
+const sameRecord = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Short human-readable name for a record of each collection, used in conflict notices
+const DESCRIBE_RECORD: { [K in CollectionName]: (record: CollectionRecord<K>, data: AppData) => string } = {
+  recipes: (recipe) => `recipe "${recipe.name}"`,
+  inventory: (item, data) =>
+    `inventory item "${data.ingredients.find((i) => i.id === item.ingredientId)?.name ?? item.ingredientId}"`,
+  cookingSessions: (session, data) =>
+    `cooking session for "${data.recipes.find((r) => r.id === session.recipeId)?.name ?? 'a recipe'}"`,
+  users: (user) => `account "${user.username}"`,
+  authSessions: () => 'a login session',
+  households: (household) => `household "${household.name}"`,
+  ingredients: (ingredient) => `ingredient "${ingredient.name}"`,
+  measurements: (measurement) => `measurement "${measurement.name}"`,
+};
+
+/**
+ * One collection of mergeExternalChanges: the stored records (`synced`), those plus unsaved local
+ * changes (`merged`), and a notice for each conflicting record.
+ */
+function mergeCollection<K extends CollectionName>(
+  collection: K,
+  base: AppData,
+  local: AppData,
+  remote: AppData,
+  remoteChanged: ChangedKeys,
+  localWritten: ChangedKeys
+): { synced: CollectionRecord<K>[]; merged: CollectionRecord<K>[]; conflicts: string[] } {
+  const keyOf = (r: CollectionRecord<K>) => getRecordKey(collection, r);
+  const baseByKey = new Map(getCollection(base, collection).map((r) => [keyOf(r), r]));
+  const localByKey = new Map(getCollection(local, collection).map((r) => [keyOf(r), r]));
+  const conflicts: string[] = [];
+
+  // Stored records, reusing our objects where nothing changed so React and the diff see no change
+  const stored = getCollection(remote, collection).map((r) => {
+    const mine = localByKey.get(keyOf(r));
+    return mine && sameRecord(mine, r) ? mine : r;
+  });
+
+  // Conflicts: both tabs wrote the record and storage holds the other tab's version
+  const written = new Set(localWritten[collection] || []);
+  (remoteChanged[collection] || []).forEach((key) => {
+    if (!written.has(key)) return;
+    const mine = localByKey.get(key);
+    const theirs = stored.find((r) => keyOf(r) === key);
+    if (mine !== theirs && mine) {
+      conflicts.push(DESCRIBE_RECORD[collection](mine, local));
+    }
+  });
+
+  // Unsaved local edits and additions win; unsaved local deletions stay deleted
+  const result = [...stored];
+  const resultKeys = new Map(result.map((r, i) => [keyOf(r), i]));
+  localByKey.forEach((record, key) => {
+    if (baseByKey.get(key) === record) return;
+    const index = resultKeys.get(key);
+    if (index === undefined) {
+      result.push(record);
+    } else {
+      result[index] = record;
+    }
+  });
+  const merged = result.filter((r) => {
+    const key = keyOf(r);
+    return !(baseByKey.has(key) && !localByKey.has(key));
+  });
+
+  return { synced: stored, merged, conflicts };
+}
+
+/**
+ * Merge data another tab saved (`remote`, freshly read from storage) into this tab's state.
+ *
+ * `base` is what this tab last handed to storage. Per record:
+ * - changed here since `base` (not yet written) → this tab's version is kept;
+ * - otherwise → the stored version is taken.
+ * A record both tabs wrote since they last synced (`remoteChanged` ∩ `localWritten`) whose
+ * stored version differs from ours is a conflict; storage (the later write) wins and it is reported.
+ *
+ * Returns `synced`, the stored state with unchanged records keeping this tab's object references
+ * (so it can serve as the next diff base), and `data`, that state plus unsaved local changes.
+ */
+export function mergeExternalChanges(
+  base: AppData,
+  local: AppData,
+  remote: AppData,
+  remoteChanged: ChangedKeys,
+  localWritten: ChangedKeys
+): { synced: AppData; data: AppData; conflicts: string[] } {
+  let synced: AppData = { ...remote };
+  let data: AppData = { ...remote };
+  const conflicts: string[] = [];
+
+  COLLECTIONS.forEach((collection) => {
+    const merge = mergeCollection(collection, base, local, remote, remoteChanged, localWritten);
+    synced = withCollection(synced, collection, merge.synced);
+    data = withCollection(data, collection, merge.merged);
+    conflicts.push(...merge.conflicts);
+  });
+
+  // Each tab has its own login
+  data.currentUserId = local.currentUserId;
+
+  return { synced, data, conflicts };
+}
@@ -0,0 +1,62 @@
+import { Recipe, RecipeCourse, RecipeCuisine } from '../types';
+
+/**
+ * Recipe classification: free-form tags plus a fixed course and cuisine.
+ * Tags are stored normalised, so "Weeknight " and "weeknight" are the same tag.
+ */
+
+export const COURSE_LABELS: Record<RecipeCourse, string> = {
+  breakfast: 'Breakfast',
+  appetizer: 'Appetizer',
+  soup: 'Soup',
+  salad: 'Salad',
+  main: 'Main',
+  side: 'Side',
+  dessert: 'Dessert',
+  snack: 'Snack',
+  drink: 'Drink',
+};
+
+export const CUISINE_LABELS: Record<RecipeCuisine, string> = {
+  american: 'American',
+  chinese: 'Chinese',
+  french: 'French',
+  greek: 'Greek',
+  indian: 'Indian',
+  italian: 'Italian',
+  japanese: 'Japanese',
+  mexican: 'Mexican',
+  'middle-eastern': 'Middle Eastern',
+  spanish: 'Spanish',
+  thai: 'Thai',
+  other: 'Other',
+};
+
+export const RECIPE_COURSES = Object.keys(COURSE_LABELS) as RecipeCourse[];
+export const RECIPE_CUISINES = Object.keys(CUISINE_LABELS) as RecipeCuisine[];
+
+const MAX_TAG_LENGTH = 30;
+
+/** Lowercase, trim and collapse inner whitespace; '#' prefixes are dropped. Returns '' for nothing usable. */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+}
+
+/** Normalise a list of tags, dropping empty ones and duplicates while keeping order. */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+/** True when `recipe` carries every one of `tags` (an empty selection matches everything). */
+export function hasAllTags(recipe: Recipe, tags: string[]): boolean {
+  return tags.every((tag) => recipe.tags.includes(tag));
+}
+
+/** How many of `recipes` carry each tag, most used first, then alphabetically. */
+export function countTags(recipes: Recipe[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  recipes.forEach((recipe) => recipe.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,46 @@
+import { Recipe } from '../types';
+
+/**
+ * Recipe timings. Prep, cook and rest times are whole minutes and each is optional;
+ * the total is their sum, or unknown when none is set.
+ */
+
+export type RecipeTimeField = 'prepMinutes' | 'cookMinutes' | 'restMinutes';
+
+export const RECIPE_TIME_FIELDS: RecipeTimeField[] = ['prepMinutes', 'cookMinutes', 'restMinutes'];
+
+export const TIME_LABELS: Record<RecipeTimeField, string> = {
+  prepMinutes: 'Prep',
+  cookMinutes: 'Cook',
+  restMinutes: 'Rest',
+};
+
+// Choices for the "ready in under N minutes" filter
+export const READY_IN_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+/** Minutes from start to table, or undefined when the recipe has no times. */
+export function getTotalMinutes(recipe: Pick<Recipe, RecipeTimeField>): number | undefined {
+  const times = RECIPE_TIME_FIELDS.map((field) => recipe[field]).filter((t): t is number => t !== undefined);
+  return times.length > 0 ? times.reduce((sum, t) => sum + t, 0) : undefined;
+}
+
+/** True when the recipe is known to be ready within `maxMinutes`; recipes without times never are. */
+export function isReadyWithin(recipe: Recipe, maxMinutes: number): boolean {
+  const total = getTotalMinutes(recipe);
+  return total !== undefined && total <= maxMinutes;
+}
+
+/** Compact duration such as "45 min", "1 h" or "1 h 15 min". */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/** Parse a minutes input: blank clears the time, anything else is rounded and clamped to 0 or more. */
+export function parseMinutes(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const minutes = Math.round(parseFloat(value));
+  return Number.isFinite(minutes) ? Math.max(0, minutes) : undefined;
+}
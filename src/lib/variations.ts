@@ -0,0 +1,92 @@
+import { Recipe, RecipeIngredient } from '../types';
+import { isSubRecipeLine } from './subRecipes';
+
+/**
+ * Recipe variations. Duplicating a recipe as a variation copies it and records the original in
+ * `parentId`, so a family of recipes (Carbonara, Gluten-free Carbonara, Vegan Carbonara...) can be
+ * listed together, compared line by line and have their view and cook counts added up.
+ */
+
+/** How a variation's line differs from its parent's: added, removed, or changed in amount or detail. */
+export interface IngredientDifference {
+  kind: 'added' | 'removed' | 'changed';
+  // The parent's line; unset for added lines
+  parent?: RecipeIngredient;
+  // The variation's line; unset for removed lines
+  variation?: RecipeIngredient;
+}
+
+/** View and cook counts of a recipe together with all its variations, and how many there are. */
+export interface VariationStats {
+  viewCount: number;
+  cookCount: number;
+  variationCount: number;
+}
+
+/** Suggested name for a new variation of `recipe`. */
+export function getDefaultVariationName(recipe: Recipe): string {
+  return `${recipe.name} (variation)`;
+}
+
+/** Recipes made directly from `recipeId`. */
+export function getVariations(recipes: Recipe[], recipeId: string): Recipe[] {
+  return recipes.filter((r) => r.parentId === recipeId);
+}
+
+/** Variations of `recipeId`, their variations and so on; each recipe is listed once. */
+export function getAllVariations(recipes: Recipe[], recipeId: string): Recipe[] {
+  const found = new Map<string, Recipe>();
+  const visit = (id: string) => {
+    getVariations(recipes, id).forEach((variation) => {
+      if (found.has(variation.id) || variation.id === recipeId) return;
+      found.set(variation.id, variation);
+      visit(variation.id);
+    });
+  };
+  visit(recipeId);
+  return [...found.values()];
+}
+
+/** Counts of `recipe` added up with those of all its variations. */
+export function getVariationStats(recipes: Recipe[], recipe: Recipe): VariationStats {
+  const variations = getAllVariations(recipes, recipe.id);
+  return {
+    viewCount: variations.reduce((sum, r) => sum + r.viewCount, recipe.viewCount),
+    cookCount: variations.reduce((sum, r) => sum + r.cookCount, recipe.cookCount),
+    variationCount: variations.length,
+  };
+}
+
+// Lines are matched on what they use: the ingredient, or the sub-recipe
+const lineKey = (line: RecipeIngredient) => (isSubRecipeLine(line) ? `recipe:${line.recipeId}` : line.ingredientId);
+
+const isSameLine = (a: RecipeIngredient, b: RecipeIngredient) =>
+  a.quantity === b.quantity &&
+  a.measurementId === b.measurementId &&
+  (a.note ?? '') === (b.note ?? '') &&
+  !!a.optional === !!b.optional &&
+  (a.alternateIds ?? []).join() === (b.alternateIds ?? []).join();
+
+/**
+ * Lines of `variation` that differ from `parent`'s, in the variation's order followed by the
+ * parent's removed lines. A line used more than once is matched in order of appearance;
+ * moving a line to another section does not count as a difference.
+ */
+export function getIngredientDifferences(parent: Recipe, variation: Recipe): IngredientDifference[] {
+  const unmatched = new Map<string, RecipeIngredient[]>();
+  parent.ingredients.forEach((line) => {
+    unmatched.set(lineKey(line), [...(unmatched.get(lineKey(line)) ?? []), line]);
+  });
+
+  const differences: IngredientDifference[] = [];
+  variation.ingredients.forEach((line) => {
+    const match = unmatched.get(lineKey(line))?.shift();
+    if (!match) {
+      differences.push({ kind: 'added', variation: line });
+    } else if (!isSameLine(match, line)) {
+      differences.push({ kind: 'changed', parent: match, variation: line });
+    }
+  });
+  unmatched.forEach((lines) => lines.forEach((line) => differences.push({ kind: 'removed', parent: line })));
+  return differences;
+}
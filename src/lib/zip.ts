@@ -0,0 +1,172 @@
+/**
+ * Reading zip archives and gzip files in the browser, for importing other apps' exports, and
+ * writing plain zip archives for exports of several files. Decompression uses the built-in
+ * DecompressionStream, so no library is needed; only what imports meet is supported: stored and
+ * deflated entries, no encryption, no zip64. Archives are written with stored entries.
+ */
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/** A file inside an archive. */
+export interface ZipEntry {
+  // Path within the archive, e.g. "Pancakes.paprikarecipe"
+  name: string;
+  // Its contents; throws a ZipError when this entry cannot be read, which leaves the others readable
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+/** Decompress `data` with one of the formats DecompressionStream knows. */
+async function decompress(data: Uint8Array, format: 'gzip' | 'deflate-raw'): Promise<Uint8Array> {
+  // Blob wants a view of a plain ArrayBuffer, which a copy is
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** True when `data` starts like a gzip file. */
+export const isGzip = (data: Uint8Array) => data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+
+/** True when `data` starts like a zip archive. */
+export const isZip = (data: Uint8Array) =>
+  data.length > 4 && new DataView(data.buffer, data.byteOffset).getUint32(0, true) === LOCAL_FILE_HEADER;
+
+/** The contents of a gzip file. Throws a ZipError when it is damaged. */
+export async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  try {
+    return await decompress(data, 'gzip');
+  } catch {
+    throw new ZipError('A compressed file is damaged');
+  }
+}
+
+/**
+ * The files in a zip archive, in the order its directory lists them; folders are left out.
+ * Throws a ZipError when the archive's directory cannot be read; a damaged file in it only fails
+ * when read.
+ */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // The directory's end record is in the last 64 KB (its comment is at most that long)
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipError('The file is not a zip archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipError('The archive is damaged');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+    const name = new TextDecoder(flags & FLAG_UTF8 ? 'utf-8' : 'latin1').decode(nameBytes);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const read = async () => {
+      if (flags & FLAG_ENCRYPTED) throw new ZipError(`"${name}" is encrypted`);
+      if (localOffset + 30 > data.length || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new ZipError(`"${name}" in the archive is damaged`);
+      }
+      // The local header repeats the name and may have an extra field of a different length
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const compressed = data.subarray(start, start + compressedSize);
+      if (method === METHOD_STORED) return compressed;
+      if (method !== METHOD_DEFLATED) throw new ZipError(`"${name}" is compressed in a way that is not supported`);
+      try {
+        return await decompress(compressed, 'deflate-raw');
+      } catch {
+        throw new ZipError(`"${name}" in the archive is damaged`);
+      }
+    };
+    entries.push({ name, read });
+  }
+  return entries;
+}
+
+// CRC-32 as zip uses it, a byte at a time
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** A zip archive holding `files` uncompressed, dated `modifiedAt` (local time, as zip keeps it). */
+export function writeZip(files: { name: string; data: Uint8Array }[], modifiedAt = Date.now()): Uint8Array {
+  const date = new Date(modifiedAt);
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const dosDate = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const entries = files.map((file) => ({ ...file, nameBytes: new TextEncoder().encode(file.name), crc: crc32(file.data) }));
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.nameBytes.length + entry.data.length, 0);
+  const directorySize = entries.reduce((size, entry) => size + 46 + entry.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + directorySize + 22);
+  const view = new DataView(out.buffer);
+
+  // The fields local headers and directory entries share, from "version needed" to the name length
+  const writeShared = (at: number, entry: (typeof entries)[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, FLAG_UTF8, true);
+    view.setUint16(at + 4, METHOD_STORED, true);
+    view.setUint16(at + 6, dosTime, true);
+    view.setUint16(at + 8, dosDate, true);
+    view.setUint32(at + 10, entry.crc, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.data.length, true);
+    view.setUint16(at + 22, entry.nameBytes.length, true);
+  };
+
+  let offset = 0;
+  const localOffsets = entries.map((entry) => {
+    const at = offset;
+    view.setUint32(at, LOCAL_FILE_HEADER, true);
+    writeShared(at + 4, entry);
+    out.set(entry.nameBytes, at + 30);
+    out.set(entry.data, at + 30 + entry.nameBytes.length);
+    offset += 30 + entry.nameBytes.length + entry.data.length;
+    return at;
+  });
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true);
+    writeShared(offset + 6, entry);
+    view.setUint32(offset + 42, localOffsets[i], true);
+    out.set(entry.nameBytes, offset + 46);
+    offset += 46 + entry.nameBytes.length;
+  });
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, localSize, true);
+  return out;
+}
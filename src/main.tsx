@@ -2,6 +2,10 @@
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
   import "./index.css";
+  import { loadData } from "./lib/storage";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  // Storage backends are asynchronous, so data is loaded before the first render
+  loadData().then((initialData) => {
+    createRoot(document.getElementById("root")!).render(<App initialData={initialData} />);
+  });
   
\ No newline at end of file
@@ -1,19 +1,40 @@
+/** Admins manage the shared catalog and other users' roles; members manage their own data. */
+export type UserRole = 'admin' | 'member';
+
 export interface User {
   id: string;
   username: string;
   password: string;
+  role: UserRole;
+  // Household the user belongs to, if any; its recipes and pantry replace the user's own
+  householdId?: string;
+}
+
+/** A group of users sharing recipes and one pantry. Members point at it via `User.householdId`. */
+export interface Household {
+  id: string;
+  name: string;
+  // Code other users enter to join
+  inviteCode: string;
+  createdBy: string;
+  createdAt: number;
 }
 
 export interface Ingredient {
   id: string;
   name: string;
   isCustom?: boolean;
+  // Creator of a private entry; entries without an owner are shared by everyone
+  ownerId?: string;
 }
 
 export interface Measurement {
   id: string;
   name: string;
   conversions: MeasurementConversion[];
+  isCustom?: boolean;
+  // Creator of a private entry; entries without an owner are shared by everyone
+  ownerId?: string;
 }
 
 export interface MeasurementConversion {
@@ -22,26 +43,133 @@ export interface MeasurementConversion {
 }
 
 export interface RecipeIngredient {
+  // Empty on sub-recipe lines
   ingredientId: string;
   quantity: number;
   measurementId: string;
+  // Named group the line is listed under, e.g. "For the glaze" (see lib/ingredientSections.ts)
+  section?: string;
+  // How to prepare it, e.g. "minced"
+  note?: string;
+  // Nice to have: never reported missing, and only drawn from the pantry when in stock
+  optional?: boolean;
+  // Ingredients that can stand in, in the same amount and unit, in order of preference
+  alternateIds?: string[];
+  // Set when the line is another recipe (see lib/subRecipes.ts); `quantity` is then in servings
+  // of it, or in its yield unit when `measurementId` is set
+  recipeId?: string;
+}
+
+/** What one batch of a recipe makes, so other recipes can use it by amount, e.g. 800 g of dough. */
+export interface RecipeYield {
+  quantity: number;
+  measurementId: string;
+  // Catalog ingredient a prepared batch is stocked as in the pantry, e.g. "Pizza Dough"
+  ingredientId?: string;
+}
+
+/** Fixed course a recipe is served as; see lib/tags.ts for labels. */
+export type RecipeCourse =
+  | 'breakfast'
+  | 'appetizer'
+  | 'soup'
+  | 'salad'
+  | 'main'
+  | 'side'
+  | 'dessert'
+  | 'snack'
+  | 'drink';
+
+/** Fixed cuisine a recipe belongs to; see lib/tags.ts for labels. */
+export type RecipeCuisine =
+  | 'american'
+  | 'chinese'
+  | 'french'
+  | 'greek'
+  | 'indian'
+  | 'italian'
+  | 'japanese'
+  | 'mexican'
+  | 'middle-eastern'
+  | 'spanish'
+  | 'thai'
+  | 'other';
+
+/**
+ * A photo attached to a recipe. Only this metadata lives in AppData; the downscaled image
+ * and its thumbnail are blobs in a separate IndexedDB database (see lib/photos.ts).
+ */
+export interface RecipePhoto {
+  id: string;
+  width: number;
+  height: number;
+  addedAt: number;
+}
+
+/** The parts of a recipe a revision records: everything the recipe form edits except photos. */
+export type RecipeContent = Pick<
+  Recipe,
+  | 'name'
+  | 'description'
+  | 'servings'
+  | 'yield'
+  | 'tags'
+  | 'course'
+  | 'cuisine'
+  | 'prepMinutes'
+  | 'cookMinutes'
+  | 'restMinutes'
+  | 'ingredients'
+  | 'instructions'
+>;
+
+/** A saved version of a recipe's content, newest last in `Recipe.revisions` (see lib/revisions.ts). */
+export interface RecipeRevision {
+  id: string;
+  savedAt: number;
+  // Who saved it
+  userId: string;
+  // Fields that differ from the revision before; empty for the first
+  changedFields: (keyof RecipeContent)[];
+  content: RecipeContent;
+  // Set when saving this revision restored an older one
+  restoredFrom?: string;
 }
 
 export interface Recipe {
   id: string;
+  // Author; when `householdId` is set the recipe belongs to the household instead
   userId: string;
+  householdId?: string;
+  // Recipe this one was duplicated from as a variation (see lib/variations.ts)
+  parentId?: string;
   name: string;
   description: string;
   servings: number;
+  yield?: RecipeYield;
+  // Free-form, normalised to lowercase (see normalizeTag)
+  tags: string[];
+  course?: RecipeCourse;
+  cuisine?: RecipeCuisine;
+  // Whole minutes, each optional; the total time is their sum (see lib/times.ts)
+  prepMinutes?: number;
+  cookMinutes?: number;
+  restMinutes?: number;
+  // The first photo is the cover shown on cards
+  photos: RecipePhoto[];
   ingredients: RecipeIngredient[];
   instructions: string[];
+  // Saved versions of the content, oldest first; the last one matches the recipe as it is
+  revisions?: RecipeRevision[];
   viewCount: number;
   cookCount: number;
   createdAt: number;
 }
 
 export interface InventoryItem {
+  // Who added it; when `householdId` is set the item is in the household's shared pantry
   userId: string;
+  householdId?: string;
   ingredientId: string;
   quantity: number;
   measurementId: string;
@@ -57,6 +185,20 @@ export interface CookingSession {
   status: 'active' | 'completed' | 'cancelled';
 }
 
+/**
+ * A login on one browser. The token is kept in sessionStorage, or in localStorage with
+ * "remember me"; the record here is what makes it valid.
+ */
+export interface AuthSession {
+  token: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  // Last user activity, for the idle timeout of sessions without "remember me"
+  lastActiveAt: number;
+  rememberMe: boolean;
+}
+
 export interface AppData {
   users: User[];
   recipes: Recipe[];
@@ -64,6 +206,9 @@ export interface AppData {
   measurements: Measurement[];
   inventory: InventoryItem[];
   cookingSessions: CookingSession[];
+  authSessions: AuthSession[];
+  households: Household[];
+  // User of this tab's validated session (see lib/auth.ts); a stored value is never trusted on load
   currentUserId: string | null;
   version?: number;
 }